@@ -1,12 +1,43 @@
 import "./App.css";
 import { Lobby } from "./components/Lobby";
+import { InfoPage } from "./components/InfoPage";
+import { ProfilePage } from "./components/ProfilePage";
+import { ReplayPage } from "./components/ReplayPage";
+import { SignInPage } from "./components/SignInPage";
+import { useRouter } from "./context/RouterContext";
+import { useAuth } from "./context/AuthContext";
 
 function App() {
-  return (
-    <div className="App">
-      <Lobby />
-    </div>
-  );
+  const { route } = useRouter();
+  const { account } = useAuth();
+
+  // The lobby owns everything tied to a room: browsing, joining, the room
+  // itself and its match
+  switch (route.name) {
+    case "replay":
+      return (
+        <div className="App">
+          {account ? <ReplayPage matchId={route.replayId} /> : <SignInPage />}
+        </div>
+      );
+    case "profile":
+      return (
+        <div className="App">
+          {account ? <ProfilePage username={route.username} /> : <SignInPage />}
+        </div>
+      );
+    case "not-found":
+      return (
+        <div className="App">
+          <InfoPage
+            title="Page Not Found"
+            message="There's nothing at this address."
+          />
+        </div>
+      );
+    default:
+      return <div className="App">{account ? <Lobby /> : <SignInPage />}</div>;
+  }
 }
 
 export default App;
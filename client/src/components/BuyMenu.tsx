@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { useSocketContext } from "../context/SocketContext";
+import { ItemCategory, ItemDefinition, ItemId, MAX_ARMOR } from "../game/items";
+import { Side } from "../game/map";
+import { BuyResult, GameSnapshot } from "../game/types";
+import { getSnapshotStream } from "../net/SnapshotStream";
+import type { ItemCatalogResponse } from "shared";
+
+interface BuyMenuProps {
+  open: boolean;
+  localPlayerId: string;
+  onClose: () => void;
+}
+
+// The parts of the local player's state the menu cares about
+interface Wallet {
+  money: number;
+  canBuy: boolean;
+  side: Side;
+  weapon: string;
+  armor: number;
+  hasDefuseKit: boolean;
+}
+
+const CATEGORY_LABELS: Record<ItemCategory, string> = {
+  weapon: "Weapons",
+  armor: "Armor",
+  utility: "Utility",
+};
+
+const sameWallet = (a: Wallet | null, b: Wallet) =>
+  a !== null &&
+  (Object.keys(b) as (keyof Wallet)[]).every((k) => a[k] === b[k]);
+
+export const BuyMenu: React.FC<BuyMenuProps> = ({
+  open,
+  localPlayerId,
+  onClose,
+}) => {
+  const { socket } = useSocketContext();
+  const [items, setItems] = useState<ItemDefinition[]>([]);
+  const [wallet, setWallet] = useState<Wallet | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingItem, setPendingItem] = useState<ItemId | null>(null);
+
+  // Catalog comes from the server so prices are never out of sync
+  useEffect(() => {
+    if (!socket) return;
+    socket.emit("get-items", (response: ItemCatalogResponse) => {
+      if (response.success) {
+        setItems(response.items);
+      } else {
+        setError(response.message);
+      }
+    });
+  }, [socket]);
+
+  // Track our own money and buy status from the snapshot stream, only
+  // re-rendering when something relevant changed
+  useEffect(() => {
+    if (!socket) return;
+    const handleGameState = (snapshot: GameSnapshot) => {
+      const me = snapshot.players.find((p) => p.id === localPlayerId);
+      if (!me) return;
+      const next: Wallet = {
+        money: me.money,
+        canBuy: me.canBuy,
+        side: snapshot.match.sides[me.team],
+        weapon: me.weapon,
+        armor: me.armor,
+        hasDefuseKit: me.hasDefuseKit,
+      };
+      setWallet((current) => (sameWallet(current, next) ? current : next));
+    };
+    return getSnapshotStream(socket).subscribe(handleGameState);
+  }, [socket, localPlayerId]);
+
+  // Close automatically once buying is no longer possible
+  useEffect(() => {
+    if (open && wallet && !wallet.canBuy) {
+      onClose();
+    }
+  }, [open, wallet, onClose]);
+
+  useEffect(() => {
+    if (!open) setError(null);
+  }, [open]);
+
+  if (!open || !wallet) return null;
+
+  const handleBuy = (itemId: ItemId) => {
+    if (!socket || pendingItem) return;
+    setPendingItem(itemId);
+    socket.emit("buy-item", itemId, (response: BuyResult) => {
+      setPendingItem(null);
+      if (!response.success) {
+        console.error("Failed to buy item:", response.message);
+        setError(response.message);
+      } else {
+        setError(null);
+      }
+    });
+  };
+
+  const isOwned = (item: ItemDefinition) =>
+    (item.category === "weapon" && wallet.weapon === item.id) ||
+    (item.id === "armor" && wallet.armor >= MAX_ARMOR) ||
+    (item.id === "defuse-kit" && wallet.hasDefuseKit);
+
+  const categories = (Object.keys(CATEGORY_LABELS) as ItemCategory[]).filter(
+    (category) => items.some((item) => item.category === category)
+  );
+
+  return (
+    <Paper
+      elevation={6}
+      sx={{
+        position: "absolute",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        maxWidth: "640px",
+        width: "90%",
+        bgcolor: "rgba(30, 30, 30, 0.95)",
+        textAlign: "left",
+      }}
+    >
+      <Stack
+        direction="row"
+        justifyContent="space-between"
+        alignItems="center"
+        sx={{ mb: 2 }}
+      >
+        <Typography variant="h5" color="primary">
+          Buy Menu
+        </Typography>
+        <Typography variant="h6" color="success.main">
+          ${wallet.money}
+        </Typography>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {categories.map((category) => (
+        <Box key={category} sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+            {CATEGORY_LABELS[category]}
+          </Typography>
+          <Stack direction="row" flexWrap="wrap" useFlexGap spacing={1}>
+            {items
+              .filter((item) => item.category === category)
+              .filter((item) => !item.side || item.side === wallet.side)
+              .map((item) => {
+                const owned = isOwned(item);
+                return (
+                  <Button
+                    key={item.id}
+                    variant="outlined"
+                    color="secondary"
+                    size="small"
+                    onClick={() => handleBuy(item.id)}
+                    disabled={
+                      owned ||
+                      !wallet.canBuy ||
+                      item.price > wallet.money ||
+                      pendingItem !== null
+                    }
+                    sx={{ flexDirection: "column", minWidth: "120px" }}
+                  >
+                    <span>{item.name}</span>
+                    {owned ? (
+                      <Chip label="Owned" size="small" sx={{ mt: 0.5 }} />
+                    ) : (
+                      <Typography variant="caption">${item.price}</Typography>
+                    )}
+                  </Button>
+                );
+              })}
+          </Stack>
+        </Box>
+      ))}
+
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <Typography variant="caption" color="text.secondary">
+          Press B or Esc to close
+        </Typography>
+        <Button variant="text" color="inherit" onClick={onClose}>
+          Close
+        </Button>
+      </Stack>
+    </Paper>
+  );
+};
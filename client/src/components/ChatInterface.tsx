@@ -8,17 +8,42 @@ import {
   Paper,
   Typography,
   IconButton,
+  ToggleButton,
+  ToggleButtonGroup,
 } from "@mui/material";
 import SendIcon from "@mui/icons-material/Send";
-import { User } from "./Lobby"; // Re-use User interface
+import { MAX_CHAT_LENGTH } from "shared";
+import type {
+  ChatChannel,
+  ChatHistoryResponse,
+  ChatMessage,
+  RequestRejected,
+  User,
+} from "shared";
 import { useSocketContext } from "../context/SocketContext"; // Import the new context hook
 
-// Define ChatMessage interface (can be moved to a types file later)
-interface ChatMessage {
-  username: string;
-  message: string;
-  timestamp: number;
-}
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Lines carry no id; a line from history and the same one received live
+// match on all of these
+const lineKey = (line: ChatMessage) =>
+  JSON.stringify([
+    line.timestamp,
+    line.type === "player" ? line.username : null,
+    line.message,
+  ]);
+
+// History plus whatever arrived live while it was being fetched, in order
+const mergeLines = (history: ChatMessage[], live: ChatMessage[]) => {
+  const known = new Set(history.map(lineKey));
+  return [...history, ...live.filter((line) => !known.has(lineKey(line)))].sort(
+    (a, b) => a.timestamp - b.timestamp
+  );
+};
 
 interface ChatInterfaceProps {
   roomId: string;
@@ -29,9 +54,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   roomId,
   currentUser,
 }) => {
-  const { socket } = useSocketContext(); // Use the context hook
+  const { socket, isConnected, session } = useSocketContext(); // Use the context hook
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState("");
+  const [channel, setChannel] = useState<ChatChannel>("all");
+  const [notice, setNotice] = useState<string | null>(null); // Why the last message wasn't sent
   const messagesEndRef = useRef<null | HTMLDivElement>(null); // Ref to scroll to bottom
 
   // Scroll to bottom when new messages arrive
@@ -39,6 +66,19 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Catch up on what was said before we joined, or while we were away.
+  // The session changes once a reconnect has got our seat back.
+  useEffect(() => {
+    if (!socket || !isConnected || !session) return;
+    socket.emit("get-chat-history", (response: ChatHistoryResponse) => {
+      if (response.success) {
+        setMessages((live) => mergeLines(response.messages, live));
+      } else {
+        console.log("[Client Log] No chat history:", response.message);
+      }
+    });
+  }, [socket, isConnected, session]);
+
   // Listener for 'new-message' events from socket
   useEffect(() => {
     if (!socket) return;
@@ -49,9 +89,17 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       );
       setMessages((prevMessages) => [...prevMessages, message]);
     };
+    // The server turned a message down, e.g. while we're muted for spamming
+    const handleRejected = (rejection: RequestRejected) => {
+      if (rejection.event === "send-message") {
+        setNotice(rejection.message);
+      }
+    };
     socket.on("new-message", handleNewMessage);
+    socket.on("request-rejected", handleRejected);
     return () => {
       socket.off("new-message", handleNewMessage);
+      socket.off("request-rejected", handleRejected);
     };
   }, [socket]);
 
@@ -62,11 +110,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
     const messageData = {
       roomId: roomId,
+      channel,
       message: newMessage.trim(),
-      username: currentUser.username,
     };
 
     console.log("Sending message:", messageData);
+    setNotice(null);
     // Emit 'send-message' event to socket
     socket.emit("send-message", messageData);
 
@@ -92,28 +141,54 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         sx={{ p: 2, pb: 1, borderBottom: 1, borderColor: "divider" }}
       >
         Chat
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={channel}
+          onChange={(_, value: ChatChannel | null) =>
+            value && setChannel(value)
+          }
+          sx={{ float: "right" }}
+        >
+          <ToggleButton value="all">All</ToggleButton>
+          <ToggleButton value="team">Team</ToggleButton>
+        </ToggleButtonGroup>
       </Typography>
       <Box sx={{ flexGrow: 1, overflowY: "auto", p: 1 }}>
         <List dense>
-          {messages.map((msg, index) => (
-            <ListItem key={index} sx={{ alignItems: "flex-start" }}>
-              <ListItemText
-                primary={msg.username}
-                secondary={msg.message}
-                primaryTypographyProps={{
-                  fontWeight: "bold",
-                  color:
-                    currentUser.username === msg.username
-                      ? "secondary.main"
-                      : "primary.main",
-                }} // Highlight own messages differently
-                secondaryTypographyProps={{
-                  color: "text.primary",
-                  sx: { wordBreak: "break-word" },
-                }}
-              />
-            </ListItem>
-          ))}
+          {messages.map((msg, index) =>
+            msg.type === "system" ? (
+              <ListItem key={index}>
+                <ListItemText
+                  secondary={`${formatTime(msg.timestamp)} ${msg.message}`}
+                  secondaryTypographyProps={{
+                    color: "text.secondary",
+                    fontStyle: "italic",
+                  }}
+                />
+              </ListItem>
+            ) : (
+              <ListItem key={index} sx={{ alignItems: "flex-start" }}>
+                <ListItemText
+                  primary={`${formatTime(msg.timestamp)} ${
+                    msg.channel === "team" ? "[Team] " : ""
+                  }${msg.dead ? "*DEAD* " : ""}${msg.username}`}
+                  secondary={msg.message}
+                  primaryTypographyProps={{
+                    fontWeight: "bold",
+                    color:
+                      currentUser.username === msg.username
+                        ? "secondary.main"
+                        : "primary.main",
+                  }} // Highlight own messages differently
+                  secondaryTypographyProps={{
+                    color: "text.primary",
+                    sx: { wordBreak: "break-word" },
+                  }}
+                />
+              </ListItem>
+            )
+          )}
           {/* Empty div to scroll to */}
           <div ref={messagesEndRef} />
         </List>
@@ -121,6 +196,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       <Paper elevation={3} square sx={{ p: 1, mt: "auto" }}>
         {" "}
         {/* Push to bottom */}
+        {notice && (
+          <Typography
+            variant="caption"
+            color="error"
+            sx={{ display: "block", px: 1, pb: 0.5 }}
+          >
+            {notice}
+          </Typography>
+        )}
         <Box sx={{ display: "flex", alignItems: "center" }}>
           <TextField
             variant="outlined"
@@ -130,6 +214,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             value={newMessage}
             onChange={handleInputChange}
             onKeyPress={handleKeyPress}
+            slotProps={{ htmlInput: { maxLength: MAX_CHAT_LENGTH } }}
             multiline
             maxRows={3} // Allow some expansion
           />
@@ -0,0 +1,322 @@
+import React, { useEffect, useRef } from "react";
+import { Box } from "@mui/material";
+import { useSocketContext } from "../context/SocketContext";
+import { SnapshotBuffer } from "../game/interpolation";
+import { Predictor, canMoveIn } from "../game/prediction";
+import { SnapshotStream, getSnapshotStream } from "../net/SnapshotStream";
+import {
+  Camera,
+  Viewport,
+  followCamera,
+  renderFrame,
+  screenToWorld,
+} from "../game/renderer";
+import { TICK_MS } from "../game/constants";
+import { MapDefinition, Side } from "../game/map";
+import { isTypingTarget } from "../game/input";
+import { GameSnapshot, PlayerInput, Vector2 } from "../game/types";
+import type { ActionResponse, MapResponse } from "shared";
+
+interface GameCanvasProps {
+  mapId: string;
+  localPlayerId: string;
+}
+
+interface HeldKeys {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  use: boolean;
+}
+
+const KEY_BINDINGS: Record<string, keyof HeldKeys> = {
+  KeyW: "up",
+  ArrowUp: "up",
+  KeyS: "down",
+  ArrowDown: "down",
+  KeyA: "left",
+  ArrowLeft: "left",
+  KeyD: "right",
+  ArrowRight: "right",
+  KeyE: "use", // Hold to plant or defuse
+};
+
+// Starting side for the knife round winners
+const SIDE_PICK_KEYS: Record<string, Side> = {
+  Digit1: "attack",
+  Digit2: "defend",
+};
+
+// Canvas that renders the match from server snapshots. Drawing runs on its
+// own requestAnimationFrame loop and reads everything through refs, so React
+// never re-renders per frame.
+export const GameCanvas: React.FC<GameCanvasProps> = ({
+  mapId,
+  localPlayerId,
+}) => {
+  const { socket, latency } = useSocketContext();
+  const latencyRef = useRef(latency);
+  const predictorRef = useRef(new Predictor());
+  const streamRef = useRef<SnapshotStream | null>(null);
+  const mapRef = useRef<MapDefinition | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const snapshotsRef = useRef(new SnapshotBuffer());
+  const viewportRef = useRef<Viewport>({ width: 0, height: 0 });
+  const cameraRef = useRef<Camera>({ x: 0, y: 0 });
+  const localPositionRef = useRef<Vector2 | null>(null); // As last drawn
+  const viewTimeRef = useRef<number | null>(null); // Server time last drawn
+  const mouseRef = useRef<Vector2 | null>(null);
+  const keysRef = useRef<HeldKeys>({
+    up: false,
+    down: false,
+    left: false,
+    right: false,
+    use: false,
+  });
+  const shootingRef = useRef(false);
+
+  useEffect(() => {
+    latencyRef.current = latency;
+  }, [latency]);
+
+  // --- Map data (the same definition the server simulates) ---
+  useEffect(() => {
+    if (!socket) return;
+    let cancelled = false;
+    socket.emit("get-map", mapId, (response: MapResponse) => {
+      if (cancelled) return;
+      if (!response.success) {
+        console.error(
+          `[Client Log] Could not load map "${mapId}":`,
+          response.message
+        );
+        return;
+      }
+      mapRef.current = response.map;
+    });
+    return () => {
+      cancelled = true;
+      mapRef.current = null;
+    };
+  }, [socket, mapId]);
+
+  // --- Snapshot stream ---
+  useEffect(() => {
+    if (!socket) return;
+    const snapshots = snapshotsRef.current;
+    const predictor = predictorRef.current;
+    const stream = getSnapshotStream(socket);
+    streamRef.current = stream;
+    const handleGameState = (snapshot: GameSnapshot) => {
+      snapshots.push(snapshot, performance.now());
+      const me = snapshot.players.find((p) => p.id === localPlayerId);
+      if (me && mapRef.current) {
+        predictor.reconcile(mapRef.current, me, latencyRef.current);
+      }
+    };
+    const unsubscribe = stream.subscribe(handleGameState);
+    return () => {
+      unsubscribe();
+      streamRef.current = null;
+      snapshots.clear();
+      predictor.reset();
+    };
+  }, [socket, localPlayerId]);
+
+  // --- Resize handling ---
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+
+    const resize = () => {
+      const { width, height } = container.getBoundingClientRect();
+      const dpr = window.devicePixelRatio || 1;
+      viewportRef.current = { width, height };
+      // Back the canvas with device pixels so it stays crisp on HiDPI screens
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      canvas.getContext("2d")?.setTransform(dpr, 0, 0, dpr, 0, 0);
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // --- Render loop ---
+  useEffect(() => {
+    let frameId: number;
+    const draw = () => {
+      const ctx = canvasRef.current?.getContext("2d");
+      const map = mapRef.current;
+      const sampled = snapshotsRef.current.sample(performance.now());
+      if (ctx && map && sampled) {
+        const viewport = viewportRef.current;
+        viewTimeRef.current = sampled.time;
+        // Everyone else is shown in the interpolated past, but our own
+        // player is drawn where prediction says it is right now
+        const predicted = predictorRef.current.predictedPosition;
+        const state = predicted
+          ? {
+              ...sampled,
+              players: sampled.players.map((p) =>
+                p.id === localPlayerId ? { ...p, position: predicted } : p
+              ),
+            }
+          : sampled;
+        const me = state.players.find((p) => p.id === localPlayerId);
+        if (me) {
+          localPositionRef.current = me.position;
+          cameraRef.current = followCamera(me.position, viewport, map);
+        }
+        renderFrame(ctx, map, state, cameraRef.current, viewport, {
+          localPlayerId,
+          mouse: mouseRef.current,
+          latency: latencyRef.current,
+          bandwidth: streamRef.current?.bytesPerSecond ?? null,
+        });
+      }
+      frameId = requestAnimationFrame(draw);
+    };
+    frameId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frameId);
+  }, [localPlayerId]);
+
+  // --- Input capture ---
+  useEffect(() => {
+    const handleKey = (pressed: boolean) => (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return;
+      const binding = KEY_BINDINGS[event.code];
+      if (binding) {
+        keysRef.current[binding] = pressed;
+        event.preventDefault();
+      }
+    };
+    const handleKeyDown = handleKey(true);
+    const handleKeyUp = handleKey(false);
+    // Release everything if focus leaves the window mid-press
+    const handleBlur = () => {
+      keysRef.current = {
+        up: false,
+        down: false,
+        left: false,
+        right: false,
+        use: false,
+      };
+      shootingRef.current = false;
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, []);
+
+  // --- Side pick after a knife round ---
+  useEffect(() => {
+    if (!socket) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return;
+      const side = SIDE_PICK_KEYS[event.code];
+      const latest = snapshotsRef.current.latest();
+      const me = latest?.players.find((p) => p.id === localPlayerId);
+      if (
+        !side ||
+        !me ||
+        latest?.match.phase !== "side-pick" ||
+        latest.match.sidePicker !== me.team
+      ) {
+        return;
+      }
+      socket.emit("choose-side", side, (response: ActionResponse) => {
+        if (!response.success) {
+          console.warn("[Client Log] Could not pick side:", response.message);
+        }
+      });
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [socket, localPlayerId]);
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    mouseRef.current = {
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+    };
+  };
+
+  // --- Input sending (one frame per server tick) ---
+  useEffect(() => {
+    if (!socket) return;
+    let seq = 0;
+    const interval = setInterval(() => {
+      const position = localPositionRef.current;
+      const mouse = mouseRef.current;
+      let aim = 0;
+      if (position && mouse) {
+        const target = screenToWorld(
+          mouse,
+          cameraRef.current,
+          viewportRef.current
+        );
+        aim = Math.atan2(target.y - position.y, target.x - position.x);
+      }
+      const input: PlayerInput = {
+        seq: ++seq,
+        ...keysRef.current,
+        aim,
+        shoot: shootingRef.current,
+        viewTime: viewTimeRef.current,
+      };
+      socket.emit("player-input", input);
+
+      // Move straight away instead of waiting for the server to answer
+      const map = mapRef.current;
+      const latest = snapshotsRef.current.latest();
+      const me = latest?.players.find((p) => p.id === localPlayerId);
+      if (map && latest && me) {
+        predictorRef.current.applyInput(
+          map,
+          input,
+          me.alive && canMoveIn(latest.match.phase)
+        );
+      }
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [socket, localPlayerId]);
+
+  return (
+    <Box
+      ref={containerRef}
+      sx={{ width: "100%", height: "100%", overflow: "hidden" }}
+    >
+      <canvas
+        ref={canvasRef}
+        style={{ display: "block", cursor: "none" }}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => {
+          mouseRef.current = null;
+          shootingRef.current = false;
+        }}
+        onMouseDown={(event) => {
+          if (event.button === 0) shootingRef.current = true;
+        }}
+        onMouseUp={(event) => {
+          if (event.button === 0) shootingRef.current = false;
+        }}
+        onContextMenu={(event) => event.preventDefault()}
+      />
+    </Box>
+  );
+};
@@ -1,14 +1,66 @@
-import React from "react";
-import { Box, Typography, Paper } from "@mui/material";
-import { Room, User } from "./Lobby"; // Re-use interfaces from Lobby
+import React, { useCallback, useEffect, useState } from "react";
+import { Alert, Box, Button, Paper } from "@mui/material";
+import type { Room, User } from "shared";
 import { ChatInterface } from "./ChatInterface"; // Import Chat
+import { GameCanvas } from "./GameCanvas";
+import { BuyMenu } from "./BuyMenu";
+import { useSocketContext } from "../context/SocketContext";
+import { MatchEndEvent } from "../game/types";
+import { isTypingTarget } from "../game/input";
 
 interface GameSceneProps {
   room: Room;
   currentUser: User;
+  onReturnToRoom: () => void;
+  onLeaveRoom: () => void;
 }
 
-export const GameScene: React.FC<GameSceneProps> = ({ room, currentUser }) => {
+export const GameScene: React.FC<GameSceneProps> = ({
+  room,
+  currentUser,
+  onReturnToRoom,
+  onLeaveRoom,
+}) => {
+  const { socket, isConnected } = useSocketContext();
+  const [matchResult, setMatchResult] = useState<MatchEndEvent | null>(null);
+  const [isBuyMenuOpen, setIsBuyMenuOpen] = useState(false);
+
+  const closeBuyMenu = useCallback(() => setIsBuyMenuOpen(false), []);
+
+  // Leaving a running match abandons the team; alone on it, that forfeits
+  const handleLeaveMatch = () => {
+    if (window.confirm("Leave the match? Your team may forfeit.")) {
+      onLeaveRoom();
+    }
+  };
+
+  // Buy menu hotkeys
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return;
+      if (event.code === "KeyB") {
+        setIsBuyMenuOpen((open) => !open);
+      } else if (event.code === "Escape") {
+        setIsBuyMenuOpen(false);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // The canvas shows the final banner; we only need to offer a way out
+  useEffect(() => {
+    if (!socket) return;
+    const handleMatchEnd = (event: MatchEndEvent) => {
+      console.log("[Client Log] Match ended:", event);
+      setMatchResult(event);
+    };
+    socket.on("match-end", handleMatchEnd);
+    return () => {
+      socket.off("match-end", handleMatchEnd);
+    };
+  }, [socket]);
+
   return (
     <Box
       sx={{
@@ -19,30 +71,72 @@ export const GameScene: React.FC<GameSceneProps> = ({ room, currentUser }) => {
         bgcolor: "background.default",
       }}
     >
-      {/* Main Game Canvas Area (Placeholder) */}
+      {/* Main Game Canvas Area */}
       <Box
         component={Paper}
         elevation={1}
         square
         sx={{
           flexGrow: 1, // Takes up remaining space
+          minWidth: 0, // Allow the canvas to shrink with the window
           height: "calc(100vh - 16px)", // Full height minus margins
-          p: 2,
+          p: 0, // Canvas fills the whole area
           m: 1,
           mr: 0, // No right margin
-          display: "flex",
-          flexDirection: "column",
-          alignItems: "center",
-          justifyContent: "center",
+          maxWidth: "none", // Override the themed Paper width
           bgcolor: "grey.900",
+          overflow: "hidden",
+          position: "relative", // Anchor for overlays
         }}
       >
-        <Typography variant="h6" color="text.secondary">
-          Game Canvas Area
-        </Typography>
-        <Typography variant="caption" color="text.secondary">
-          (Room: {room.id})
-        </Typography>
+        <GameCanvas
+          mapId={room.settings.mapId}
+          localPlayerId={currentUser.id}
+        />
+        <BuyMenu
+          open={isBuyMenuOpen}
+          localPlayerId={currentUser.id}
+          onClose={closeBuyMenu}
+        />
+        {!isConnected && (
+          <Alert
+            severity="warning"
+            sx={{
+              position: "absolute",
+              top: 16,
+              left: "50%",
+              transform: "translateX(-50%)",
+            }}
+          >
+            Connection lost. Reconnecting...
+          </Alert>
+        )}
+        {!matchResult && (
+          <Button
+            variant="outlined"
+            color="error"
+            size="small"
+            onClick={handleLeaveMatch}
+            sx={{ position: "absolute", top: 16, left: 16 }}
+          >
+            Leave Match
+          </Button>
+        )}
+        {matchResult && (
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={onReturnToRoom}
+            sx={{
+              position: "absolute",
+              bottom: "20%",
+              left: "50%",
+              transform: "translateX(-50%)",
+            }}
+          >
+            Return to Room
+          </Button>
+        )}
       </Box>
 
       {/* Chat Sidebar */}
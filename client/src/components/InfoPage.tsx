@@ -0,0 +1,55 @@
+import React, { ReactNode } from "react";
+import {
+  Button,
+  Container,
+  CssBaseline,
+  Paper,
+  ThemeProvider,
+  Typography,
+} from "@mui/material";
+import { darkTheme } from "../theme";
+import { useRouter } from "../context/RouterContext";
+
+interface InfoPageProps {
+  title: string;
+  message?: string;
+  children?: ReactNode; // Shown between the message and the way back
+}
+
+// A page of its own away from the lobby, with a way back to it
+export const InfoPage: React.FC<InfoPageProps> = ({
+  title,
+  message,
+  children,
+}) => {
+  const { navigate } = useRouter();
+  return (
+    <ThemeProvider theme={darkTheme}>
+      <CssBaseline />
+      <Container
+        maxWidth="sm"
+        sx={{
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          minHeight: "100vh",
+        }}
+      >
+        <Paper elevation={3}>
+          <Typography variant="h5" component="h1" color="primary" gutterBottom>
+            {title}
+          </Typography>
+          {message && (
+            <Typography variant="body1" sx={{ mb: 3 }}>
+              {message}
+            </Typography>
+          )}
+          {children}
+          <Button variant="contained" onClick={() => navigate("/")}>
+            Back to Lobby
+          </Button>
+        </Paper>
+      </Container>
+    </ThemeProvider>
+  );
+};
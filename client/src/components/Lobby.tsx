@@ -10,188 +10,124 @@ import {
   Alert,
   CssBaseline, // Ensures baseline styles and dark mode works easily
   ThemeProvider, // To apply theme
-  createTheme, // To create a theme
-  List,
-  ListItem,
-  ListItemText,
-  ListItemButton, // For clickable lobby list items
   Stack, // Useful for layout
   Paper, // For containing the room view
   Chip, // For status indicators
   Divider, // To separate sections
   IconButton, // For refresh button
+  Dialog, // Host settings editor
+  DialogTitle,
+  DialogContent,
+  DialogActions,
 } from "@mui/material";
 import CheckCircleIcon from "@mui/icons-material/CheckCircle"; // Ready icon
 import RadioButtonUncheckedIcon from "@mui/icons-material/RadioButtonUnchecked"; // Not ready icon
-import RefreshIcon from "@mui/icons-material/Refresh"; // Refresh icon
+import LockIcon from "@mui/icons-material/Lock"; // Password-protected lobby
+import ContentCopyIcon from "@mui/icons-material/ContentCopy"; // Copy invite link
 import { GameScene } from "./GameScene"; // Import the new component
-
-// Define a dark theme (can be customized further)
-const darkTheme = createTheme({
-  palette: {
-    mode: "dark",
-    primary: {
-      // CS-like orange/yellow
-      main: "#f0ad4e",
-      contrastText: "#1a1a1a", // Dark text for primary button
-    },
-    secondary: {
-      // CS-like blue/cyan
-      main: "#5bc0de",
-      contrastText: "#1a1a1a", // Dark text for secondary button
-    },
-    background: {
-      default: "#121212", // Even darker background
-      paper: "#1e1e1e", // Slightly lighter paper
-    },
-    text: {
-      primary: "#e0e0e0",
-      secondary: "#b0b0b0",
-    },
-    success: {
-      main: "#4caf50", // Green for ready/connected
-    },
-    error: {
-      main: "#d9534f", // Red for errors/leave
-    },
-    divider: "rgba(255, 255, 255, 0.12)", // Lighter divider for dark mode
-  },
-  typography: {
-    fontFamily: '"Segoe UI", Tahoma, Geneva, Verdana, sans-serif',
-    h4: {
-      fontWeight: "bold",
-      textTransform: "uppercase",
-      letterSpacing: "2px",
-      marginBottom: "1rem",
-      textShadow: "1px 1px 3px rgba(0, 0, 0, 0.5)",
-    },
-    h5: {
-      fontWeight: "bold",
-    },
-    body2: {
-      // For status text
-      color: "#999999",
-    },
-  },
-  components: {
-    MuiButton: {
-      styleOverrides: {
-        root: {
-          fontWeight: "bold",
-          letterSpacing: "1px",
-          padding: "0.6rem 1.5rem",
-        },
-      },
-    },
-    MuiTextField: {
-      styleOverrides: {
-        root: {
-          "& .MuiOutlinedInput-root": {
-            "&.Mui-focused fieldset": {
-              borderColor: "#f0ad4e", // Focus color
-            },
-          },
-        },
-      },
-    },
-    MuiPaper: {
-      // Style for the room view container
-      styleOverrides: {
-        root: {
-          padding: "2rem",
-          borderRadius: "8px",
-          border: "1px solid rgba(255, 255, 255, 0.12)",
-          width: "100%",
-          maxWidth: "500px",
-          textAlign: "center",
-        },
-      },
-    },
-  },
-});
-
-// Export interfaces for use in other components
-export interface User {
-  id: string;
-  username: string;
-  ready: boolean;
-}
-
-export interface Room {
-  id: string;
-  users: User[];
-}
-
-interface LobbyInfo {
-  id: string;
-  playerCount: number;
+import { ChatInterface } from "./ChatInterface";
+import { RoomSettingsForm } from "./RoomSettingsForm";
+import { TeamColumns } from "./TeamColumns";
+import { LobbyBrowser } from "./LobbyBrowser";
+import { MatchmakingPanel } from "./MatchmakingPanel";
+import { LobbySummary } from "../game/lobbyList";
+import {
+  DEFAULT_ROOM_SETTINGS,
+  REGION_NAMES,
+  RoomSettingsInput,
+  SIDE_PICK_NAMES,
+  formatRoundTime,
+  formatTeamSize,
+} from "../game/roomSettings";
+import type {
+  Ack,
+  ActionResponse,
+  ErrorCode,
+  KickedNotice,
+  MapListResponse,
+  RatingUpdate,
+  Room,
+  RoomStatus,
+  SessionResponse,
+} from "shared";
+import { darkTheme } from "../theme";
+import { useRouter } from "../context/RouterContext";
+import { useAuth } from "../context/AuthContext";
+
+interface Invite {
+  roomId: string;
+  token: string;
 }
 
-interface ServerResponse {
-  success: boolean;
-  roomId?: string;
-  error?: string;
+// An error shown above the form; the server's code says which field to mark
+interface LobbyError {
+  message: string;
+  code?: ErrorCode;
 }
 
-interface ToggleReadyResponse {
-  success: boolean;
-  error?: string;
-}
+// Errors about the room itself rather than how we tried to get in
+const ROOM_CODE_ERRORS: ErrorCode[] = [
+  "room-not-found",
+  "room-full",
+  "room-locked",
+  "match-in-progress",
+];
+const ROOM_PASSWORD_ERRORS: ErrorCode[] = [
+  "password-required",
+  "wrong-password",
+];
+
+const hasCode = (error: LobbyError | null, codes: ErrorCode[]) =>
+  error?.code !== undefined && codes.includes(error.code);
+
+// Shown in the room view
+const ROOM_STATUS_TEXT: Record<RoomStatus, string> = {
+  open: "Waiting for players",
+  full: "Waiting for everyone to ready up",
+  starting: "Match starting...",
+  "in-game": "Match in progress",
+  finished: "Match finished",
+  closed: "Room closed",
+};
 
-const USERNAME_STORAGE_KEY = "combatStrategyUsername";
+const inviteLinkFor = (room: Room) =>
+  `${window.location.origin}/join/${room.id}?token=${encodeURIComponent(
+    room.inviteToken
+  )}`;
 
 export const Lobby: React.FC = () => {
-  const { socket, isConnected } = useSocketContext();
-  // Load initial username from localStorage
-  const [username, setUsername] = useState(
-    () => localStorage.getItem(USERNAME_STORAGE_KEY) || ""
+  const {
+    socket,
+    isConnected,
+    session,
+    isRestoring,
+    startSession,
+    endSession,
+  } = useSocketContext();
+  const { route, navigate } = useRouter();
+  const { account, signOut } = useAuth();
+  // Opened from an invite link
+  const invite: Invite | null =
+    route.name === "join" ? { roomId: route.roomId, token: route.token } : null;
+  const [roomCode, setRoomCode] = useState(() => invite?.roomId ?? "");
+  const [roomPassword, setRoomPassword] = useState("");
+  const [passwordRequired, setPasswordRequired] = useState(false); // Show the password field
+  const [newRoomPassword, setNewRoomPassword] = useState(""); // Optional
+  const [passwordDraft, setPasswordDraft] = useState(""); // Host changing the password
+  const [newRoomSettings, setNewRoomSettings] = useState<RoomSettingsInput>(
+    DEFAULT_ROOM_SETTINGS
   );
-  const [roomCode, setRoomCode] = useState("");
   const [joinedRoomId, setJoinedRoomId] = useState<string | null>(null);
   const [roomState, setRoomState] = useState<Room | null>(null);
-  const [availableLobbies, setAvailableLobbies] = useState<LobbyInfo[]>([]); // State for lobby list
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LobbyError | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingLobbies, setIsLoadingLobbies] = useState(false);
   const [isTogglingReady, setIsTogglingReady] = useState(false);
-  const [gameStarted, setGameStarted] = useState(false); // State for game start
-
-  // --- LocalStorage Effect ---
-  useEffect(() => {
-    // Save username whenever it changes (could also be done only on join/create)
-    if (username.trim()) {
-      localStorage.setItem(USERNAME_STORAGE_KEY, username.trim());
-    } else {
-      // Optional: remove if username is cleared
-      // localStorage.removeItem(USERNAME_STORAGE_KEY);
-    }
-  }, [username]);
+  const [mapNames, setMapNames] = useState<Record<string, string>>({}); // Map ID -> display name
+  const [ratingChange, setRatingChange] = useState<RatingUpdate | null>(null); // From the last ranked match
+  const [editedSettings, setEditedSettings] =
+    useState<RoomSettingsInput | null>(null); // Open host settings dialog
 
   // --- Socket Event Listeners ---
-  const fetchLobbies = useCallback(() => {
-    if (!socket || !isConnected) return;
-    setIsLoadingLobbies(true);
-    socket.emit("get-lobbies", (lobbies: LobbyInfo[]) => {
-      setAvailableLobbies(lobbies);
-      setIsLoadingLobbies(false);
-      console.log("Fetched lobbies:", lobbies);
-    });
-  }, [socket, isConnected]);
-
-  // Define handleLobbiesUpdated outside useEffect, wrapped in useCallback
-  const handleLobbiesUpdated = useCallback(() => {
-    console.log("[Client Log] Lobbies updated signal received.");
-    // Always refetch lobbies
-    fetchLobbies();
-    // If currently in a room, explicitly ask for its state
-    if (socket && joinedRoomId) {
-      console.log(
-        `[Client Log] In room ${joinedRoomId}, requesting specific update.`
-      );
-      socket.emit("get-room-state", joinedRoomId);
-    }
-  }, [socket, joinedRoomId, fetchLobbies]);
-
   useEffect(() => {
     if (!socket) return;
 
@@ -216,128 +152,256 @@ export const Lobby: React.FC = () => {
         finalRoomState
       );
       setRoomState(finalRoomState); // Ensure state is final
-      setGameStarted(true);
+      navigate(`/match/${finalRoomState.id}`);
+    };
+
+    const handleKicked = ({ banned }: KickedNotice) => {
+      console.log("[Client Log] Removed from the room by the host.");
+      endSession();
+      navigate("/", { replace: true });
+      setError({
+        message: banned
+          ? "You were banned from the room."
+          : "You were kicked from the room.",
+      });
+    };
+
+    const handleRatingUpdated = (update: RatingUpdate) => {
+      console.log("[Client Log] Rating updated:", update);
+      setRatingChange(update);
     };
 
     // Setup listeners
     socket.on("room-update", handleRoomUpdate);
-    socket.on("lobbies-updated", handleLobbiesUpdated);
+    socket.on("rating-updated", handleRatingUpdated);
+    socket.on("kicked", handleKicked);
     socket.on("specific-room-update", handleRoomUpdate);
     socket.on("start-game", handleStartGame); // Add listener for game start
 
-    // Fetch initial lobby list when connected
-    if (isConnected) {
-      fetchLobbies();
-    }
-
     return () => {
       // Clean up listeners
       socket.off("room-update", handleRoomUpdate);
-      socket.off("lobbies-updated", handleLobbiesUpdated);
+      socket.off("rating-updated", handleRatingUpdated);
+      socket.off("kicked", handleKicked);
       socket.off("specific-room-update", handleRoomUpdate);
       socket.off("start-game", handleStartGame); // Clean up game start listener
     };
-  }, [socket, isConnected, fetchLobbies, handleLobbiesUpdated]); // Add handleLobbiesUpdated to dependency array
+  }, [socket, endSession, navigate]);
+
+  // Fetch the map pool once so map IDs can be shown by name
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    socket.emit("get-maps", (response: MapListResponse) => {
+      if (!response.success) {
+        console.error("Failed to fetch maps:", response.message);
+        return;
+      }
+      setMapNames(
+        Object.fromEntries(response.maps.map((map) => [map.id, map.name]))
+      );
+    });
+  }, [socket, isConnected]);
 
   // Clear error on input change
   useEffect(() => {
     setError(null);
-  }, [username, roomCode]);
+  }, [roomCode]);
 
-  // Reset room state when leaving
+  // Entering a room, landing back in one after a reconnect, or losing the
+  // seat because the session expired
+  useEffect(() => {
+    if (!session) {
+      setJoinedRoomId(null);
+      return;
+    }
+    setJoinedRoomId(session.roomId);
+    navigate(`/${session.inMatch ? "match" : "room"}/${session.roomId}`, {
+      replace: true,
+    });
+  }, [session, navigate]);
+
+  // Keep the URL on the room we hold a seat in. Without a seat, a room or
+  // match link just fills in the code to join with.
+  useEffect(() => {
+    if (isRestoring) return;
+    const roomRoute = route.name === "room" || route.name === "match";
+    if (session) {
+      if (!roomRoute || route.roomId !== session.roomId) {
+        navigate(`/room/${session.roomId}`, { replace: true });
+      }
+    } else if (roomRoute) {
+      setRoomCode(route.roomId);
+      navigate("/", { replace: true });
+    }
+  }, [session, isRestoring, route, navigate]);
+
+  // Reset room state when leaving; ask for it when entering
   useEffect(() => {
     if (!joinedRoomId) {
       setRoomState(null);
+      setRatingChange(null);
+    } else if (socket && isConnected) {
+      socket.emit("get-room-state", joinedRoomId);
     }
-  }, [joinedRoomId]);
+  }, [socket, isConnected, joinedRoomId]);
 
   // --- Action Handlers ---
   const handleAction = (action: "create" | "join") => {
     if (!socket) return;
 
-    const name = username.trim();
     const code = roomCode.trim().toUpperCase();
 
-    if (name.length < 3) {
-      setError("Username must be at least 3 characters long.");
-      return;
-    }
     if (action === "join" && code === "") {
-      setError("Room code cannot be empty.");
+      setError({ message: "Room code cannot be empty." });
       return;
     }
 
     setIsLoading(true);
     setError(null);
-    localStorage.setItem(USERNAME_STORAGE_KEY, name); // Save username on action
 
-    const event = action === "create" ? "create-room" : "join-room";
-    const args = action === "create" ? [name] : [code, name];
-
-    socket.emit(event, ...args, (response: ServerResponse) => {
+    const handleResponse = (response: SessionResponse) => {
       setIsLoading(false);
-      if (response.success && response.roomId) {
+      if (response.success) {
         console.log(
           `${action === "create" ? "Created" : "Joined"} room:`,
           response.roomId
         );
-        setJoinedRoomId(response.roomId);
+        startSession({
+          token: response.sessionToken,
+          userId: response.userId,
+          roomId: response.roomId,
+          inMatch: false,
+        });
         if (action === "create") {
           setRoomCode(response.roomId);
         }
+        setRoomPassword("");
+        setPasswordRequired(false);
       } else {
-        console.error(`Failed to ${action} room:`, response.error);
-        setError(response.error || `Failed to ${action} room.`);
+        console.error(`Failed to ${action} room:`, response.message);
+        setError(response);
+        if (hasCode(response, ROOM_PASSWORD_ERRORS)) {
+          setPasswordRequired(true);
+        }
       }
-    });
+    };
+
+    if (action === "create") {
+      socket.emit(
+        "create-room",
+        newRoomSettings,
+        newRoomPassword || null,
+        handleResponse
+      );
+    } else {
+      // An invite for this room beats typing the password
+      const access =
+        invite?.roomId === code
+          ? { inviteToken: invite.token }
+          : { password: roomPassword };
+      socket.emit("join-room", code, access, handleResponse);
+    }
   };
 
   const handleToggleReady = () => {
     if (!socket || isTogglingReady) return;
 
     setIsTogglingReady(true);
-    socket.emit("toggle-ready", (response: ToggleReadyResponse) => {
+    socket.emit("toggle-ready", (response: ActionResponse) => {
       setIsTogglingReady(false);
       if (!response.success) {
-        console.error("Failed to toggle ready status:", response.error);
-        setError(response.error || "Failed to update ready status.");
+        console.error("Failed to toggle ready status:", response.message);
+        setError(response);
       } else {
         setError(null);
       }
     });
   };
 
+  // Team changes and host actions all answer the same way
+  const roomActionCallback =
+    (onSuccess?: () => void): Ack =>
+    (response) => {
+      if (!response.success) {
+        console.error("Room action failed:", response.message);
+        setError(response);
+      } else {
+        setError(null);
+        onSuccess?.();
+      }
+    };
+
   const handleLeaveRoom = () => {
     if (socket) {
-      // You could emit a 'leave-room' event here if needed on the server
+      socket.emit("leave-room", (response: ActionResponse) => {
+        if (!response.success) {
+          console.error("Failed to leave room:", response.message);
+        }
+      });
     }
+    endSession();
+    navigate("/");
     setJoinedRoomId(null);
     setRoomCode("");
     setRoomState(null);
     setError(null);
-    fetchLobbies(); // Refresh lobby list after leaving
   };
 
-  const handleLobbyClick = (lobbyId: string) => {
-    setRoomCode(lobbyId);
+  // Matchmaking put us in a room of its own
+  const handleMatchReady = useCallback(
+    (ready: { roomId: string; userId: string; sessionToken: string }) => {
+      console.log("[Client Log] Ranked match ready in room", ready.roomId);
+      startSession({
+        token: ready.sessionToken,
+        userId: ready.userId,
+        roomId: ready.roomId,
+        inMatch: false,
+      });
+    },
+    [startSession]
+  );
+
+  const handleLobbyClick = (lobby: LobbySummary) => {
+    setRoomCode(lobby.id);
+    setPasswordRequired(lobby.hasPassword);
+  };
+
+  const handleCopyInvite = (room: Room) => {
+    navigator.clipboard
+      .writeText(inviteLinkFor(room))
+      .catch((err) => console.error("Failed to copy invite link:", err));
   };
 
-  const currentUser = roomState?.users.find((user) => user.id === socket?.id);
+  const currentUser = roomState?.users.find(
+    (user) => user.id === session?.userId
+  );
 
   // --- Conditional Rendering ---
 
   // Render Game Scene if started
-  if (gameStarted && roomState && currentUser) {
+  if (route.name === "match" && roomState && currentUser) {
     return (
       <ThemeProvider theme={darkTheme}>
         <CssBaseline />
-        <GameScene room={roomState} currentUser={currentUser} />
+        <GameScene
+          room={roomState}
+          currentUser={currentUser}
+          onReturnToRoom={() => navigate(`/room/${roomState.id}`)}
+          onLeaveRoom={handleLeaveRoom}
+        />
       </ThemeProvider>
     );
   }
 
   // Render Joined Room View if in room but game not started
   if (joinedRoomId && roomState) {
+    const isHost = roomState.hostId === session?.userId;
+    // Ranked rooms keep matchmaking's teams and start on their own
+    const teamsEditable =
+      !roomState.ranked &&
+      (roomState.status === "open" ||
+        roomState.status === "full" ||
+        roomState.status === "finished");
     console.log(
       "[Client Log] Rendering Joined Room View with roomState:",
       JSON.stringify(roomState)
@@ -346,7 +410,7 @@ export const Lobby: React.FC = () => {
       <ThemeProvider theme={darkTheme}>
         <CssBaseline />
         <Container
-          maxWidth="sm"
+          maxWidth="md"
           sx={{
             display: "flex",
             justifyContent: "center",
@@ -354,7 +418,7 @@ export const Lobby: React.FC = () => {
             minHeight: "100vh",
           }}
         >
-          <Paper elevation={3}>
+          <Paper elevation={3} sx={{ maxWidth: "720px" }}>
             <Typography
               variant="h5"
               component="h2"
@@ -363,62 +427,201 @@ export const Lobby: React.FC = () => {
             >
               Room: {roomState.id}
             </Typography>
-            <Typography variant="body1" sx={{ mb: 2 }}>
-              Welcome, {currentUser?.username || username}!
+            <Typography variant="body1" sx={{ mb: 1 }}>
+              Welcome, {currentUser?.username || account?.username}!
             </Typography>
-
-            <Typography variant="h6" sx={{ mb: 1 }}>
-              Players:
+            <Typography variant="body2">
+              {formatTeamSize(roomState.settings.teamSize)} ·{" "}
+              {mapNames[roomState.settings.mapId] || roomState.settings.mapId} ·{" "}
+              {roomState.settings.maxRounds} rounds ·{" "}
+              {formatRoundTime(roomState.settings.roundTimeMs)} per round
             </Typography>
-            <List sx={{ width: "100%", mb: 3 }}>
-              {roomState.users.map((user) => (
-                <ListItem
-                  key={user.id}
-                  disablePadding
-                  secondaryAction={
-                    <Chip
-                      icon={
-                        user.ready ? (
-                          <CheckCircleIcon />
-                        ) : (
-                          <RadioButtonUncheckedIcon />
-                        )
-                      }
-                      label={user.ready ? "Ready" : "Not Ready"}
-                      color={user.ready ? "success" : "default"}
-                      size="small"
-                    />
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              Friendly fire {roomState.settings.friendlyFire ? "on" : "off"} ·{" "}
+              {SIDE_PICK_NAMES[roomState.settings.sidePick]} ·{" "}
+              {REGION_NAMES[roomState.settings.region]} ·{" "}
+              {roomState.settings.private ? "Private" : "Public"} · Dead chat{" "}
+              {roomState.settings.restrictDeadChat ? "restricted" : "open"}
+            </Typography>
+            <Stack
+              direction="row"
+              spacing={1}
+              justifyContent="center"
+              sx={{ mb: 2 }}
+            >
+              <Chip
+                label={ROOM_STATUS_TEXT[roomState.status]}
+                color={roomState.status === "starting" ? "primary" : "default"}
+                size="small"
+              />
+              {roomState.locked && (
+                <Chip label="Locked" color="warning" size="small" />
+              )}
+              {roomState.hasPassword && (
+                <Chip
+                  icon={<LockIcon />}
+                  label="Password"
+                  variant="outlined"
+                  size="small"
+                />
+              )}
+            </Stack>
+
+            <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
+              <TextField
+                label="Invite Link"
+                size="small"
+                fullWidth
+                value={inviteLinkFor(roomState)}
+                InputProps={{ readOnly: true }}
+                onFocus={(e) => e.target.select()}
+              />
+              <IconButton
+                onClick={() => handleCopyInvite(roomState)}
+                title="Copy invite link"
+              >
+                <ContentCopyIcon />
+              </IconButton>
+              {isHost && (
+                <Button
+                  size="small"
+                  onClick={() =>
+                    socket?.emit("regenerate-invite", roomActionCallback())
                   }
+                  sx={{ whiteSpace: "nowrap", flexShrink: 0 }}
                 >
-                  <ListItemText
-                    primary={user.username}
-                    sx={{
-                      color:
-                        user.id === socket?.id
-                          ? "primary.main"
-                          : "text.primary",
-                    }}
-                  />
-                </ListItem>
-              ))}
-              {[...Array(Math.max(0, 2 - roomState.users.length))].map(
-                (_, i) => (
-                  <ListItem key={`empty-${i}`} disablePadding>
-                    <ListItemText
-                      primary="...waiting..."
-                      sx={{ fontStyle: "italic", color: "text.secondary" }}
-                    />
-                  </ListItem>
-                )
+                  New Link
+                </Button>
               )}
-            </List>
+            </Stack>
+
+            {error && (
+              <Alert severity="error" sx={{ mb: 2, textAlign: "left" }}>
+                {error.message}
+              </Alert>
+            )}
+            {ratingChange && (
+              <Alert
+                severity={
+                  ratingChange.after >= ratingChange.before ? "success" : "info"
+                }
+                onClose={() => setRatingChange(null)}
+                sx={{ mb: 2, textAlign: "left" }}
+              >
+                Rating: {ratingChange.before} → {ratingChange.after} (
+                {ratingChange.after >= ratingChange.before ? "+" : ""}
+                {ratingChange.after - ratingChange.before})
+              </Alert>
+            )}
+
+            <TeamColumns
+              room={roomState}
+              currentUserId={session?.userId}
+              locked={!teamsEditable}
+              onSwitchTeam={() =>
+                socket?.emit("switch-team", roomActionCallback())
+              }
+              onRequestSwap={(userId) =>
+                socket?.emit("request-swap", userId, roomActionCallback())
+              }
+              onAcceptSwap={(fromId) =>
+                socket?.emit("accept-swap", fromId, roomActionCallback())
+              }
+              onKick={(userId) =>
+                socket?.emit("kick-player", userId, roomActionCallback())
+              }
+              onBan={(userId) =>
+                socket?.emit("ban-player", userId, roomActionCallback())
+              }
+              onTransferHost={(userId) =>
+                socket?.emit("transfer-host", userId, roomActionCallback())
+              }
+            />
+
+            {isHost && (
+              <Stack
+                direction="row"
+                spacing={2}
+                justifyContent="center"
+                sx={{ mb: 2 }}
+              >
+                <Button
+                  variant="outlined"
+                  color="secondary"
+                  onClick={() => setEditedSettings(roomState.settings)}
+                  disabled={!teamsEditable}
+                >
+                  Edit Settings
+                </Button>
+                <Button
+                  variant="outlined"
+                  color="secondary"
+                  onClick={() =>
+                    socket?.emit(
+                      "set-room-locked",
+                      !roomState.locked,
+                      roomActionCallback()
+                    )
+                  }
+                >
+                  {roomState.locked ? "Unlock Room" : "Lock Room"}
+                </Button>
+              </Stack>
+            )}
+
+            {isHost && (
+              <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
+                <TextField
+                  label={
+                    roomState.hasPassword ? "Change Password" : "Set Password"
+                  }
+                  type="password"
+                  size="small"
+                  fullWidth
+                  value={passwordDraft}
+                  onChange={(e) => setPasswordDraft(e.target.value)}
+                  error={hasCode(error, ["invalid-password"])}
+                />
+                <Button
+                  variant="outlined"
+                  size="small"
+                  onClick={() =>
+                    socket?.emit(
+                      "set-room-password",
+                      passwordDraft,
+                      roomActionCallback(() => setPasswordDraft(""))
+                    )
+                  }
+                  disabled={passwordDraft === ""}
+                >
+                  Save
+                </Button>
+                {roomState.hasPassword && (
+                  <Button
+                    variant="outlined"
+                    color="error"
+                    size="small"
+                    onClick={() =>
+                      socket?.emit(
+                        "set-room-password",
+                        null,
+                        roomActionCallback()
+                      )
+                    }
+                    sx={{ whiteSpace: "nowrap", flexShrink: 0 }}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </Stack>
+            )}
 
             <Stack direction="row" spacing={2} justifyContent="center">
               <Button
                 variant="contained"
                 color={currentUser?.ready ? "warning" : "success"}
                 onClick={handleToggleReady}
-                disabled={isTogglingReady}
+                disabled={isTogglingReady || roomState.ranked}
                 startIcon={
                   isTogglingReady ? (
                     <CircularProgress size={20} color="inherit" />
@@ -438,9 +641,72 @@ export const Lobby: React.FC = () => {
               >
                 Leave Room
               </Button>
+              <Button
+                variant="outlined"
+                onClick={() =>
+                  socket?.emit("balance-teams", roomActionCallback())
+                }
+                disabled={!teamsEditable}
+              >
+                Auto-Balance
+              </Button>
             </Stack>
+            {currentUser && (
+              <Box
+                sx={{
+                  height: "280px",
+                  mt: 2,
+                  border: 1,
+                  borderColor: "divider",
+                  display: "flex",
+                  flexDirection: "column",
+                }}
+              >
+                <ChatInterface
+                  roomId={roomState.id}
+                  currentUser={currentUser}
+                />
+              </Box>
+            )}
           </Paper>
         </Container>
+
+        <Dialog
+          open={editedSettings !== null}
+          onClose={() => setEditedSettings(null)}
+        >
+          <DialogTitle>Room Settings</DialogTitle>
+          <DialogContent sx={{ pt: 1 }}>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error.message}
+              </Alert>
+            )}
+            {editedSettings && (
+              <RoomSettingsForm
+                value={editedSettings}
+                onChange={setEditedSettings}
+                mapNames={mapNames}
+              />
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setEditedSettings(null)}>Cancel</Button>
+            <Button
+              variant="contained"
+              onClick={() =>
+                editedSettings &&
+                socket?.emit(
+                  "update-settings",
+                  editedSettings,
+                  roomActionCallback(() => setEditedSettings(null))
+                )
+              }
+            >
+              Save
+            </Button>
+          </DialogActions>
+        </Dialog>
       </ThemeProvider>
     );
   }
@@ -490,26 +756,46 @@ export const Lobby: React.FC = () => {
 
           {error && (
             <Alert severity="error" sx={{ width: "100%", mb: 2 }}>
-              {error}
+              {error.message}
+            </Alert>
+          )}
+
+          {invite && (
+            <Alert severity="info" sx={{ width: "100%", mb: 2 }}>
+              You've been invited to room {invite.roomId}. Join it below.
             </Alert>
           )}
 
           {/* === Join/Create Section === */}
           <Box sx={{ width: "100%", mb: 3 }}>
-            <TextField
-              id="username"
-              label="Username"
-              variant="outlined"
-              fullWidth
-              required
-              placeholder="Enter Username (min 3 chars)"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              disabled={isLoading}
-              error={Boolean(error && error.includes("Username"))}
-              InputLabelProps={{ shrink: true }} // Keep label floated when loaded from storage
-              sx={{ mb: 2 }} // Add margin below username
-            />
+            <Stack
+              direction="row"
+              spacing={1}
+              alignItems="center"
+              justifyContent="space-between"
+              sx={{ mb: 2 }}
+            >
+              <Typography variant="body1">
+                Signed in as <strong>{account?.username}</strong>
+              </Typography>
+              {account?.guest && (
+                <Chip label="Guest" size="small" variant="outlined" />
+              )}
+              {account && !account.guest && (
+                <Button
+                  size="small"
+                  onClick={() =>
+                    navigate(`/profile/${encodeURIComponent(account.username)}`)
+                  }
+                  disabled={isLoading}
+                >
+                  Profile
+                </Button>
+              )}
+              <Button size="small" onClick={signOut} disabled={isLoading}>
+                Sign Out
+              </Button>
+            </Stack>
 
             <Stack
               direction="row"
@@ -526,24 +812,14 @@ export const Lobby: React.FC = () => {
                 value={roomCode}
                 onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
                 disabled={isLoading}
-                error={Boolean(
-                  error &&
-                    (error.includes("Room code") ||
-                      error.includes("Room not found") ||
-                      error.includes("full"))
-                )}
+                error={hasCode(error, ROOM_CODE_ERRORS)}
                 sx={{ flexGrow: 1 }}
               />
               <Button
                 variant="contained"
                 color="primary"
                 onClick={() => handleAction("join")}
-                disabled={
-                  !isConnected ||
-                  roomCode.trim() === "" ||
-                  username.trim().length < 3 ||
-                  isLoading
-                }
+                disabled={!isConnected || roomCode.trim() === "" || isLoading}
                 sx={{
                   height: "56px",
                   whiteSpace: "nowrap",
@@ -558,13 +834,46 @@ export const Lobby: React.FC = () => {
                 )}
               </Button>
             </Stack>
+            {passwordRequired && invite?.roomId !== roomCode && (
+              <TextField
+                id="roomPassword"
+                label="Room Password"
+                type="password"
+                variant="outlined"
+                fullWidth
+                value={roomPassword}
+                onChange={(e) => setRoomPassword(e.target.value)}
+                disabled={isLoading}
+                error={hasCode(error, ROOM_PASSWORD_ERRORS)}
+                sx={{ mt: 1 }}
+              />
+            )}
 
+            <Divider sx={{ my: 2 }}>New Room</Divider>
+            <RoomSettingsForm
+              value={newRoomSettings}
+              onChange={setNewRoomSettings}
+              mapNames={mapNames}
+              disabled={isLoading}
+            />
+            <TextField
+              id="newRoomPassword"
+              label="Room Password (optional)"
+              type="password"
+              size="small"
+              fullWidth
+              value={newRoomPassword}
+              onChange={(e) => setNewRoomPassword(e.target.value)}
+              disabled={isLoading}
+              error={hasCode(error, ["invalid-password"])}
+              sx={{ mt: 2 }}
+            />
             <Button
               variant="contained"
               color="secondary"
               fullWidth
               onClick={() => handleAction("create")}
-              disabled={!isConnected || username.trim().length < 3 || isLoading}
+              disabled={!isConnected || isLoading}
               sx={{ mt: 1 }}
             >
               {isLoading ? (
@@ -573,63 +882,24 @@ export const Lobby: React.FC = () => {
                 "Create New Room"
               )}
             </Button>
+
+            <Divider sx={{ my: 2 }}>Ranked</Divider>
+            <MatchmakingPanel
+              username={account?.username ?? ""}
+              guest={account?.guest ?? true}
+              onMatchReady={handleMatchReady}
+              disabled={isLoading}
+            />
           </Box>
 
           <Divider sx={{ width: "100%", my: 3 }}>OR</Divider>
 
           {/* === Available Lobbies Section === */}
-          <Box sx={{ width: "100%" }}>
-            <Stack
-              direction="row"
-              justifyContent="space-between"
-              alignItems="center"
-              sx={{ mb: 1 }}
-            >
-              <Typography variant="h6">Available Lobbies</Typography>
-              <IconButton
-                onClick={fetchLobbies}
-                disabled={isLoadingLobbies || !isConnected}
-                size="small"
-              >
-                {isLoadingLobbies ? (
-                  <CircularProgress size={20} />
-                ) : (
-                  <RefreshIcon />
-                )}
-              </IconButton>
-            </Stack>
-            {isLoadingLobbies ? (
-              <Box sx={{ display: "flex", justifyContent: "center", my: 2 }}>
-                <CircularProgress />
-              </Box>
-            ) : availableLobbies.length > 0 ? (
-              <List dense>
-                {" "}
-                {/* dense makes list items smaller */}
-                {availableLobbies.map((lobby) => (
-                  <ListItem key={lobby.id} disablePadding>
-                    <ListItemButton
-                      onClick={() => handleLobbyClick(lobby.id)}
-                      disabled={isLoading}
-                    >
-                      <ListItemText
-                        primary={`Room ${lobby.id}`}
-                        secondary={`${lobby.playerCount}/2 Players`}
-                      />
-                    </ListItemButton>
-                  </ListItem>
-                ))}
-              </List>
-            ) : (
-              <Typography
-                variant="body2"
-                color="text.secondary"
-                textAlign="center"
-              >
-                No available lobbies found. Create one!
-              </Typography>
-            )}
-          </Box>
+          <LobbyBrowser
+            onSelect={handleLobbyClick}
+            mapNames={mapNames}
+            disabled={isLoading}
+          />
         </Paper>
       </Container>
     </ThemeProvider>
@@ -0,0 +1,359 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Box,
+  CircularProgress,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Pagination,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import RefreshIcon from "@mui/icons-material/Refresh";
+import LockIcon from "@mui/icons-material/Lock"; // Password-protected lobby
+import { useSocketContext } from "../context/SocketContext";
+import type { LobbyPageResponse } from "shared";
+import {
+  LOBBY_PAGE_SIZE,
+  LOBBY_SORT_NAMES,
+  LobbyQuery,
+  LobbySort,
+  LobbySummary,
+  compareLobbies,
+} from "../game/lobbyList";
+import {
+  REGION_NAMES,
+  Region,
+  SIDE_PICK_NAMES,
+  SidePick,
+  TEAM_SIZE_OPTIONS,
+  formatTeamSize,
+} from "../game/roomSettings";
+
+interface LobbyBrowserProps {
+  onSelect: (lobby: LobbySummary) => void;
+  mapNames: Record<string, string>; // Map ID -> display name
+  disabled?: boolean;
+}
+
+type LobbyFilters = Omit<LobbyQuery, "page" | "pageSize">;
+
+const ANY = ""; // Select value standing in for "no filter"
+const SEARCH_DELAY_MS = 300; // Wait for typing to pause before querying
+const REFETCH_DELAY_MS = 500; // Keeps refetches inside the get-lobbies rate limit
+
+// Select values for the password filter
+const PASSWORD_FILTERS: Record<string, boolean | undefined> = {
+  [ANY]: undefined,
+  open: false,
+  password: true,
+};
+
+// Filterable, paged list of public rooms. The server keeps it current with
+// lobby-added/updated/removed events for as long as it is shown.
+export const LobbyBrowser: React.FC<LobbyBrowserProps> = ({
+  onSelect,
+  mapNames,
+  disabled,
+}) => {
+  const { socket, isConnected } = useSocketContext();
+  const [filters, setFilters] = useState<LobbyFilters>({ sort: "newest" });
+  const [search, setSearch] = useState(""); // Applied after a pause
+  const [page, setPage] = useState(0);
+  const [lobbies, setLobbies] = useState<LobbySummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(() => {
+    if (!socket || !isConnected) return;
+    setIsLoading(true);
+    const query: LobbyQuery = { ...filters, page, pageSize: LOBBY_PAGE_SIZE };
+    socket.emit("get-lobbies", query, (response: LobbyPageResponse) => {
+      setIsLoading(false);
+      if (!response.success) {
+        console.error("Failed to fetch lobbies:", response.message);
+        setError(response.message);
+        return;
+      }
+      setError(null);
+      setLobbies(response.lobbies);
+      setTotal(response.total);
+      // Rooms closing can leave us past the last page
+      const lastPage = Math.max(
+        0,
+        Math.ceil(response.total / LOBBY_PAGE_SIZE) - 1
+      );
+      if (page > lastPage) setPage(lastPage);
+    });
+  }, [socket, isConnected, filters, page]);
+
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () =>
+        setFilters((current) =>
+          (current.search ?? "") === search.trim()
+            ? current
+            : { ...current, search: search.trim() || undefined }
+        ),
+      SEARCH_DELAY_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  // Apply updates in place. Rooms coming and going shift entries across page
+  // boundaries, so those refetch the page instead; a burst of them shares
+  // one request.
+  useEffect(() => {
+    if (!socket) return;
+    const sortLobbies = (list: LobbySummary[]) =>
+      list.sort(compareLobbies(filters.sort)).slice(0, LOBBY_PAGE_SIZE);
+    let refetch: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefetch = () => {
+      if (refetch) return;
+      refetch = setTimeout(() => {
+        refetch = null;
+        fetchPage();
+      }, REFETCH_DELAY_MS);
+    };
+
+    const handleUpdated = (lobby: LobbySummary) => {
+      setLobbies((list) =>
+        list.some((l) => l.id === lobby.id)
+          ? sortLobbies(list.map((l) => (l.id === lobby.id ? lobby : l)))
+          : list
+      );
+    };
+
+    socket.on("lobby-added", scheduleRefetch);
+    socket.on("lobby-updated", handleUpdated);
+    socket.on("lobby-removed", scheduleRefetch);
+    return () => {
+      socket.off("lobby-added", scheduleRefetch);
+      socket.off("lobby-updated", handleUpdated);
+      socket.off("lobby-removed", scheduleRefetch);
+      if (refetch) clearTimeout(refetch);
+    };
+  }, [socket, filters.sort, fetchPage]);
+
+  // Stop the updates once the browser is gone, e.g. after joining a room
+  useEffect(() => {
+    if (!socket) return;
+    return () => {
+      socket.emit("unsubscribe-lobbies");
+    };
+  }, [socket]);
+
+  const updateFilter = <K extends keyof LobbyFilters>(
+    key: K,
+    value: LobbyFilters[K]
+  ) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(0);
+  };
+
+  const pageCount = Math.ceil(total / LOBBY_PAGE_SIZE);
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Stack
+        direction="row"
+        justifyContent="space-between"
+        alignItems="center"
+        sx={{ mb: 1 }}
+      >
+        <Typography variant="h6">Available Lobbies ({total})</Typography>
+        <IconButton
+          onClick={fetchPage}
+          disabled={isLoading || !isConnected}
+          size="small"
+        >
+          {isLoading ? <CircularProgress size={20} /> : <RefreshIcon />}
+        </IconButton>
+      </Stack>
+
+      <Stack spacing={1} sx={{ mb: 1 }}>
+        <Stack direction="row" spacing={1}>
+          <TextField
+            label="Search"
+            size="small"
+            fullWidth
+            placeholder="Room code or host"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(0);
+            }}
+          />
+          <TextField
+            select
+            label="Sort"
+            size="small"
+            sx={{ minWidth: 150 }}
+            value={filters.sort}
+            onChange={(e) => updateFilter("sort", e.target.value as LobbySort)}
+          >
+            {(Object.keys(LOBBY_SORT_NAMES) as LobbySort[]).map((sort) => (
+              <MenuItem key={sort} value={sort}>
+                {LOBBY_SORT_NAMES[sort]}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+        <Stack direction="row" spacing={1}>
+          <TextField
+            select
+            label="Map"
+            size="small"
+            fullWidth
+            value={filters.mapId ?? ANY}
+            onChange={(e) => updateFilter("mapId", e.target.value || undefined)}
+          >
+            <MenuItem value={ANY}>Any</MenuItem>
+            {Object.entries(mapNames).map(([id, name]) => (
+              <MenuItem key={id} value={id}>
+                {name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Size"
+            size="small"
+            fullWidth
+            value={filters.teamSize ?? ANY}
+            onChange={(e) =>
+              updateFilter(
+                "teamSize",
+                e.target.value === ANY ? undefined : Number(e.target.value)
+              )
+            }
+          >
+            <MenuItem value={ANY}>Any</MenuItem>
+            {TEAM_SIZE_OPTIONS.map((size) => (
+              <MenuItem key={size} value={size}>
+                {formatTeamSize(size)}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Mode"
+            size="small"
+            fullWidth
+            value={filters.sidePick ?? ANY}
+            onChange={(e) =>
+              updateFilter(
+                "sidePick",
+                (e.target.value as SidePick) || undefined
+              )
+            }
+          >
+            <MenuItem value={ANY}>Any</MenuItem>
+            {(Object.keys(SIDE_PICK_NAMES) as SidePick[]).map((pick) => (
+              <MenuItem key={pick} value={pick}>
+                {SIDE_PICK_NAMES[pick]}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+        <Stack direction="row" spacing={1}>
+          <TextField
+            select
+            label="Region"
+            size="small"
+            fullWidth
+            value={filters.region ?? ANY}
+            onChange={(e) =>
+              updateFilter("region", (e.target.value as Region) || undefined)
+            }
+          >
+            <MenuItem value={ANY}>Any</MenuItem>
+            {(Object.keys(REGION_NAMES) as Region[]).map((region) => (
+              <MenuItem key={region} value={region}>
+                {REGION_NAMES[region]}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Password"
+            size="small"
+            fullWidth
+            value={
+              filters.hasPassword === undefined
+                ? ANY
+                : filters.hasPassword
+                ? "password"
+                : "open"
+            }
+            onChange={(e) =>
+              updateFilter("hasPassword", PASSWORD_FILTERS[e.target.value])
+            }
+          >
+            <MenuItem value={ANY}>Any</MenuItem>
+            <MenuItem value="open">No password</MenuItem>
+            <MenuItem value="password">Password</MenuItem>
+          </TextField>
+        </Stack>
+      </Stack>
+
+      {error ? (
+        <Typography variant="body2" color="error" textAlign="center">
+          {error}
+        </Typography>
+      ) : lobbies.length > 0 ? (
+        <List dense>
+          {lobbies.map((lobby) => (
+            <ListItem key={lobby.id} disablePadding>
+              <ListItemButton
+                onClick={() => onSelect(lobby)}
+                disabled={disabled}
+              >
+                {lobby.hasPassword && (
+                  <LockIcon
+                    fontSize="small"
+                    sx={{ mr: 1, color: "text.secondary" }}
+                  />
+                )}
+                <ListItemText
+                  primary={`Room ${lobby.id} · ${lobby.hostName}`}
+                  secondary={`${lobby.playerCount}/${
+                    lobby.maxPlayers
+                  } Players · ${
+                    mapNames[lobby.mapId] || lobby.mapId
+                  } · ${formatTeamSize(lobby.teamSize)} · ${
+                    SIDE_PICK_NAMES[lobby.sidePick]
+                  } · ${REGION_NAMES[lobby.region]}`}
+                />
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      ) : (
+        <Typography variant="body2" color="text.secondary" textAlign="center">
+          {isLoading ? "Loading..." : "No lobbies match. Create one!"}
+        </Typography>
+      )}
+
+      {pageCount > 1 && (
+        <Stack alignItems="center" sx={{ mt: 1 }}>
+          <Pagination
+            count={pageCount}
+            page={page + 1}
+            onChange={(_, value) => setPage(value - 1)}
+            size="small"
+          />
+        </Stack>
+      )}
+    </Box>
+  );
+};
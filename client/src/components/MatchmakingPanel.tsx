@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useSocketContext } from "../context/SocketContext";
+import type {
+  FindMatchResponse,
+  MatchCancelled,
+  MatchFound,
+  MatchReady,
+  RatingResponse,
+} from "shared";
+import { TEAM_SIZE_OPTIONS, formatTeamSize } from "../game/roomSettings";
+
+interface MatchmakingPanelProps {
+  username: string;
+  guest: boolean; // Guests can't play ranked
+  onMatchReady: (ready: MatchReady) => void;
+  disabled?: boolean;
+}
+
+// A match waiting for everyone to accept
+interface FoundMatch {
+  matchId: string;
+  players: number;
+  expiresAt: number; // Local clock
+  timeoutMs: number;
+  responded: boolean;
+}
+
+const formatElapsed = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+// "Find Match": queue for a ranked match and accept it when one is found
+export const MatchmakingPanel: React.FC<MatchmakingPanelProps> = ({
+  username,
+  guest,
+  onMatchReady,
+  disabled,
+}) => {
+  const { socket, isConnected } = useSocketContext();
+  const [teamSize, setTeamSize] = useState(1);
+  const [rating, setRating] = useState<number | null>(null);
+  const [searchingSince, setSearchingSince] = useState<number | null>(null);
+  const [found, setFound] = useState<FoundMatch | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [message, setMessage] = useState<string | null>(null);
+  const searchingRef = useRef(false); // For leaving the queue on unmount
+
+  useEffect(() => {
+    searchingRef.current = searchingSince !== null;
+  }, [searchingSince]);
+
+  // Show our rating before queueing
+  useEffect(() => {
+    if (!socket || !isConnected || guest) {
+      setRating(null);
+      return;
+    }
+    socket.emit("get-rating", username, (response: RatingResponse) => {
+      setRating(response.success ? response.rating.rating : null);
+    });
+  }, [socket, isConnected, username, guest]);
+
+  useEffect(() => {
+    if (!socket) return;
+    const handleFound = (event: MatchFound) => {
+      setFound({
+        matchId: event.matchId,
+        players: event.players,
+        expiresAt: Date.now() + event.acceptTimeoutMs,
+        timeoutMs: event.acceptTimeoutMs,
+        responded: false,
+      });
+    };
+    const handleCancelled = ({ requeued }: MatchCancelled) => {
+      setFound(null);
+      if (requeued) {
+        setMessage("Not everyone accepted. Back in the queue.");
+      } else {
+        setSearchingSince(null);
+        setMessage("The match was declined or not accepted in time.");
+      }
+    };
+    const handleReady = (ready: MatchReady) => {
+      searchingRef.current = false; // Out of the queue, not cancelled
+      setFound(null);
+      setSearchingSince(null);
+      setMessage(null);
+      onMatchReady(ready);
+    };
+    socket.on("match-found", handleFound);
+    socket.on("match-cancelled", handleCancelled);
+    socket.on("match-ready", handleReady);
+    return () => {
+      socket.off("match-found", handleFound);
+      socket.off("match-cancelled", handleCancelled);
+      socket.off("match-ready", handleReady);
+    };
+  }, [socket, onMatchReady]);
+
+  // Queue timer and accept countdown
+  useEffect(() => {
+    if (searchingSince === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [searchingSince]);
+
+  // Don't stay queued once the panel is gone
+  useEffect(() => {
+    if (!socket) return;
+    return () => {
+      if (searchingRef.current) {
+        socket.emit("cancel-matchmaking", () => {});
+      }
+    };
+  }, [socket]);
+
+  const handleFindMatch = () => {
+    if (!socket) return;
+    setMessage(null);
+    socket.emit("find-match", teamSize, (response: FindMatchResponse) => {
+      if (!response.success) {
+        setMessage(response.message);
+        return;
+      }
+      setRating(response.rating);
+      setSearchingSince(Date.now());
+      setNow(Date.now());
+    });
+  };
+
+  const handleCancel = () => {
+    if (!socket) return;
+    socket.emit("cancel-matchmaking", () => {
+      setSearchingSince(null);
+      setFound(null);
+    });
+  };
+
+  const handleRespond = (accept: boolean) => {
+    if (!socket || !found) return;
+    setFound({ ...found, responded: true });
+    socket.emit("respond-to-match", accept, () => {});
+  };
+
+  const secondsLeft = found
+    ? Math.max(0, Math.ceil((found.expiresAt - now) / 1000))
+    : 0;
+
+  return (
+    <Stack spacing={1} sx={{ width: "100%" }}>
+      {message && <Alert severity="info">{message}</Alert>}
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          select
+          label="Ranked"
+          size="small"
+          sx={{ minWidth: 110 }}
+          value={teamSize}
+          onChange={(e) => setTeamSize(Number(e.target.value))}
+          disabled={searchingSince !== null || disabled}
+        >
+          {TEAM_SIZE_OPTIONS.map((size) => (
+            <MenuItem key={size} value={size}>
+              {formatTeamSize(size)}
+            </MenuItem>
+          ))}
+        </TextField>
+        {searchingSince === null ? (
+          <Button
+            variant="contained"
+            color="primary"
+            fullWidth
+            onClick={handleFindMatch}
+            disabled={!isConnected || guest || disabled}
+          >
+            Find Match
+          </Button>
+        ) : (
+          <Button
+            variant="outlined"
+            color="error"
+            fullWidth
+            onClick={handleCancel}
+          >
+            Searching {formatElapsed(Math.floor((now - searchingSince) / 1000))}{" "}
+            · Cancel
+          </Button>
+        )}
+      </Stack>
+      {guest && (
+        <Typography variant="body2" color="text.secondary" textAlign="center">
+          Sign in to an account to play ranked.
+        </Typography>
+      )}
+      {rating !== null && (
+        <Typography variant="body2" textAlign="center">
+          Rating: {rating}
+        </Typography>
+      )}
+
+      <Dialog open={found !== null}>
+        <DialogTitle>Match Found</DialogTitle>
+        <DialogContent>
+          <Typography variant="body1" sx={{ mb: 2 }}>
+            {found?.players} players matched.{" "}
+            {found?.responded
+              ? "Waiting for the others..."
+              : `Accept within ${secondsLeft}s.`}
+          </Typography>
+          <LinearProgress
+            variant="determinate"
+            value={
+              found
+                ? Math.max(0, (100 * (found.expiresAt - now)) / found.timeoutMs)
+                : 0
+            }
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button
+            color="error"
+            onClick={() => handleRespond(false)}
+            disabled={found?.responded}
+          >
+            Decline
+          </Button>
+          <Button
+            variant="contained"
+            onClick={() => handleRespond(true)}
+            disabled={found?.responded}
+          >
+            Accept
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Stack>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  CircularProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import type { MatchRecord, ProfileResponse } from "shared";
+import { InfoPage } from "./InfoPage";
+import { useRouter } from "../context/RouterContext";
+import { useSocketContext } from "../context/SocketContext";
+
+type Profile = Extract<ProfileResponse, { success: true }>;
+
+interface ProfilePageProps {
+  username: string;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString();
+
+// "Won 7-3 on dust-lite" from the player's point of view
+const describeMatch = (match: MatchRecord, username: string) => {
+  const team = match.players.find(
+    (p) => p.username.toLowerCase() === username.toLowerCase()
+  )?.team;
+  const result =
+    match.winner === "draw" ? "Draw" : match.winner === team ? "Won" : "Lost";
+  return `${result} ${match.score.alpha}-${match.score.bravo} on ${match.mapId}`;
+};
+
+// /profile/:name: a player's rating and latest matches
+export const ProfilePage: React.FC<ProfilePageProps> = ({ username }) => {
+  const { socket, isConnected } = useSocketContext();
+  const { navigate } = useRouter();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    setProfile(null);
+    setError(null);
+    socket.emit("get-profile", username, (response: ProfileResponse) => {
+      if (response.success) {
+        setProfile(response);
+      } else {
+        setError(response.message);
+      }
+    });
+  }, [socket, isConnected, username]);
+
+  return (
+    <InfoPage title={profile?.profile.username ?? username}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+      {!profile && !error && <CircularProgress sx={{ mb: 3 }} />}
+      {profile && (
+        <>
+          <Typography variant="body1">
+            Rating {profile.rating.rating} · {profile.rating.wins}W{" "}
+            {profile.rating.losses}L {profile.rating.draws}D
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Playing since {formatDate(profile.profile.createdAt)}, last seen{" "}
+            {formatDate(profile.profile.lastSeenAt)}
+          </Typography>
+          {profile.matches.length === 0 ? (
+            <Typography variant="body2" sx={{ mb: 3 }}>
+              No matches played yet.
+            </Typography>
+          ) : (
+            <List dense sx={{ mb: 2 }}>
+              {profile.matches.map((match) => (
+                <ListItemButton
+                  key={match.id}
+                  onClick={() =>
+                    navigate(`/replay/${encodeURIComponent(match.id)}`)
+                  }
+                >
+                  <ListItemText
+                    primary={describeMatch(match, profile.profile.username)}
+                    secondary={`${
+                      match.ranked ? "Ranked" : "Casual"
+                    } · ${formatDate(match.endedAt)}`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+        </>
+      )}
+    </InfoPage>
+  );
+};
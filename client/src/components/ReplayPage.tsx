@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  CircularProgress,
+  Link,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import type { MatchDetailsResponse } from "shared";
+import { InfoPage } from "./InfoPage";
+import { REASON_TEXT, TEAM_NAMES } from "../game/constants";
+import { useRouter } from "../context/RouterContext";
+import { useSocketContext } from "../context/SocketContext";
+
+type MatchDetails = Extract<MatchDetailsResponse, { success: true }>;
+
+interface ReplayPageProps {
+  matchId: string;
+}
+
+// /replay/:id: how a finished match went, round by round
+export const ReplayPage: React.FC<ReplayPageProps> = ({ matchId }) => {
+  const { socket, isConnected } = useSocketContext();
+  const { navigate } = useRouter();
+  const [details, setDetails] = useState<MatchDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    setDetails(null);
+    setError(null);
+    socket.emit("get-match", matchId, (response: MatchDetailsResponse) => {
+      if (response.success) {
+        setDetails(response);
+      } else {
+        setError(response.message);
+      }
+    });
+  }, [socket, isConnected, matchId]);
+
+  const match = details?.match;
+  return (
+    <InfoPage title="Match">
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+      {!details && !error && <CircularProgress sx={{ mb: 3 }} />}
+      {match && details && (
+        <>
+          <Typography variant="body1">
+            {match.winner === "draw"
+              ? "Draw"
+              : `${TEAM_NAMES[match.winner]} won`}{" "}
+            {match.score.alpha}-{match.score.bravo} on {match.mapId}
+            {match.forfeitedBy &&
+              ` (${TEAM_NAMES[match.forfeitedBy]} forfeited)`}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {match.ranked ? "Ranked" : "Casual"} ·{" "}
+            {new Date(match.endedAt).toLocaleString()}
+          </Typography>
+          {(["alpha", "bravo"] as const).map((team) => (
+            <Typography key={team} variant="body2">
+              {TEAM_NAMES[team]}:{" "}
+              {match.players
+                .filter((p) => p.team === team)
+                .map((p, i) => (
+                  <React.Fragment key={p.username}>
+                    {i > 0 && ", "}
+                    <Link
+                      component="button"
+                      onClick={() =>
+                        navigate(`/profile/${encodeURIComponent(p.username)}`)
+                      }
+                    >
+                      {p.username}
+                    </Link>
+                  </React.Fragment>
+                ))}
+            </Typography>
+          ))}
+          <List dense sx={{ mb: 2 }}>
+            {details.rounds.map((round) => (
+              <ListItem key={round.round}>
+                <ListItemText
+                  primary={`Round ${round.round}: ${TEAM_NAMES[round.winner]}`}
+                  secondary={REASON_TEXT[round.reason]}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </>
+      )}
+    </InfoPage>
+  );
+};
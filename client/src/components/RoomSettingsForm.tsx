@@ -0,0 +1,181 @@
+import React from "react";
+import {
+  FormControlLabel,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+} from "@mui/material";
+import {
+  REGION_NAMES,
+  ROUND_OPTIONS,
+  ROUND_TIME_OPTIONS_MS,
+  Region,
+  RoomSettingsInput,
+  SIDE_PICK_NAMES,
+  SidePick,
+  TEAM_SIZE_OPTIONS,
+  formatRoundTime,
+  formatTeamSize,
+} from "../game/roomSettings";
+
+interface RoomSettingsFormProps {
+  value: RoomSettingsInput;
+  onChange: (settings: RoomSettingsInput) => void;
+  mapNames: Record<string, string>; // Map ID -> display name
+  disabled?: boolean;
+}
+
+const RANDOM_MAP = "random"; // Select value standing in for mapId null
+
+// Settings picked when creating a room
+export const RoomSettingsForm: React.FC<RoomSettingsFormProps> = ({
+  value,
+  onChange,
+  mapNames,
+  disabled,
+}) => {
+  const update = <K extends keyof RoomSettingsInput>(
+    key: K,
+    fieldValue: RoomSettingsInput[K]
+  ) => onChange({ ...value, [key]: fieldValue });
+
+  return (
+    <Stack spacing={2} sx={{ width: "100%", textAlign: "left" }}>
+      <Stack direction="row" spacing={2}>
+        <TextField
+          select
+          label="Team Size"
+          size="small"
+          fullWidth
+          value={value.teamSize}
+          onChange={(e) => update("teamSize", Number(e.target.value))}
+          disabled={disabled}
+        >
+          {TEAM_SIZE_OPTIONS.map((size) => (
+            <MenuItem key={size} value={size}>
+              {formatTeamSize(size)}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          label="Map"
+          size="small"
+          fullWidth
+          value={value.mapId ?? RANDOM_MAP}
+          onChange={(e) =>
+            update(
+              "mapId",
+              e.target.value === RANDOM_MAP ? null : e.target.value
+            )
+          }
+          disabled={disabled}
+        >
+          <MenuItem value={RANDOM_MAP}>Random</MenuItem>
+          {Object.entries(mapNames).map(([id, name]) => (
+            <MenuItem key={id} value={id}>
+              {name}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Stack>
+      <Stack direction="row" spacing={2}>
+        <TextField
+          select
+          label="Rounds"
+          size="small"
+          fullWidth
+          value={value.maxRounds}
+          onChange={(e) => update("maxRounds", Number(e.target.value))}
+          disabled={disabled}
+        >
+          {ROUND_OPTIONS.map((rounds) => (
+            <MenuItem key={rounds} value={rounds}>
+              {rounds} (first to {rounds / 2 + 1})
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          label="Round Time"
+          size="small"
+          fullWidth
+          value={value.roundTimeMs}
+          onChange={(e) => update("roundTimeMs", Number(e.target.value))}
+          disabled={disabled}
+        >
+          {ROUND_TIME_OPTIONS_MS.map((ms) => (
+            <MenuItem key={ms} value={ms}>
+              {formatRoundTime(ms)}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Stack>
+      <Stack direction="row" spacing={2}>
+        <TextField
+          select
+          label="Starting Sides"
+          size="small"
+          fullWidth
+          value={value.sidePick}
+          onChange={(e) => update("sidePick", e.target.value as SidePick)}
+          disabled={disabled}
+        >
+          {(Object.keys(SIDE_PICK_NAMES) as SidePick[]).map((pick) => (
+            <MenuItem key={pick} value={pick}>
+              {SIDE_PICK_NAMES[pick]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          label="Region"
+          size="small"
+          fullWidth
+          value={value.region}
+          onChange={(e) => update("region", e.target.value as Region)}
+          disabled={disabled}
+        >
+          {(Object.keys(REGION_NAMES) as Region[]).map((region) => (
+            <MenuItem key={region} value={region}>
+              {REGION_NAMES[region]}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Stack>
+      <Stack direction="row" spacing={2}>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={value.friendlyFire}
+              onChange={(e) => update("friendlyFire", e.target.checked)}
+              disabled={disabled}
+            />
+          }
+          label="Friendly Fire"
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={value.private}
+              onChange={(e) => update("private", e.target.checked)}
+              disabled={disabled}
+            />
+          }
+          label="Private"
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={value.restrictDeadChat}
+              onChange={(e) => update("restrictDeadChat", e.target.checked)}
+              disabled={disabled}
+            />
+          }
+          label="Restrict Dead Chat"
+        />
+      </Stack>
+    </Stack>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Container,
+  CssBaseline,
+  Divider,
+  Paper,
+  Stack,
+  TextField,
+  ThemeProvider,
+  Typography,
+} from "@mui/material";
+import { darkTheme } from "../theme";
+import { useAuth } from "../context/AuthContext";
+import { useRouter } from "../context/RouterContext";
+
+// Shown instead of the lobby until the player has an account or a guest
+// name. The URL is left alone, so invite and room links still work after.
+export const SignInPage: React.FC = () => {
+  const { register, login, playAsGuest } = useAuth();
+  const { route } = useRouter();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const submit = async (action: "login" | "register" | "guest") => {
+    setIsLoading(true);
+    setError(null);
+    const result =
+      action === "guest"
+        ? await playAsGuest()
+        : await (action === "login" ? login : register)(
+            username.trim(),
+            password
+          );
+    setIsLoading(false);
+    if (!result.success) {
+      setError(result.message);
+    }
+  };
+
+  const canSubmit = username.trim().length >= 3 && password !== "";
+
+  return (
+    <ThemeProvider theme={darkTheme}>
+      <CssBaseline />
+      <Container
+        maxWidth="xs"
+        sx={{
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          minHeight: "100vh",
+        }}
+      >
+        <Paper elevation={3} sx={{ p: 3, width: "100%" }}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Combat Strategy
+          </Typography>
+          {route.name === "join" && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              You've been invited to room {route.roomId}. Sign in or play as a
+              guest to join.
+            </Alert>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mb: 2, textAlign: "left" }}>
+              {error}
+            </Alert>
+          )}
+          <Stack
+            component="form"
+            spacing={2}
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (canSubmit) submit("login");
+            }}
+          >
+            <TextField
+              label="Username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              disabled={isLoading}
+            />
+            <TextField
+              label="Password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isLoading}
+            />
+            <Stack direction="row" spacing={1}>
+              <Button
+                type="submit"
+                variant="contained"
+                fullWidth
+                disabled={!canSubmit || isLoading}
+              >
+                {isLoading ? (
+                  <CircularProgress size={24} color="inherit" />
+                ) : (
+                  "Sign In"
+                )}
+              </Button>
+              <Button
+                variant="outlined"
+                fullWidth
+                onClick={() => submit("register")}
+                disabled={!canSubmit || isLoading}
+              >
+                Register
+              </Button>
+            </Stack>
+          </Stack>
+          <Divider sx={{ my: 2 }}>OR</Divider>
+          <Button
+            variant="text"
+            fullWidth
+            onClick={() => submit("guest")}
+            disabled={isLoading}
+          >
+            Play as Guest
+          </Button>
+          <Typography variant="caption" color="text.secondary">
+            Guests get a random name and can't play ranked.
+          </Typography>
+        </Paper>
+      </Container>
+    </ThemeProvider>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Stack,
+  Typography,
+} from "@mui/material";
+import CheckCircleIcon from "@mui/icons-material/CheckCircle";
+import RadioButtonUncheckedIcon from "@mui/icons-material/RadioButtonUnchecked";
+import MoreVertIcon from "@mui/icons-material/MoreVert";
+import StarIcon from "@mui/icons-material/Star";
+import type { Room, User } from "shared";
+import { TEAM_NAMES } from "../game/constants";
+import { TeamId } from "../game/types";
+
+interface TeamColumnsProps {
+  room: Room;
+  currentUserId: string | undefined;
+  locked: boolean; // Teams can't change once the match is starting
+  onSwitchTeam: () => void;
+  onRequestSwap: (userId: string) => void;
+  onAcceptSwap: (fromId: string) => void;
+  onKick: (userId: string) => void;
+  onBan: (userId: string) => void;
+  onTransferHost: (userId: string) => void;
+}
+
+const TEAMS: TeamId[] = ["alpha", "bravo"];
+
+const StatusChip: React.FC<{ user: User }> = ({ user }) =>
+  user.connected ? (
+    <Chip
+      icon={user.ready ? <CheckCircleIcon /> : <RadioButtonUncheckedIcon />}
+      label={user.ready ? "Ready" : "Not Ready"}
+      color={user.ready ? "success" : "default"}
+      size="small"
+    />
+  ) : (
+    <Chip label="Reconnecting..." color="warning" size="small" />
+  );
+
+// The pre-game lineup: one column per team with a row per slot
+export const TeamColumns: React.FC<TeamColumnsProps> = ({
+  room,
+  currentUserId,
+  locked,
+  onSwitchTeam,
+  onRequestSwap,
+  onAcceptSwap,
+  onKick,
+  onBan,
+  onTransferHost,
+}) => {
+  const me = room.users.find((u) => u.id === currentUserId);
+  const isHost = me !== undefined && room.hostId === me.id;
+  // Host menu for one player at a time
+  const [menu, setMenu] = useState<{ anchor: HTMLElement; user: User } | null>(
+    null
+  );
+
+  const runHostAction = (action: (userId: string) => void) => {
+    if (menu) action(menu.user.id);
+    setMenu(null);
+  };
+
+  // What I can do with a player on the other team
+  const swapAction = (user: User) => {
+    if (locked || !me || user.team === me.team) return null;
+    const incoming = room.swapRequests.some(
+      (r) => r.fromId === user.id && r.toId === me.id
+    );
+    if (incoming) {
+      return (
+        <Button
+          size="small"
+          variant="contained"
+          onClick={() => onAcceptSwap(user.id)}
+        >
+          Accept Swap
+        </Button>
+      );
+    }
+    const outgoing = room.swapRequests.some(
+      (r) => r.fromId === me.id && r.toId === user.id
+    );
+    return outgoing ? (
+      <Chip label="Swap requested" size="small" variant="outlined" />
+    ) : (
+      <Button size="small" onClick={() => onRequestSwap(user.id)}>
+        Swap
+      </Button>
+    );
+  };
+
+  return (
+    <Stack direction="row" spacing={2} sx={{ width: "100%", mb: 3 }}>
+      {TEAMS.map((team) => {
+        const members = room.users.filter((u) => u.team === team);
+        const slots = [...Array(room.settings.teamSize)].map((_, slot) =>
+          members.find((u) => u.slot === slot)
+        );
+        return (
+          <Box key={team} sx={{ flex: 1, minWidth: 0 }}>
+            <Typography variant="h6" sx={{ mb: 1 }}>
+              {TEAM_NAMES[team]} ({members.length}/{room.settings.teamSize})
+            </Typography>
+            <List dense disablePadding>
+              {slots.map((user, slot) =>
+                user ? (
+                  <ListItem
+                    key={user.id}
+                    disablePadding
+                    sx={{ gap: 1, minHeight: 40 }}
+                  >
+                    <ListItemText
+                      primary={user.username}
+                      sx={{
+                        color:
+                          user.id === currentUserId
+                            ? "primary.main"
+                            : "text.primary",
+                      }}
+                    />
+                    {user.id === room.hostId && (
+                      <Chip
+                        icon={<StarIcon />}
+                        label="Host"
+                        size="small"
+                        color="secondary"
+                      />
+                    )}
+                    {swapAction(user)}
+                    <StatusChip user={user} />
+                    {isHost && user.id !== currentUserId && (
+                      <IconButton
+                        size="small"
+                        onClick={(e) =>
+                          setMenu({ anchor: e.currentTarget, user })
+                        }
+                      >
+                        <MoreVertIcon fontSize="small" />
+                      </IconButton>
+                    )}
+                  </ListItem>
+                ) : (
+                  <ListItem
+                    key={`empty-${slot}`}
+                    disablePadding
+                    sx={{ gap: 1, minHeight: 40 }}
+                  >
+                    <ListItemText
+                      primary="Open slot"
+                      sx={{ fontStyle: "italic", color: "text.secondary" }}
+                    />
+                    {!locked && me && me.team !== team && (
+                      <Button size="small" onClick={onSwitchTeam}>
+                        Join
+                      </Button>
+                    )}
+                  </ListItem>
+                )
+              )}
+            </List>
+          </Box>
+        );
+      })}
+      <Menu
+        anchorEl={menu?.anchor}
+        open={menu !== null}
+        onClose={() => setMenu(null)}
+      >
+        <MenuItem
+          onClick={() => runHostAction(onTransferHost)}
+          disabled={!menu?.user.connected}
+        >
+          Make Host
+        </MenuItem>
+        <MenuItem onClick={() => runHostAction(onKick)}>Kick</MenuItem>
+        <MenuItem onClick={() => runHostAction(onBan)}>Ban</MenuItem>
+      </Menu>
+    </Stack>
+  );
+};
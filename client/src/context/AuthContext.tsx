@@ -0,0 +1,114 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useState,
+  ReactNode,
+} from "react";
+import type { Result } from "shared";
+
+const AUTH_SERVER_URL = "http://localhost:3001/auth";
+// Shared by every tab, so signing in once is enough
+const AUTH_STORAGE_KEY = "combatStrategyAuth";
+
+// Who we are signed in as. The token goes in the socket handshake.
+export interface Account {
+  token: string;
+  username: string;
+  guest: boolean; // Made-up "Guest-..." name; no ranked play
+}
+
+type AuthResponse = Result<{ token: string; username: string; guest: boolean }>;
+
+// The server's refusal, or ours when it can't be reached
+type AuthResult = { success: true } | { success: false; message: string };
+
+interface AuthContextProps {
+  account: Account | null;
+  register: (username: string, password: string) => Promise<AuthResult>;
+  login: (username: string, password: string) => Promise<AuthResult>;
+  playAsGuest: () => Promise<AuthResult>;
+  signOut: () => void;
+}
+
+const loadAccount = (): Account | null => {
+  try {
+    const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Account) : null;
+  } catch {
+    return null;
+  }
+};
+
+const AuthContext = createContext<AuthContextProps | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const [account, setAccount] = useState<Account | null>(loadAccount);
+
+  // All three endpoints answer with a token on success
+  const request = useCallback(
+    async (path: string, body: object = {}): Promise<AuthResult> => {
+      try {
+        const response = await fetch(`${AUTH_SERVER_URL}/${path}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        const data = (await response.json()) as AuthResponse;
+        if (!data.success) {
+          return { success: false, message: data.message };
+        }
+        const next: Account = {
+          token: data.token,
+          username: data.username,
+          guest: data.guest,
+        };
+        localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(next));
+        setAccount(next);
+        return { success: true };
+      } catch (error) {
+        console.error("[AuthProvider] Request failed:", error);
+        return { success: false, message: "Could not reach the server." };
+      }
+    },
+    []
+  );
+
+  const register = useCallback(
+    (username: string, password: string) =>
+      request("register", { username, password }),
+    [request]
+  );
+
+  const login = useCallback(
+    (username: string, password: string) =>
+      request("login", { username, password }),
+    [request]
+  );
+
+  const playAsGuest = useCallback(() => request("guest"), [request]);
+
+  const signOut = useCallback(() => {
+    localStorage.removeItem(AUTH_STORAGE_KEY);
+    setAccount(null);
+  }, []);
+
+  return (
+    <AuthContext.Provider
+      value={{ account, register, login, playAsGuest, signOut }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+// Custom hook to consume the context
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
@@ -0,0 +1,112 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from "react";
+
+// Every page the client can show, as parsed from the URL
+export type Route =
+  | { name: "home" }
+  | { name: "join"; roomId: string; token: string } // Invite link
+  | { name: "room"; roomId: string }
+  | { name: "match"; roomId: string }
+  | { name: "replay"; replayId: string }
+  | { name: "profile"; username: string }
+  | { name: "not-found" };
+
+interface NavigateOptions {
+  replace?: boolean; // Rewrite the current history entry instead of adding one
+}
+
+interface RouterContextProps {
+  route: Route;
+  navigate: (path: string, options?: NavigateOptions) => void;
+}
+
+const ROOM_ID = "([A-Za-z0-9]{6})";
+
+const parseRoute = (pathname: string, search: string): Route => {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  let match: RegExpMatchArray | null;
+  if (path === "/") {
+    return { name: "home" };
+  }
+  if ((match = path.match(new RegExp(`^/join/${ROOM_ID}$`)))) {
+    const token = new URLSearchParams(search).get("token");
+    return token
+      ? { name: "join", roomId: match[1].toUpperCase(), token }
+      : { name: "room", roomId: match[1].toUpperCase() };
+  }
+  if ((match = path.match(new RegExp(`^/room/${ROOM_ID}$`)))) {
+    return { name: "room", roomId: match[1].toUpperCase() };
+  }
+  if ((match = path.match(new RegExp(`^/match/${ROOM_ID}$`)))) {
+    return { name: "match", roomId: match[1].toUpperCase() };
+  }
+  if ((match = path.match(/^\/replay\/([^/]+)$/))) {
+    return { name: "replay", replayId: decodeURIComponent(match[1]) };
+  }
+  if ((match = path.match(/^\/profile\/([^/]+)$/))) {
+    return { name: "profile", username: decodeURIComponent(match[1]) };
+  }
+  return { name: "not-found" };
+};
+
+const RouterContext = createContext<RouterContextProps | undefined>(undefined);
+
+export const RouterProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const [location, setLocation] = useState(() => ({
+    pathname: window.location.pathname,
+    search: window.location.search,
+  }));
+
+  const navigate = useCallback((path: string, options?: NavigateOptions) => {
+    if (path === window.location.pathname + window.location.search) return;
+    if (options?.replace) {
+      window.history.replaceState(null, "", path);
+    } else {
+      window.history.pushState(null, "", path);
+    }
+    setLocation({
+      pathname: window.location.pathname,
+      search: window.location.search,
+    });
+  }, []);
+
+  // Back and forward buttons
+  useEffect(() => {
+    const handlePopState = () =>
+      setLocation({
+        pathname: window.location.pathname,
+        search: window.location.search,
+      });
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const route = useMemo(
+    () => parseRoute(location.pathname, location.search),
+    [location]
+  );
+
+  return (
+    <RouterContext.Provider value={{ route, navigate }}>
+      {children}
+    </RouterContext.Provider>
+  );
+};
+
+// Custom hook to consume the context
+export const useRouter = () => {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error("useRouter must be used within a RouterProvider");
+  }
+  return context;
+};
@@ -1,32 +1,87 @@
 import React, {
   createContext,
+  useCallback,
   useContext,
   useEffect,
   useState,
   ReactNode,
 } from "react";
 import io, { Socket } from "socket.io-client";
+import type {
+  ClientToServerEvents,
+  RequestRejected,
+  ResumeResponse,
+  ServerToClientEvents,
+} from "shared";
+import { useAuth } from "./AuthContext";
 
 const SOCKET_SERVER_URL = "http://localhost:3001";
+const LATENCY_PING_INTERVAL_MS = 2000;
+const LATENCY_SMOOTHING = 0.3; // Weight of the newest sample
+// Per tab, so a second tab doesn't take over this tab's seat
+const SESSION_STORAGE_KEY = "combatStrategySession";
+
+// The seat we hold in a room, as issued by create-room/join-room
+export interface SessionInfo {
+  token: string;
+  userId: string;
+  roomId: string;
+  inMatch: boolean; // Set when a resumed session lands back in a match
+}
+
+// Typed by the shared event contract
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 interface SocketContextProps {
-  socket: Socket | null;
+  socket: GameSocket | null;
   isConnected: boolean;
+  latency: number | null; // Smoothed round-trip time in ms
+  session: SessionInfo | null;
+  isRestoring: boolean; // A stored session is still being resumed
+  startSession: (session: SessionInfo) => void;
+  endSession: () => void;
 }
 
+const loadSessionToken = (): string | null => {
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SessionInfo).token : null;
+  } catch {
+    return null;
+  }
+};
+
 const SocketContext = createContext<SocketContextProps | undefined>(undefined);
 
 export const SocketProvider: React.FC<{ children: ReactNode }> = ({
   children,
 }) => {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const { account, signOut } = useAuth();
+  const token = account?.token ?? null;
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [latency, setLatency] = useState<number | null>(null);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [isRestoring, setIsRestoring] = useState(
+    () => loadSessionToken() !== null
+  );
+
+  const startSession = useCallback((next: SessionInfo) => {
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(next));
+    setSession(next);
+  }, []);
+
+  const endSession = useCallback(() => {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    setSession(null);
+  }, []);
 
+  // Connect once signed in, and again whenever the account changes
   useEffect(() => {
+    if (!token) return;
     console.log("[SocketProvider] Initializing socket connection...");
-    const newSocket = io(SOCKET_SERVER_URL, {
-      // Optional: Add connection options if needed
-      // transports: ['websocket'],
+    const newSocket: GameSocket = io(SOCKET_SERVER_URL, {
+      auth: { token }, // Checked by the server before it accepts us
     });
 
     setSocket(newSocket);
@@ -45,12 +100,24 @@ export const SocketProvider: React.FC<{ children: ReactNode }> = ({
     const handleConnectError = (error: Error) => {
       console.error("[SocketProvider] Connection Error:", error);
       setIsConnected(false);
-      // Optional: Handle connection errors
+      // The token expired or the server's secret changed
+      if (error.message === "Unauthorized") {
+        signOut();
+      }
+    };
+
+    // A request without a reply callback was turned down
+    const handleRequestRejected = (rejection: RequestRejected) => {
+      console.warn(
+        `[SocketProvider] Server rejected ${rejection.event} (${rejection.code}):`,
+        rejection.message
+      );
     };
 
     newSocket.on("connect", handleConnect);
     newSocket.on("disconnect", handleDisconnect);
     newSocket.on("connect_error", handleConnectError);
+    newSocket.on("request-rejected", handleRequestRejected);
 
     // Cleanup on component unmount
     return () => {
@@ -58,14 +125,70 @@ export const SocketProvider: React.FC<{ children: ReactNode }> = ({
       newSocket.off("connect", handleConnect);
       newSocket.off("disconnect", handleDisconnect);
       newSocket.off("connect_error", handleConnectError);
+      newSocket.off("request-rejected", handleRequestRejected);
       newSocket.disconnect();
       setSocket(null);
       setIsConnected(false);
     };
-  }, []); // Empty dependency array ensures this runs only once
+  }, [token, signOut]);
+
+  // On every (re)connect, try to get our seat back
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    const token = loadSessionToken();
+    if (!token) return;
+    console.log("[SocketProvider] Resuming session...");
+    socket.emit("resume-session", token, (response: ResumeResponse) => {
+      setIsRestoring(false);
+      if (response.success) {
+        console.log("[SocketProvider] Session resumed in", response.roomId);
+        startSession({
+          token,
+          userId: response.userId,
+          roomId: response.roomId,
+          inMatch: response.inMatch,
+        });
+      } else {
+        console.log("[SocketProvider] Could not resume:", response.message);
+        endSession();
+      }
+    });
+  }, [socket, isConnected, startSession, endSession]);
+
+  // Measure round-trip time while connected
+  useEffect(() => {
+    if (!socket || !isConnected) {
+      setLatency(null);
+      return;
+    }
+    const ping = () => {
+      const sentAt = performance.now();
+      socket.emit("latency-ping", () => {
+        const sample = performance.now() - sentAt;
+        setLatency((current) =>
+          current === null
+            ? sample
+            : current + (sample - current) * LATENCY_SMOOTHING
+        );
+      });
+    };
+    ping();
+    const interval = setInterval(ping, LATENCY_PING_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [socket, isConnected]);
 
   return (
-    <SocketContext.Provider value={{ socket, isConnected }}>
+    <SocketContext.Provider
+      value={{
+        socket,
+        isConnected,
+        latency,
+        session,
+        isRestoring,
+        startSession,
+        endSession,
+      }}
+    >
       {children}
     </SocketContext.Provider>
   );
@@ -0,0 +1,31 @@
+import { RoundEndReason, TeamId } from "./types";
+
+import { TICK_MS } from "shared";
+
+export {
+  MAX_HEALTH,
+  PLAYER_RADIUS,
+  PLAYER_SPEED,
+  TICK_MS,
+  TICK_RATE,
+  VISION_FOV,
+  VISION_NEAR_RADIUS,
+  VISION_RANGE,
+} from "shared";
+
+// Client-only rendering and prediction settings
+export const INTERPOLATION_DELAY_MS = TICK_MS * 2; // Render this far in the past
+export const SNAPSHOT_BUFFER_SIZE = 30;
+export const PREDICTION_SLACK_INPUTS = 5; // Unacknowledged inputs beyond ping
+
+export const TEAM_NAMES: Record<TeamId, string> = {
+  alpha: "Alpha",
+  bravo: "Bravo",
+};
+
+export const REASON_TEXT: Record<RoundEndReason, string> = {
+  elimination: "Enemy team eliminated",
+  time: "Time ran out",
+  detonated: "The bomb detonated",
+  defused: "The bomb was defused",
+};
@@ -0,0 +1,6 @@
+// Don't treat keys typed into chat or other fields as game controls
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.isContentEditable);
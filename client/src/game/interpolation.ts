@@ -0,0 +1,92 @@
+import { INTERPOLATION_DELAY_MS, SNAPSHOT_BUFFER_SIZE } from "./constants";
+import { GameSnapshot, PlayerState } from "./types";
+
+interface BufferedSnapshot {
+  snapshot: GameSnapshot;
+  receivedAt: number; // performance.now() when the snapshot arrived
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Interpolate angles along the shortest arc
+const lerpAngle = (a: number, b: number, t: number) => {
+  let delta = (b - a) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return a + delta * t;
+};
+
+const interpolatePlayer = (
+  from: PlayerState,
+  to: PlayerState,
+  t: number
+): PlayerState => ({
+  ...to,
+  position: {
+    x: lerp(from.position.x, to.position.x, t),
+    y: lerp(from.position.y, to.position.y, t),
+  },
+  aim: lerpAngle(from.aim, to.aim, t),
+});
+
+// Keeps recent server snapshots and produces a smoothed view of the match
+// slightly in the past, so motion stays fluid between low-rate server ticks.
+export class SnapshotBuffer {
+  private buffer: BufferedSnapshot[] = [];
+
+  push(snapshot: GameSnapshot, receivedAt: number) {
+    const latest = this.latest();
+    if (latest && snapshot.tick <= latest.tick) return; // Out of order
+    this.buffer.push({ snapshot, receivedAt });
+    if (this.buffer.length > SNAPSHOT_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+  }
+
+  latest(): GameSnapshot | null {
+    return this.buffer.length > 0
+      ? this.buffer[this.buffer.length - 1].snapshot
+      : null;
+  }
+
+  clear() {
+    this.buffer = [];
+  }
+
+  // Build the state to draw at local time `now`
+  sample(now: number): GameSnapshot | null {
+    if (this.buffer.length === 0) return null;
+    const newest = this.buffer[this.buffer.length - 1];
+    // Estimate the server time we should be showing
+    const renderTime =
+      newest.snapshot.time + (now - newest.receivedAt) - INTERPOLATION_DELAY_MS;
+
+    // Find the pair of snapshots surrounding renderTime
+    for (let i = this.buffer.length - 1; i > 0; i--) {
+      const from = this.buffer[i - 1].snapshot;
+      const to = this.buffer[i].snapshot;
+      if (from.time <= renderTime && renderTime <= to.time) {
+        // Players are teleported to spawns between rounds
+        if (from.match.round !== to.match.round) return to;
+        const t = (renderTime - from.time) / (to.time - from.time || 1);
+        const previous = new Map(from.players.map((p) => [p.id, p]));
+        return {
+          ...to,
+          time: renderTime, // What the server rewinds to when we shoot
+          players: to.players.map((player) => {
+            const before = previous.get(player.id);
+            // Don't smear players across a respawn
+            return before && before.alive === player.alive
+              ? interpolatePlayer(before, player, t)
+              : player;
+          }),
+        };
+      }
+    }
+
+    // Render time is outside the buffer: show the closest snapshot we have
+    return renderTime < this.buffer[0].snapshot.time
+      ? this.buffer[0].snapshot
+      : newest.snapshot;
+  }
+}
@@ -0,0 +1,22 @@
+// Buy menu constants. The catalog itself is fetched from the server with
+// "get-items"; its types are in the shared package.
+import type { WeaponId } from "shared";
+
+export type {
+  ItemCategory,
+  ItemDefinition,
+  ItemId,
+  WeaponId,
+  WeaponStats,
+} from "shared";
+
+export { MAX_ARMOR } from "shared";
+
+export const WEAPON_NAMES: Record<WeaponId, string> = {
+  knife: "Knife",
+  pistol: "Pistol",
+  smg: "SMG",
+  shotgun: "Shotgun",
+  rifle: "Rifle",
+  sniper: "Sniper Rifle",
+};
@@ -0,0 +1,15 @@
+// Lobby browser helpers; the types and sort order are in the shared package
+import type { LobbySort } from "shared";
+
+// Same order as the server, so live updates land where a refetch would put them
+export { compareLobbies } from "shared";
+export type { LobbyPage, LobbyQuery, LobbySort, LobbySummary } from "shared";
+
+export const LOBBY_PAGE_SIZE = 8;
+
+export const LOBBY_SORT_NAMES: Record<LobbySort, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  "most-players": "Most players",
+  "fewest-players": "Fewest players",
+};
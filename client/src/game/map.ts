@@ -0,0 +1,10 @@
+// The map format and its helpers live in the shared package
+export { TILE, mapWorldSize } from "shared";
+export type {
+  MapChokepoint,
+  MapDefinition,
+  MapSite,
+  MapSummary,
+  Side,
+  TileRect,
+} from "shared";
@@ -0,0 +1,59 @@
+import { PREDICTION_SLACK_INPUTS, TICK_MS } from "./constants";
+import { MapDefinition } from "./map";
+import { MOVEMENT_PHASES, moveStep } from "shared";
+import { MatchPhase, PlayerInput, PlayerState, Vector2 } from "./types";
+
+interface PendingInput {
+  input: PlayerInput;
+  canMove: boolean; // Whether movement was allowed when it was sent
+}
+
+// Phases in which the server lets players move
+export const canMoveIn = (phase: MatchPhase) => MOVEMENT_PHASES.includes(phase);
+
+// Client-side prediction for the local player. Inputs are applied the
+// moment they are sent; when a snapshot arrives we rewind to the server's
+// position for the last input it processed and replay everything newer.
+export class Predictor {
+  private pending: PendingInput[] = [];
+  private position: Vector2 | null = null;
+
+  get predictedPosition(): Vector2 | null {
+    return this.position;
+  }
+
+  applyInput(map: MapDefinition, input: PlayerInput, canMove: boolean) {
+    this.pending.push({ input, canMove });
+    if (this.position && canMove) {
+      this.position = moveStep(map, this.position, input);
+    }
+  }
+
+  reconcile(map: MapDefinition, server: PlayerState, latency: number | null) {
+    this.pending = this.pending.filter(
+      ({ input }) => input.seq > server.lastProcessedInput
+    );
+    // Never run further ahead than the round trip explains; anything older
+    // was dropped by the server's input queue
+    const maxPending =
+      Math.ceil((latency ?? 0) / TICK_MS) + PREDICTION_SLACK_INPUTS;
+    if (this.pending.length > maxPending) {
+      this.pending = this.pending.slice(-maxPending);
+    }
+
+    if (!server.alive) {
+      this.position = { ...server.position };
+      return;
+    }
+    let position = { ...server.position };
+    this.pending.forEach(({ input, canMove }) => {
+      if (canMove) position = moveStep(map, position, input);
+    });
+    this.position = position;
+  }
+
+  reset() {
+    this.pending = [];
+    this.position = null;
+  }
+}
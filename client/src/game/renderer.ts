@@ -0,0 +1,550 @@
+import {
+  MAX_HEALTH,
+  PLAYER_RADIUS,
+  REASON_TEXT,
+  TEAM_NAMES,
+} from "./constants";
+import { MapDefinition, TILE, TileRect, mapWorldSize } from "./map";
+import { WEAPON_NAMES } from "./items";
+import { visibilityPolygon } from "./vision";
+import {
+  BombState,
+  GameSnapshot,
+  MatchState,
+  PlayerState,
+  TeamId,
+  Vector2,
+} from "./types";
+
+// Palette matches the MUI dark theme used by the lobby
+const COLORS = {
+  background: "#0b0b0b",
+  floor: "#1e1e1e",
+  grid: "rgba(255, 255, 255, 0.04)",
+  wall: "#3a3a3a",
+  wallEdge: "#4a4a4a",
+  cover: "#5a4a32",
+  attackSpawn: "rgba(240, 173, 78, 0.08)",
+  defendSpawn: "rgba(91, 192, 222, 0.08)",
+  site: "rgba(217, 83, 79, 0.12)",
+  siteLabel: "rgba(217, 83, 79, 0.6)",
+  chokepointLabel: "rgba(255, 255, 255, 0.18)",
+  self: "#f0ad4e",
+  ally: "#5bc0de",
+  enemy: "#d9534f",
+  dead: "#555555",
+  tracer: "rgba(255, 230, 150, 0.9)",
+  text: "#e0e0e0",
+  healthGood: "#4caf50",
+  healthLow: "#d9534f",
+  bomb: "#ff3b30",
+  fog: "rgba(0, 0, 0, 0.6)",
+};
+
+export interface Viewport {
+  width: number; // CSS pixels
+  height: number;
+}
+
+export interface Camera {
+  x: number; // World position at the center of the screen
+  y: number;
+}
+
+export interface RenderOptions {
+  localPlayerId: string;
+  mouse: Vector2 | null; // Cursor position in screen space
+  latency: number | null; // Round-trip time in ms
+  bandwidth: number | null; // Snapshot bytes received per second
+}
+
+// Center on the target while keeping the map edge in view where possible
+export const followCamera = (
+  target: Vector2,
+  viewport: Viewport,
+  map: MapDefinition
+): Camera => {
+  const { width, height } = mapWorldSize(map);
+  const halfW = viewport.width / 2;
+  const halfH = viewport.height / 2;
+  const clampAxis = (value: number, half: number, size: number) =>
+    size <= half * 2
+      ? size / 2 // Map smaller than the screen: keep it centered
+      : Math.min(size - half, Math.max(half, value));
+  return {
+    x: clampAxis(target.x, halfW, width),
+    y: clampAxis(target.y, halfH, height),
+  };
+};
+
+export const screenToWorld = (
+  point: Vector2,
+  camera: Camera,
+  viewport: Viewport
+): Vector2 => ({
+  x: point.x - viewport.width / 2 + camera.x,
+  y: point.y - viewport.height / 2 + camera.y,
+});
+
+const fillTileRect = (
+  ctx: CanvasRenderingContext2D,
+  rect: TileRect,
+  tileSize: number
+) =>
+  ctx.fillRect(
+    rect.x * tileSize,
+    rect.y * tileSize,
+    rect.width * tileSize,
+    rect.height * tileSize
+  );
+
+// Static map layers are drawn once per map into an offscreen canvas
+const mapLayerCache = new WeakMap<MapDefinition, HTMLCanvasElement>();
+
+const buildMapLayer = (map: MapDefinition): HTMLCanvasElement => {
+  const { width, height } = mapWorldSize(map);
+  const size = map.tileSize;
+  const layer = document.createElement("canvas");
+  layer.width = width;
+  layer.height = height;
+  const ctx = layer.getContext("2d")!;
+
+  ctx.fillStyle = COLORS.floor;
+  ctx.fillRect(0, 0, width, height);
+
+  // Zones under everything else
+  ctx.fillStyle = COLORS.attackSpawn;
+  map.spawns.attack.forEach((zone) => fillTileRect(ctx, zone, size));
+  ctx.fillStyle = COLORS.defendSpawn;
+  map.spawns.defend.forEach((zone) => fillTileRect(ctx, zone, size));
+  ctx.fillStyle = COLORS.site;
+  map.sites.forEach((site) => fillTileRect(ctx, site.area, size));
+
+  // Grid lines
+  ctx.strokeStyle = COLORS.grid;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = size; x < width; x += size) {
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+  }
+  for (let y = size; y < height; y += size) {
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+  }
+  ctx.stroke();
+
+  // Walls and cover
+  map.tiles.forEach((row, ty) => {
+    [...row].forEach((tile, tx) => {
+      if (tile === TILE.wall) {
+        ctx.fillStyle = COLORS.wall;
+        ctx.fillRect(tx * size, ty * size, size, size);
+        ctx.strokeStyle = COLORS.wallEdge;
+        ctx.strokeRect(tx * size + 0.5, ty * size + 0.5, size - 1, size - 1);
+      } else if (tile === TILE.cover) {
+        ctx.fillStyle = COLORS.cover;
+        ctx.fillRect(tx * size + 3, ty * size + 3, size - 6, size - 6);
+      }
+    });
+  });
+
+  // Labels
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = COLORS.siteLabel;
+  ctx.font = `bold ${size * 2}px 'Segoe UI', Tahoma, sans-serif`;
+  map.sites.forEach((site) =>
+    ctx.fillText(
+      site.id,
+      (site.area.x + site.area.width / 2) * size,
+      (site.area.y + site.area.height / 2) * size
+    )
+  );
+  ctx.fillStyle = COLORS.chokepointLabel;
+  ctx.font = `${size / 2}px 'Segoe UI', Tahoma, sans-serif`;
+  map.chokepoints.forEach((chokepoint) =>
+    ctx.fillText(
+      chokepoint.name.toUpperCase(),
+      (chokepoint.area.x + chokepoint.area.width / 2) * size,
+      (chokepoint.area.y + chokepoint.area.height / 2) * size
+    )
+  );
+
+  return layer;
+};
+
+const drawMap = (ctx: CanvasRenderingContext2D, map: MapDefinition) => {
+  let layer = mapLayerCache.get(map);
+  if (!layer) {
+    layer = buildMapLayer(map);
+    mapLayerCache.set(map, layer);
+  }
+  ctx.drawImage(layer, 0, 0);
+};
+
+type Relation = "self" | "ally" | "enemy";
+
+const drawPlayer = (
+  ctx: CanvasRenderingContext2D,
+  player: PlayerState,
+  relation: Relation
+) => {
+  const { x, y } = player.position;
+  const color = player.alive ? COLORS[relation] : COLORS.dead;
+
+  // Body
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x, y, PLAYER_RADIUS, 0, Math.PI * 2);
+  ctx.fill();
+
+  if (player.alive) {
+    // Barrel showing aim direction
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(
+      x + Math.cos(player.aim) * PLAYER_RADIUS * 1.8,
+      y + Math.sin(player.aim) * PLAYER_RADIUS * 1.8
+    );
+    ctx.stroke();
+
+    // Overhead health bar
+    const barWidth = PLAYER_RADIUS * 2.5;
+    const ratio = player.health / MAX_HEALTH;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+    ctx.fillRect(x - barWidth / 2, y - PLAYER_RADIUS - 12, barWidth, 5);
+    ctx.fillStyle = ratio > 0.3 ? COLORS.healthGood : COLORS.healthLow;
+    ctx.fillRect(x - barWidth / 2, y - PLAYER_RADIUS - 12, barWidth * ratio, 5);
+  }
+
+  ctx.fillStyle = COLORS.text;
+  ctx.font = "12px 'Segoe UI', Tahoma, sans-serif";
+  ctx.textAlign = "center";
+  ctx.fillText(player.username, x, y - PLAYER_RADIUS - 18);
+};
+
+const drawTracers = (ctx: CanvasRenderingContext2D, state: GameSnapshot) => {
+  ctx.strokeStyle = COLORS.tracer;
+  ctx.lineWidth = 2;
+  state.tracers.forEach((tracer) => {
+    ctx.beginPath();
+    ctx.moveTo(tracer.from.x, tracer.from.y);
+    ctx.lineTo(tracer.to.x, tracer.to.y);
+    ctx.stroke();
+  });
+};
+
+const drawBomb = (
+  ctx: CanvasRenderingContext2D,
+  bomb: BombState,
+  tick: number
+) => {
+  if (!bomb.position || bomb.status === "defused") return;
+  const { x, y } = bomb.position;
+  // Blinks faster as detonation gets closer
+  const blinkTicks = bomb.timeLeft < 10000 ? 2 : 10;
+  const lit =
+    bomb.status === "detonated" || Math.floor(tick / blinkTicks) % 2 === 0;
+  ctx.fillStyle = "#2a2a2a";
+  ctx.fillRect(x - 9, y - 6, 18, 12);
+  ctx.fillStyle = lit ? COLORS.bomb : "#5a1a16";
+  ctx.beginPath();
+  ctx.arc(x, y, 3, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// Darken everything outside what the local player can see. Enemies there
+// are never sent by the server anyway; this just makes that visible.
+const drawFog = (
+  ctx: CanvasRenderingContext2D,
+  map: MapDefinition,
+  me: PlayerState,
+  camera: Camera,
+  viewport: Viewport
+) => {
+  const outline = visibilityPolygon(map, me.position, me.aim);
+  ctx.fillStyle = COLORS.fog;
+  ctx.beginPath();
+  ctx.rect(
+    camera.x - viewport.width / 2,
+    camera.y - viewport.height / 2,
+    viewport.width,
+    viewport.height
+  );
+  outline.forEach((point, i) =>
+    i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)
+  );
+  ctx.closePath();
+  ctx.fill("evenodd");
+};
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const phaseLabel = (match: MatchState) => {
+  switch (match.phase) {
+    case "warmup":
+      return "Warmup";
+    case "freeze":
+      return "Freeze time";
+    case "halftime":
+      return "Halftime";
+    case "match-end":
+      return "Match over";
+    case "knife-round":
+      return "Knife round";
+    case "side-pick":
+      return "Picking sides";
+    default:
+      return match.overtime > 0
+        ? `Overtime ${match.overtime} · Round ${match.round}`
+        : `Round ${match.round}`;
+  }
+};
+
+const drawBanner = (
+  ctx: CanvasRenderingContext2D,
+  viewport: Viewport,
+  title: string,
+  subtitle: string,
+  color: string
+) => {
+  ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+  ctx.fillRect(0, viewport.height / 2 - 50, viewport.width, 100);
+  ctx.textAlign = "center";
+  ctx.fillStyle = color;
+  ctx.font = "bold 32px 'Segoe UI', Tahoma, sans-serif";
+  ctx.fillText(title.toUpperCase(), viewport.width / 2, viewport.height / 2);
+  ctx.fillStyle = COLORS.text;
+  ctx.font = "14px 'Segoe UI', Tahoma, sans-serif";
+  ctx.fillText(subtitle, viewport.width / 2, viewport.height / 2 + 28);
+};
+
+const drawHud = (
+  ctx: CanvasRenderingContext2D,
+  state: GameSnapshot,
+  viewport: Viewport,
+  options: RenderOptions
+) => {
+  const { match } = state;
+  const me = state.players.find((p) => p.id === options.localPlayerId);
+  const myTeam: TeamId = me?.team ?? "alpha";
+  const enemyTeam: TeamId = myTeam === "alpha" ? "bravo" : "alpha";
+  const center = viewport.width / 2;
+
+  // Score, timer and phase, top center (own team always on the left)
+  ctx.textAlign = "center";
+  ctx.fillStyle = COLORS.text;
+  ctx.font = "bold 20px 'Segoe UI', Tahoma, sans-serif";
+  const bombTicking =
+    state.bomb.status === "planted" || state.bomb.status === "defusing";
+  if (bombTicking && match.phase === "live") {
+    // The round clock stops once the bomb is down
+    ctx.fillStyle = COLORS.bomb;
+    ctx.fillText(formatTime(state.bomb.timeLeft), center, 30);
+    ctx.fillStyle = COLORS.text;
+  } else if (match.phase !== "match-end") {
+    ctx.fillText(formatTime(match.timeLeft), center, 30);
+  }
+  ctx.font = "12px 'Segoe UI', Tahoma, sans-serif";
+  ctx.fillText(phaseLabel(match), center, 48);
+  if (match.phase !== "warmup") {
+    ctx.font = "bold 22px 'Segoe UI', Tahoma, sans-serif";
+    ctx.textAlign = "right";
+    ctx.fillStyle = COLORS.ally;
+    ctx.fillText(`${match.score[myTeam]}`, center - 50, 30);
+    ctx.textAlign = "left";
+    ctx.fillStyle = COLORS.enemy;
+    ctx.fillText(`${match.score[enemyTeam]}`, center + 50, 30);
+    ctx.font = "11px 'Segoe UI', Tahoma, sans-serif";
+    ctx.textAlign = "right";
+    ctx.fillStyle = COLORS.text;
+    ctx.fillText(
+      `${TEAM_NAMES[myTeam]} (${match.sides[myTeam]})`.toUpperCase(),
+      center - 50,
+      46
+    );
+    ctx.textAlign = "left";
+    ctx.fillText(
+      `${TEAM_NAMES[enemyTeam]} (${match.sides[enemyTeam]})`.toUpperCase(),
+      center + 50,
+      46
+    );
+  }
+
+  if (me) {
+    // Health and score, bottom left
+    ctx.textAlign = "left";
+    ctx.font = "bold 28px 'Segoe UI', Tahoma, sans-serif";
+    ctx.fillStyle =
+      me.health / MAX_HEALTH > 0.3 ? COLORS.healthGood : COLORS.healthLow;
+    ctx.fillText(`+ ${me.health}`, 20, viewport.height - 24);
+    ctx.font = "14px 'Segoe UI', Tahoma, sans-serif";
+    ctx.fillStyle = COLORS.text;
+    if (me.armor > 0) {
+      ctx.fillText(`Armor ${me.armor}`, 110, viewport.height - 28);
+    }
+    ctx.fillText(`K ${me.kills} / D ${me.deaths}`, 20, viewport.height - 60);
+
+    // Money and loadout, bottom right
+    ctx.textAlign = "right";
+    ctx.font = "bold 22px 'Segoe UI', Tahoma, sans-serif";
+    ctx.fillStyle = COLORS.healthGood;
+    ctx.fillText(`$${me.money}`, viewport.width - 20, viewport.height - 24);
+    ctx.font = "14px 'Segoe UI', Tahoma, sans-serif";
+    ctx.fillStyle = COLORS.text;
+    const loadout = me.hasDefuseKit
+      ? `${WEAPON_NAMES[me.weapon]} · Kit`
+      : WEAPON_NAMES[me.weapon];
+    ctx.fillText(loadout, viewport.width - 20, viewport.height - 56);
+    if (me.canBuy) {
+      ctx.fillStyle = COLORS.self;
+      ctx.fillText("Press B to buy", viewport.width - 20, viewport.height - 80);
+    }
+
+    // Plant or defuse progress, just below the crosshair area
+    if (state.bomb.channelerId === me.id) {
+      const barWidth = 200;
+      const barX = center - barWidth / 2;
+      const barY = viewport.height / 2 + 60;
+      ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+      ctx.fillRect(barX, barY, barWidth, 8);
+      ctx.fillStyle = COLORS.self;
+      ctx.fillRect(barX, barY, barWidth * state.bomb.progress, 8);
+      ctx.textAlign = "center";
+      ctx.font = "12px 'Segoe UI', Tahoma, sans-serif";
+      ctx.fillStyle = COLORS.text;
+      ctx.fillText(
+        state.bomb.status === "planting" ? "Planting..." : "Defusing...",
+        center,
+        barY - 6
+      );
+    }
+  }
+
+  if (match.phase === "match-end" && match.matchWinner) {
+    const result =
+      match.matchWinner === "draw"
+        ? "Draw"
+        : match.matchWinner === myTeam
+        ? "Victory"
+        : "Defeat";
+    drawBanner(
+      ctx,
+      viewport,
+      result,
+      match.forfeitedBy
+        ? `${TEAM_NAMES[match.forfeitedBy]} forfeited the match`
+        : `Final score ${match.score[myTeam]} - ${match.score[enemyTeam]}`,
+      result === "Defeat" ? COLORS.enemy : COLORS.self
+    );
+  } else if (match.phase === "round-end" && match.roundWinner) {
+    const won = match.roundWinner === myTeam;
+    drawBanner(
+      ctx,
+      viewport,
+      `${TEAM_NAMES[match.roundWinner]} wins the round`,
+      match.roundEndReason ? REASON_TEXT[match.roundEndReason] : "",
+      won ? COLORS.ally : COLORS.enemy
+    );
+  } else if (match.phase === "side-pick" && match.sidePicker) {
+    const picking = match.sidePicker === myTeam;
+    drawBanner(
+      ctx,
+      viewport,
+      `${TEAM_NAMES[match.sidePicker]} wins the knife round`,
+      picking
+        ? "Press 1 to start on attack or 2 to start on defense"
+        : `Waiting for ${TEAM_NAMES[match.sidePicker]} to pick a side`,
+      picking ? COLORS.ally : COLORS.enemy
+    );
+  } else if (match.phase === "halftime") {
+    drawBanner(
+      ctx,
+      viewport,
+      "Halftime",
+      `Switching sides: you will play ${match.sides[myTeam]}`,
+      COLORS.self
+    );
+  } else if (me && !me.alive) {
+    ctx.textAlign = "center";
+    ctx.fillStyle = COLORS.enemy;
+    ctx.font = "bold 24px 'Segoe UI', Tahoma, sans-serif";
+    ctx.fillText("YOU DIED", viewport.width / 2, viewport.height / 2);
+  }
+
+  // Connection stats, top right
+  const stats = [
+    options.latency !== null ? `Ping ${Math.round(options.latency)} ms` : "",
+    options.bandwidth !== null
+      ? `${(options.bandwidth / 1024).toFixed(1)} KB/s`
+      : "",
+  ].filter(Boolean);
+  if (stats.length > 0) {
+    ctx.textAlign = "right";
+    ctx.font = "12px 'Segoe UI', Tahoma, sans-serif";
+    ctx.fillStyle = COLORS.text;
+    ctx.fillText(stats.join(" · "), viewport.width - 20, 24);
+  }
+
+  // Crosshair
+  if (options.mouse && me?.alive) {
+    const { x, y } = options.mouse;
+    ctx.strokeStyle = COLORS.self;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x - 10, y);
+    ctx.lineTo(x - 4, y);
+    ctx.moveTo(x + 4, y);
+    ctx.lineTo(x + 10, y);
+    ctx.moveTo(x, y - 10);
+    ctx.lineTo(x, y - 4);
+    ctx.moveTo(x, y + 4);
+    ctx.lineTo(x, y + 10);
+    ctx.stroke();
+  }
+};
+
+const relationTo = (player: PlayerState, me?: PlayerState): Relation =>
+  player.id === me?.id ? "self" : player.team === me?.team ? "ally" : "enemy";
+
+// Draw one frame. The context is expected to be scaled for devicePixelRatio
+// so everything here works in CSS pixels.
+export const renderFrame = (
+  ctx: CanvasRenderingContext2D,
+  map: MapDefinition,
+  state: GameSnapshot,
+  camera: Camera,
+  viewport: Viewport,
+  options: RenderOptions
+) => {
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, viewport.width, viewport.height);
+
+  const me = state.players.find((p) => p.id === options.localPlayerId);
+
+  // World space
+  ctx.save();
+  ctx.translate(viewport.width / 2 - camera.x, viewport.height / 2 - camera.y);
+  drawMap(ctx, map);
+  drawBomb(ctx, state.bomb, state.tick);
+  drawTracers(ctx, state);
+  // Draw dead players first so the living are always on top
+  [...state.players]
+    .sort((a, b) => Number(a.alive) - Number(b.alive))
+    .forEach((player) => drawPlayer(ctx, player, relationTo(player, me)));
+  if (me?.alive && state.match.phase !== "match-end") {
+    drawFog(ctx, map, me, camera, viewport);
+  }
+  ctx.restore();
+
+  // Screen space
+  drawHud(ctx, state, viewport, options);
+};
@@ -0,0 +1,44 @@
+// Room settings choices the UI offers. The server validates them again.
+
+import type { Region, RoomSettingsInput, SidePick } from "shared";
+
+export type { Region, RoomSettings, RoomSettingsInput, SidePick } from "shared";
+
+export const TEAM_SIZE_OPTIONS = [1, 2, 3, 4, 5];
+export const ROUND_OPTIONS = [6, 12, 16, 24, 30];
+export const ROUND_TIME_OPTIONS_MS = [60000, 90000, 115000, 150000, 180000];
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettingsInput = {
+  teamSize: 1,
+  mapId: null,
+  maxRounds: 12,
+  roundTimeMs: 115000,
+  friendlyFire: true,
+  private: false,
+  restrictDeadChat: false,
+  sidePick: "coin-flip",
+  region: "na",
+};
+
+export const SIDE_PICK_NAMES: Record<SidePick, string> = {
+  "coin-flip": "Coin flip",
+  "knife-round": "Knife round",
+};
+
+export const REGION_NAMES: Record<Region, string> = {
+  na: "North America",
+  sa: "South America",
+  eu: "Europe",
+  asia: "Asia",
+  oce: "Oceania",
+};
+
+export { roomCapacity } from "shared";
+
+export const formatTeamSize = (teamSize: number) => `${teamSize}v${teamSize}`;
+
+// e.g. 115000 -> "1:55"
+export const formatRoundTime = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
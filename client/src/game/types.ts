@@ -0,0 +1,21 @@
+// Match types; they all cross the wire, so they live in the shared package
+
+import type { GameEvent } from "shared";
+
+export type {
+  BombState,
+  BombStatus,
+  BuyResult,
+  GameEvent,
+  GameSnapshot,
+  MatchPhase,
+  MatchState,
+  PlayerInput,
+  PlayerState,
+  RoundEndReason,
+  TeamId,
+  Tracer,
+  Vector2,
+} from "shared";
+
+export type MatchEndEvent = Extract<GameEvent, { type: "match-end" }>;
@@ -0,0 +1,38 @@
+import { VISION_FOV, VISION_NEAR_RADIUS, VISION_RANGE } from "./constants";
+import { MapDefinition } from "./map";
+import { raycastTiles } from "shared";
+import { Vector2 } from "./types";
+
+// Angular resolution of the visibility outline, in radians
+const CONE_STEP = Math.PI / 180;
+const NEAR_STEP = Math.PI / 45;
+
+// Outline of the area the player can see: the vision cone in front of them
+// plus the small circle around them, both cut short by walls. Mirrors the
+// server's fog of war so the darkened area matches what gets sent.
+export const visibilityPolygon = (
+  map: MapDefinition,
+  origin: Vector2,
+  aim: number
+): Vector2[] => {
+  const points: Vector2[] = [];
+  const cast = (angle: number, range: number) => {
+    const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+    const length = raycastTiles(map, origin, dir, range, "vision");
+    points.push({ x: origin.x + dir.x * length, y: origin.y + dir.y * length });
+  };
+
+  const coneStart = aim - VISION_FOV / 2;
+  const coneEnd = aim + VISION_FOV / 2;
+  for (let angle = coneStart; angle < coneEnd; angle += CONE_STEP) {
+    cast(angle, VISION_RANGE);
+  }
+  cast(coneEnd, VISION_RANGE);
+  // Sweep the rest of the way round at the near radius
+  const nearEnd = coneStart + Math.PI * 2;
+  for (let angle = coneEnd; angle < nearEnd; angle += NEAR_STEP) {
+    cast(angle, VISION_NEAR_RADIUS);
+  }
+  cast(nearEnd, VISION_NEAR_RADIUS);
+  return points;
+};
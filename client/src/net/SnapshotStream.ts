@@ -0,0 +1,93 @@
+import { GameSocket } from "../context/SocketContext";
+import { GameSnapshot } from "../game/types";
+import { decodeSnapshot } from "./snapshotCodec";
+
+// Decoded snapshots kept as possible delta baselines; matches the number
+// of baselines the server keeps per client
+const MAX_BASELINES = 32;
+const BANDWIDTH_WINDOW_MS = 1000;
+
+type SnapshotListener = (snapshot: GameSnapshot) => void;
+
+// Receives the binary snapshot stream for one socket, rebuilds full
+// snapshots from deltas, acknowledges them and hands them to listeners.
+// If a delta arrives whose baseline we no longer have, it asks the server
+// for a full snapshot instead.
+export class SnapshotStream {
+  private readonly socket: GameSocket;
+  private listeners = new Set<SnapshotListener>();
+  private history: GameSnapshot[] = [];
+  private awaitingResync = false;
+  private windowStart = performance.now();
+  private windowBytes = 0;
+  private rate = 0;
+
+  constructor(socket: GameSocket) {
+    this.socket = socket;
+    socket.on("snapshot", this.handlePacket);
+  }
+
+  subscribe(listener: SnapshotListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Received snapshot bytes per second over the last full window
+  get bytesPerSecond() {
+    return this.rate;
+  }
+
+  private handlePacket = (data: ArrayBuffer) => {
+    this.countBytes(data.byteLength);
+    const result = decodeSnapshot(data, (tick) =>
+      this.history.find((s) => s.tick === tick)
+    );
+    if (!result.ok) {
+      if (!this.awaitingResync) {
+        console.warn(
+          `[Client Log] Dropping snapshot (${result.reason}), requesting a full one`
+        );
+        this.awaitingResync = true;
+        this.socket.emit("snapshot-resync");
+      }
+      return;
+    }
+
+    const { snapshot, full } = result;
+    if (full) {
+      // A new baseline chain, e.g. a new match where ticks start over
+      this.history = [];
+      this.awaitingResync = false;
+    }
+    this.history.push(snapshot);
+    if (this.history.length > MAX_BASELINES) {
+      this.history.shift();
+    }
+    this.socket.emit("snapshot-ack", snapshot.tick);
+    this.listeners.forEach((listener) => listener(snapshot));
+  };
+
+  private countBytes(bytes: number) {
+    const now = performance.now();
+    if (now - this.windowStart >= BANDWIDTH_WINDOW_MS) {
+      this.rate = (this.windowBytes * 1000) / (now - this.windowStart);
+      this.windowStart = now;
+      this.windowBytes = 0;
+    }
+    this.windowBytes += bytes;
+  }
+}
+
+// One stream per socket, shared by everything that renders game state
+const streams = new WeakMap<GameSocket, SnapshotStream>();
+
+export const getSnapshotStream = (socket: GameSocket) => {
+  let stream = streams.get(socket);
+  if (!stream) {
+    stream = new SnapshotStream(socket);
+    streams.set(socket, stream);
+  }
+  return stream;
+};
@@ -0,0 +1,57 @@
+// Little-endian reader matching server/src/net/binary.ts
+
+const textDecoder = new TextDecoder();
+
+export class BinaryReader {
+  private readonly view: DataView;
+  private readonly bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(data: ArrayBuffer) {
+    this.view = new DataView(data);
+    this.bytes = new Uint8Array(data);
+  }
+
+  u8() {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16() {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32() {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f32() {
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64() {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  string() {
+    const length = this.u16();
+    const value = textDecoder.decode(
+      this.bytes.subarray(this.offset, this.offset + length)
+    );
+    this.offset += length;
+    return value;
+  }
+
+  optionalString() {
+    return this.u8() === 0 ? null : this.string();
+  }
+}
@@ -0,0 +1,200 @@
+import {
+  SNAPSHOT_BOMB_STATUSES,
+  SNAPSHOT_FLAG_BOMB,
+  SNAPSHOT_FLAG_FULL,
+  SNAPSHOT_FLAG_MATCH,
+  SNAPSHOT_PHASES,
+  SNAPSHOT_PROTOCOL_VERSION,
+  SNAPSHOT_REASONS,
+  SNAPSHOT_SIDES,
+  SNAPSHOT_TEAM_IDS,
+  SNAPSHOT_WEAPONS,
+} from "shared";
+import {
+  BombState,
+  GameSnapshot,
+  MatchState,
+  PlayerState,
+  Tracer,
+} from "../game/types";
+import { BinaryReader } from "./binary";
+
+// Decoder for the binary delta snapshots produced by
+// server/src/net/snapshotCodec.ts. The enum tables come from the shared
+// package; the field order below must match the server exactly.
+
+const fromNullableIndex = <T>(table: T[], index: number): T | null =>
+  index === 0 ? null : table[index - 1];
+
+// Readers in field mask bit order
+const PLAYER_FIELDS: ((r: BinaryReader, p: PlayerState) => void)[] = [
+  (r, p) => {
+    p.team = SNAPSHOT_TEAM_IDS[r.u8()];
+  },
+  (r, p) => {
+    p.position = { x: r.f32(), y: r.f32() };
+  },
+  (r, p) => {
+    p.aim = r.f32();
+  },
+  (r, p) => {
+    p.health = r.u8();
+  },
+  (r, p) => {
+    const flags = r.u8();
+    p.alive = (flags & 1) !== 0;
+    p.hasDefuseKit = (flags & 2) !== 0;
+    p.canBuy = (flags & 4) !== 0;
+  },
+  (r, p) => {
+    p.kills = r.u16();
+    p.deaths = r.u16();
+  },
+  (r, p) => {
+    p.money = r.u16();
+  },
+  (r, p) => {
+    p.weapon = SNAPSHOT_WEAPONS[r.u8()];
+    p.armor = r.u8();
+  },
+  (r, p) => {
+    p.lastProcessedInput = r.u32();
+  },
+];
+
+const readPlayerFields = (r: BinaryReader, player: PlayerState) => {
+  const mask = r.u16();
+  PLAYER_FIELDS.forEach((read, bit) => {
+    if (mask & (1 << bit)) read(r, player);
+  });
+  return player;
+};
+
+const readMatch = (r: BinaryReader): MatchState => {
+  const phase = SNAPSHOT_PHASES[r.u8()];
+  const round = r.u16();
+  const overtime = r.u8();
+  const timeLeft = r.u32();
+  const score = { alpha: r.u16(), bravo: r.u16() };
+  const sides = {
+    alpha: SNAPSHOT_SIDES[r.u8()],
+    bravo: SNAPSHOT_SIDES[r.u8()],
+  };
+  const roundWinner = fromNullableIndex(SNAPSHOT_TEAM_IDS, r.u8());
+  const roundEndReason = fromNullableIndex(SNAPSHOT_REASONS, r.u8());
+  const winnerIndex = r.u8();
+  const matchWinner =
+    winnerIndex === SNAPSHOT_TEAM_IDS.length + 1
+      ? "draw"
+      : fromNullableIndex(SNAPSHOT_TEAM_IDS, winnerIndex);
+  const forfeitedBy = fromNullableIndex(SNAPSHOT_TEAM_IDS, r.u8());
+  const sidePicker = fromNullableIndex(SNAPSHOT_TEAM_IDS, r.u8());
+  return {
+    phase,
+    round,
+    overtime,
+    timeLeft,
+    score,
+    sides,
+    roundWinner,
+    roundEndReason,
+    matchWinner,
+    forfeitedBy,
+    sidePicker,
+  };
+};
+
+const readBomb = (r: BinaryReader): BombState => {
+  const status = SNAPSHOT_BOMB_STATUSES[r.u8()];
+  const siteId = r.optionalString();
+  const position = r.u8() === 1 ? { x: r.f32(), y: r.f32() } : null;
+  const channelerId = r.optionalString();
+  const progress = r.f32();
+  const timeLeft = r.u32();
+  return { status, siteId, position, channelerId, progress, timeLeft };
+};
+
+const readTracer = (r: BinaryReader): Tracer => ({
+  id: r.u32(),
+  shooterId: r.string(),
+  from: { x: r.f32(), y: r.f32() },
+  to: { x: r.f32(), y: r.f32() },
+  tick: r.u32(),
+});
+
+export type DecodeResult =
+  | { ok: true; snapshot: GameSnapshot; full: boolean }
+  | { ok: false; reason: "version" | "missing-baseline" };
+
+// Rebuild a snapshot from a packet. Deltas need the baseline they were
+// encoded against, which `findBaseline` looks up by tick.
+export const decodeSnapshot = (
+  data: ArrayBuffer,
+  findBaseline: (tick: number) => GameSnapshot | undefined
+): DecodeResult => {
+  const r = new BinaryReader(data);
+  if (r.u8() !== SNAPSHOT_PROTOCOL_VERSION) {
+    return { ok: false, reason: "version" };
+  }
+  const flags = r.u8();
+  const full = (flags & SNAPSHOT_FLAG_FULL) !== 0;
+  const tick = r.u32();
+  let baseline: GameSnapshot | undefined;
+  if (!full) {
+    baseline = findBaseline(r.u32());
+    if (!baseline) return { ok: false, reason: "missing-baseline" };
+  }
+  const time = r.f64();
+  const roomId = full ? r.string() : baseline!.roomId;
+  const mapId = full ? r.string() : baseline!.mapId;
+  const match = flags & SNAPSHOT_FLAG_MATCH ? readMatch(r) : baseline!.match;
+  const bomb = flags & SNAPSHOT_FLAG_BOMB ? readBomb(r) : baseline!.bomb;
+
+  // Players: drop removed, patch changed, append added
+  const basePlayers = baseline?.players ?? [];
+  const removed = new Set<number>();
+  const removedCount = r.u8();
+  for (let i = 0; i < removedCount; i++) removed.add(r.u8());
+  const players = [...basePlayers];
+  const changedCount = r.u8();
+  for (let i = 0; i < changedCount; i++) {
+    const index = r.u8();
+    players[index] = readPlayerFields(r, {
+      ...basePlayers[index],
+      position: { ...basePlayers[index].position },
+    });
+  }
+  const kept = players.filter((_, index) => !removed.has(index));
+  const addedCount = r.u8();
+  for (let i = 0; i < addedCount; i++) {
+    const id = r.string();
+    const username = r.string();
+    kept.push(
+      readPlayerFields(r, { id, username } as PlayerState) // Mask covers every other field
+    );
+  }
+
+  // Tracers: drop expired, append newly fired
+  const baseTracers = baseline?.tracers ?? [];
+  const expired = new Set<number>();
+  const expiredCount = r.u8();
+  for (let i = 0; i < expiredCount; i++) expired.add(r.u8());
+  const tracers = baseTracers.filter((_, index) => !expired.has(index));
+  const firedCount = r.u8();
+  for (let i = 0; i < firedCount; i++) tracers.push(readTracer(r));
+
+  return {
+    ok: true,
+    full,
+    snapshot: {
+      roomId,
+      mapId,
+      tick,
+      time,
+      match,
+      bomb,
+      players: kept,
+      tracers,
+    },
+  };
+};
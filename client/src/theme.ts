@@ -0,0 +1,85 @@
+import { createTheme } from "@mui/material";
+
+// Define a dark theme (can be customized further)
+export const darkTheme = createTheme({
+  palette: {
+    mode: "dark",
+    primary: {
+      // CS-like orange/yellow
+      main: "#f0ad4e",
+      contrastText: "#1a1a1a", // Dark text for primary button
+    },
+    secondary: {
+      // CS-like blue/cyan
+      main: "#5bc0de",
+      contrastText: "#1a1a1a", // Dark text for secondary button
+    },
+    background: {
+      default: "#121212", // Even darker background
+      paper: "#1e1e1e", // Slightly lighter paper
+    },
+    text: {
+      primary: "#e0e0e0",
+      secondary: "#b0b0b0",
+    },
+    success: {
+      main: "#4caf50", // Green for ready/connected
+    },
+    error: {
+      main: "#d9534f", // Red for errors/leave
+    },
+    divider: "rgba(255, 255, 255, 0.12)", // Lighter divider for dark mode
+  },
+  typography: {
+    fontFamily: '"Segoe UI", Tahoma, Geneva, Verdana, sans-serif',
+    h4: {
+      fontWeight: "bold",
+      textTransform: "uppercase",
+      letterSpacing: "2px",
+      marginBottom: "1rem",
+      textShadow: "1px 1px 3px rgba(0, 0, 0, 0.5)",
+    },
+    h5: {
+      fontWeight: "bold",
+    },
+    body2: {
+      // For status text
+      color: "#999999",
+    },
+  },
+  components: {
+    MuiButton: {
+      styleOverrides: {
+        root: {
+          fontWeight: "bold",
+          letterSpacing: "1px",
+          padding: "0.6rem 1.5rem",
+        },
+      },
+    },
+    MuiTextField: {
+      styleOverrides: {
+        root: {
+          "& .MuiOutlinedInput-root": {
+            "&.Mui-focused fieldset": {
+              borderColor: "#f0ad4e", // Focus color
+            },
+          },
+        },
+      },
+    },
+    MuiPaper: {
+      // Style for the room view container
+      styleOverrides: {
+        root: {
+          padding: "2rem",
+          borderRadius: "8px",
+          border: "1px solid rgba(255, 255, 255, 0.12)",
+          width: "100%",
+          maxWidth: "500px",
+          textAlign: "center",
+        },
+      },
+    },
+  },
+});
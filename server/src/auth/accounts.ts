@@ -0,0 +1,66 @@
+import { randomBytes } from "crypto";
+
+export const MIN_USERNAME_LENGTH = 3;
+export const MAX_USERNAME_LENGTH = 20;
+export const MIN_ACCOUNT_PASSWORD_LENGTH = 8;
+export const MAX_ACCOUNT_PASSWORD_LENGTH = 128;
+
+// Guests are named "Guest-" plus a random suffix. Registered names may not
+// start with "guest", so the two can never be confused.
+const GUEST_PREFIX = "Guest-";
+const GUEST_SUFFIX_BYTES = 3;
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export type UsernameResult =
+  | { valid: true; username: string }
+  | { valid: false; error: string };
+
+export type AccountPasswordResult =
+  | { valid: true; password: string }
+  | { valid: false; error: string };
+
+// Check a name someone wants to register
+export const validateUsername = (raw: unknown): UsernameResult => {
+  if (typeof raw !== "string") {
+    return { valid: false, error: "Username is required." };
+  }
+  const username = raw.trim();
+  if (
+    username.length < MIN_USERNAME_LENGTH ||
+    username.length > MAX_USERNAME_LENGTH
+  ) {
+    return {
+      valid: false,
+      error: `Username must be between ${MIN_USERNAME_LENGTH} and ${MAX_USERNAME_LENGTH} characters.`,
+    };
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return {
+      valid: false,
+      error: "Username may only use letters, digits, _ and -.",
+    };
+  }
+  if (username.toLowerCase().startsWith("guest")) {
+    return { valid: false, error: "Usernames starting with Guest are taken." };
+  }
+  return { valid: true, username };
+};
+
+export const validateAccountPassword = (
+  raw: unknown
+): AccountPasswordResult => {
+  if (
+    typeof raw !== "string" ||
+    raw.length < MIN_ACCOUNT_PASSWORD_LENGTH ||
+    raw.length > MAX_ACCOUNT_PASSWORD_LENGTH
+  ) {
+    return {
+      valid: false,
+      error: `Password must be between ${MIN_ACCOUNT_PASSWORD_LENGTH} and ${MAX_ACCOUNT_PASSWORD_LENGTH} characters.`,
+    };
+  }
+  return { valid: true, password: raw };
+};
+
+export const createGuestName = () =>
+  GUEST_PREFIX + randomBytes(GUEST_SUFFIX_BYTES).toString("hex");
@@ -0,0 +1,128 @@
+import express, { NextFunction, Request, Response, Router } from "express";
+import type { Result } from "shared";
+import { failure } from "../net/errors";
+import { RateLimiter } from "../net/RateLimiter";
+import {
+  UNUSABLE_PASSWORD_HASH,
+  hashPassword,
+  verifyPassword,
+} from "../rooms/access";
+import { Storage } from "../storage";
+import {
+  createGuestName,
+  validateAccountPassword,
+  validateUsername,
+} from "./accounts";
+import { AuthIdentity, TokenSigner } from "./tokens";
+
+// Reply to every auth request. The token goes in the socket handshake.
+type AuthResponse = Result<{ token: string; username: string; guest: boolean }>;
+
+const sendIdentity = (
+  res: Response<AuthResponse>,
+  signer: TokenSigner,
+  identity: AuthIdentity
+) =>
+  res.json({
+    success: true,
+    token: signer.sign(identity, Date.now()),
+    username: identity.username,
+    guest: identity.guest,
+  });
+
+const sendRateLimited = (res: Response<AuthResponse>) =>
+  res
+    .status(429)
+    .json(
+      failure("rate-limited", "Too many sign-in attempts. Try again later.")
+    );
+
+// POST /register, /login and /guest. Bodies are JSON.
+export const createAuthRouter = (
+  storage: Storage,
+  signer: TokenSigner,
+  rateLimiter: RateLimiter
+) => {
+  const router = Router();
+  router.use(express.json());
+
+  router.post(
+    "/register",
+    async (req: Request, res: Response<AuthResponse>) => {
+      if (!rateLimiter.checkRegister(req.ip ?? "", Date.now())) {
+        sendRateLimited(res);
+        return;
+      }
+      const name = validateUsername(req.body?.username);
+      if (!name.valid) {
+        res.status(400).json(failure("invalid-username", name.error));
+        return;
+      }
+      const password = validateAccountPassword(req.body?.password);
+      if (!password.valid) {
+        res.status(400).json(failure("invalid-password", password.error));
+        return;
+      }
+      const created = storage.createAccount({
+        username: name.username,
+        passwordHash: await hashPassword(password.password),
+        createdAt: Date.now(),
+      });
+      if (!created) {
+        res
+          .status(409)
+          .json(failure("username-taken", "That username is taken."));
+        return;
+      }
+      sendIdentity(res, signer, { username: name.username, guest: false });
+    }
+  );
+
+  router.post("/login", async (req: Request, res: Response<AuthResponse>) => {
+    const { username, password } = req.body ?? {};
+    const name = typeof username === "string" ? username : "";
+    if (!rateLimiter.checkLogin(req.ip ?? "", name, Date.now())) {
+      sendRateLimited(res);
+      return;
+    }
+    const account = name ? storage.getAccount(name.trim()) : null;
+    // Hash even without an account so the reply time doesn't tell
+    const matches = await verifyPassword(
+      password,
+      account?.passwordHash ?? UNUSABLE_PASSWORD_HASH
+    );
+    if (!account || !matches) {
+      res
+        .status(401)
+        .json(failure("wrong-credentials", "Wrong username or password."));
+      return;
+    }
+    sendIdentity(res, signer, { username: account.username, guest: false });
+  });
+
+  // No account needed; the name is made up and marked as a guest's
+  router.post("/guest", (_req: Request, res: Response<AuthResponse>) => {
+    sendIdentity(res, signer, { username: createGuestName(), guest: true });
+  });
+
+  // Bodies that aren't valid JSON get the usual reply shape, not an HTML page
+  router.use(
+    (
+      error: unknown,
+      _req: Request,
+      res: Response<AuthResponse>,
+      next: NextFunction
+    ) => {
+      const parseFailed =
+        (error as { type?: unknown } | null)?.type === "entity.parse.failed";
+      if (!parseFailed || res.headersSent) return next(error);
+      res
+        .status(400)
+        .json(
+          failure("invalid-payload", "The request body is not valid JSON.")
+        );
+    }
+  );
+
+  return router;
+};
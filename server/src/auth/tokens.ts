@@ -0,0 +1,78 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Who a socket or request belongs to, as vouched for by a signed token
+export interface AuthIdentity {
+  username: string;
+  guest: boolean;
+}
+
+interface TokenPayload {
+  username: string;
+  guest: boolean;
+  expiresAt: number; // Epoch ms
+}
+
+export const TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SECRET_BYTES = 32;
+
+// Tokens are "payload.signature": base64url JSON signed with HMAC-SHA256.
+// Nothing is stored server-side; changing the secret signs everyone out.
+export class TokenSigner {
+  private secret: Buffer;
+
+  constructor(secret: string | undefined) {
+    if (secret) {
+      this.secret = Buffer.from(secret);
+    } else {
+      console.warn(
+        "[Server Log] AUTH_SECRET is not set; sign-ins will not survive a restart."
+      );
+      this.secret = randomBytes(SECRET_BYTES);
+    }
+  }
+
+  sign(identity: AuthIdentity, now: number) {
+    const payload: TokenPayload = {
+      username: identity.username,
+      guest: identity.guest,
+      expiresAt: now + TOKEN_TTL_MS,
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return `${encoded}.${this.signature(encoded).toString("base64url")}`;
+  }
+
+  // The identity in a token, or null if it is forged, malformed or expired
+  verify(token: unknown, now: number): AuthIdentity | null {
+    if (typeof token !== "string") return null;
+    const [encoded, signature, ...rest] = token.split(".");
+    if (!encoded || !signature || rest.length > 0) return null;
+    const expected = this.signature(encoded);
+    const actual = Buffer.from(signature, "base64url");
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      return null;
+    }
+    try {
+      const payload = JSON.parse(
+        Buffer.from(encoded, "base64url").toString()
+      ) as TokenPayload;
+      if (
+        typeof payload.username !== "string" ||
+        typeof payload.guest !== "boolean" ||
+        typeof payload.expiresAt !== "number" ||
+        payload.expiresAt <= now
+      ) {
+        return null;
+      }
+      return { username: payload.username, guest: payload.guest };
+    } catch {
+      return null;
+    }
+  }
+
+  private signature(encoded: string) {
+    return createHmac("sha256", this.secret).update(encoded).digest();
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import { MapDefinition } from "../maps/types";
+import { Bomb, BombActor, BombUpdate } from "./Bomb";
+import {
+  BOMB_TIMER_MS,
+  DEFUSE_KIT_TIME_MS,
+  DEFUSE_RADIUS,
+  DEFUSE_TIME_MS,
+  PLANT_TIME_MS,
+  TICK_MS,
+} from "./constants";
+
+const TILE_SIZE = 32;
+
+// An open 10x10 room with a 2x2 site A in the middle
+const MAP: MapDefinition = {
+  version: 1,
+  id: "test",
+  name: "Test",
+  tileSize: TILE_SIZE,
+  tiles: Array(10).fill(".".repeat(10)),
+  spawns: {
+    attack: [{ x: 0, y: 0, width: 1, height: 1 }],
+    defend: [{ x: 9, y: 9, width: 1, height: 1 }],
+  },
+  sites: [{ id: "A", area: { x: 4, y: 4, width: 2, height: 2 } }],
+  chokepoints: [],
+};
+
+const ON_SITE = { x: 5 * TILE_SIZE, y: 5 * TILE_SIZE };
+const OFF_SITE = { x: 16, y: 16 };
+
+const PLANT_TICKS = PLANT_TIME_MS / TICK_MS;
+const DEFUSE_TICKS = DEFUSE_TIME_MS / TICK_MS;
+const DEFUSE_KIT_TICKS = DEFUSE_KIT_TIME_MS / TICK_MS;
+const BOMB_TIMER_TICKS = BOMB_TIMER_MS / TICK_MS;
+
+const attacker = (overrides: Partial<BombActor> = {}): BombActor => ({
+  id: "attacker",
+  side: "attack",
+  alive: true,
+  position: ON_SITE,
+  using: true,
+  hasDefuseKit: false,
+  ...overrides,
+});
+
+const defender = (overrides: Partial<BombActor> = {}): BombActor => ({
+  id: "defender",
+  side: "defend",
+  alive: true,
+  position: ON_SITE,
+  using: true,
+  hasDefuseKit: false,
+  ...overrides,
+});
+
+// Update every tick in [from, to] with the same actors; returns the updates
+// that had an outcome
+const run = (bomb: Bomb, from: number, to: number, actors: BombActor[]) => {
+  const outcomes: { tick: number; update: BombUpdate }[] = [];
+  for (let tick = from; tick <= to; tick++) {
+    const update = bomb.update(tick, actors);
+    if (update.outcome) outcomes.push({ tick, update });
+  }
+  return outcomes;
+};
+
+// A bomb planted on tick PLANT_TICKS
+const plantedBomb = () => {
+  const bomb = new Bomb(MAP);
+  run(bomb, 0, PLANT_TICKS, [attacker()]);
+  return bomb;
+};
+
+describe("Bomb planting", () => {
+  it("plants after holding use on a site for the plant time", () => {
+    const bomb = new Bomb(MAP);
+    expect(run(bomb, 0, PLANT_TICKS - 1, [attacker()])).toEqual([]);
+    expect(bomb.getState(PLANT_TICKS / 2)).toMatchObject({
+      status: "planting",
+      channelerId: "attacker",
+      progress: 0.5,
+    });
+
+    const update = bomb.update(PLANT_TICKS, [attacker()]);
+    expect(update.outcome).toBe("planted");
+    expect(update.actorId).toBe("attacker");
+    expect(update.events).toEqual([
+      {
+        type: "bomb-planted",
+        planterId: "attacker",
+        siteId: "A",
+        position: ON_SITE,
+        detonatesIn: BOMB_TIMER_MS,
+      },
+    ]);
+    expect(bomb.isPlanted).toBe(true);
+    expect(bomb.getState(PLANT_TICKS)).toMatchObject({
+      status: "planted",
+      siteId: "A",
+      timeLeft: BOMB_TIMER_MS,
+    });
+  });
+
+  it("only starts for a living attacker on a site", () => {
+    const bomb = new Bomb(MAP);
+    run(bomb, 0, PLANT_TICKS * 2, [
+      attacker({ position: OFF_SITE }),
+      attacker({ id: "dead", alive: false }),
+      attacker({ id: "idle", using: false }),
+      defender(),
+    ]);
+    expect(bomb.getState(PLANT_TICKS * 2).status).toBe("idle");
+  });
+
+  it("breaks when the use key is released and starts over", () => {
+    const bomb = new Bomb(MAP);
+    run(bomb, 0, PLANT_TICKS - 10, [attacker()]);
+    bomb.update(PLANT_TICKS - 9, [attacker({ using: false })]);
+    expect(bomb.getState(PLANT_TICKS - 9)).toMatchObject({
+      status: "idle",
+      progress: 0,
+    });
+
+    // The next plant needs the full time again
+    const start = PLANT_TICKS;
+    const outcomes = run(bomb, start, start + PLANT_TICKS, [attacker()]);
+    expect(outcomes.map(({ tick }) => tick)).toEqual([start + PLANT_TICKS]);
+  });
+
+  it("breaks when the planter dies", () => {
+    const bomb = new Bomb(MAP);
+    run(bomb, 0, 10, [attacker()]);
+    bomb.update(11, [attacker({ alive: false })]);
+    expect(bomb.getState(11).status).toBe("idle");
+  });
+});
+
+describe("Bomb defusing", () => {
+  it("defuses after the defuse time", () => {
+    const bomb = plantedBomb();
+    const start = PLANT_TICKS + 1;
+    const outcomes = run(bomb, start, start + DEFUSE_TICKS, [defender()]);
+    expect(outcomes).toEqual([
+      {
+        tick: start + DEFUSE_TICKS,
+        update: {
+          events: [{ type: "bomb-defused", defuserId: "defender" }],
+          outcome: "defused",
+          actorId: "defender",
+        },
+      },
+    ]);
+  });
+
+  it("is faster with a defuse kit", () => {
+    const bomb = plantedBomb();
+    const start = PLANT_TICKS + 1;
+    const outcomes = run(bomb, start, start + DEFUSE_KIT_TICKS, [
+      defender({ hasDefuseKit: true }),
+    ]);
+    expect(outcomes.map(({ tick }) => tick)).toEqual([
+      start + DEFUSE_KIT_TICKS,
+    ]);
+  });
+
+  it("needs the defender within reach of the bomb", () => {
+    const bomb = plantedBomb();
+    const start = PLANT_TICKS + 1;
+    const tooFar = {
+      x: ON_SITE.x + DEFUSE_RADIUS + 1,
+      y: ON_SITE.y,
+    };
+    run(bomb, start, start + DEFUSE_TICKS, [defender({ position: tooFar })]);
+    expect(bomb.getState(start + DEFUSE_TICKS).status).toBe("planted");
+  });
+
+  it("loses its progress when the channel breaks", () => {
+    const bomb = plantedBomb();
+    const start = PLANT_TICKS + 1;
+    run(bomb, start, start + DEFUSE_TICKS - 1, [defender()]);
+    bomb.update(start + DEFUSE_TICKS, [defender({ using: false })]);
+    expect(bomb.getState(start + DEFUSE_TICKS)).toMatchObject({
+      status: "planted",
+      channelerId: null,
+      progress: 0,
+    });
+
+    const restart = start + DEFUSE_TICKS + 1;
+    expect(bomb.update(restart + 1, [defender()]).outcome).toBeNull();
+    expect(bomb.getState(restart + 1).status).toBe("defusing");
+  });
+});
+
+describe("Bomb detonation", () => {
+  it("explodes when the timer runs out", () => {
+    const bomb = plantedBomb();
+    const detonateAt = PLANT_TICKS + BOMB_TIMER_TICKS;
+    expect(run(bomb, PLANT_TICKS + 1, detonateAt - 1, [])).toEqual([]);
+    expect(bomb.getState(detonateAt - 1).timeLeft).toBe(TICK_MS);
+
+    expect(bomb.update(detonateAt, [])).toEqual({
+      events: [{ type: "bomb-exploded", siteId: "A" }],
+      outcome: "detonated",
+      actorId: null,
+    });
+  });
+
+  it("explodes under a defuse that can't finish in time", () => {
+    const bomb = plantedBomb();
+    const detonateAt = PLANT_TICKS + BOMB_TIMER_TICKS;
+    const start = detonateAt - DEFUSE_TICKS + 1;
+    run(bomb, PLANT_TICKS + 1, start - 1, []);
+    const outcomes = run(bomb, start, detonateAt, [defender()]);
+    expect(outcomes.map(({ update }) => update.outcome)).toEqual(["detonated"]);
+  });
+});
@@ -0,0 +1,201 @@
+import { MapDefinition, MapSite, Side } from "../maps/types";
+import {
+  BOMB_TIMER_MS,
+  DEFUSE_KIT_TIME_MS,
+  DEFUSE_RADIUS,
+  DEFUSE_TIME_MS,
+  PLANT_TIME_MS,
+  TICK_MS,
+} from "./constants";
+import { distance } from "./math";
+import { BombState, BombStatus, GameEvent, Vector2 } from "./types";
+
+// What the bomb needs to know about each player on a given tick
+export interface BombActor {
+  id: string;
+  side: Side;
+  alive: boolean;
+  position: Vector2;
+  using: boolean; // Holding the use key
+  hasDefuseKit: boolean;
+}
+
+export type BombOutcome = "planted" | "defused" | "detonated";
+
+export interface BombUpdate {
+  events: GameEvent[];
+  outcome: BombOutcome | null;
+  actorId: string | null; // Planter or defuser, when relevant
+}
+
+const msToTicks = (ms: number) => Math.ceil(ms / TICK_MS);
+
+export const siteAt = (
+  map: MapDefinition,
+  position: Vector2
+): MapSite | undefined => {
+  const tx = Math.floor(position.x / map.tileSize);
+  const ty = Math.floor(position.y / map.tileSize);
+  return map.sites.find(
+    ({ area }) =>
+      tx >= area.x &&
+      tx < area.x + area.width &&
+      ty >= area.y &&
+      ty < area.y + area.height
+  );
+};
+
+// Plant/defuse objective for a single round. Attackers channel a plant
+// inside a site, then defenders must channel a defuse before the timer
+// runs out. Channels only progress while the use key stays held and break
+// as soon as it is released or the player dies. Tick-driven like the rest
+// of the simulation.
+export class Bomb {
+  private readonly map: MapDefinition;
+  private status: BombStatus = "idle";
+  private site: MapSite | null = null;
+  private position: Vector2 | null = null;
+  private channelerId: string | null = null;
+  private channelStartTick = 0;
+  private channelTicks = 0;
+  private detonateAtTick = 0;
+
+  constructor(map: MapDefinition) {
+    this.map = map;
+  }
+
+  get isPlanted() {
+    return this.status === "planted" || this.status === "defusing";
+  }
+
+  reset() {
+    this.status = "idle";
+    this.site = null;
+    this.position = null;
+    this.channelerId = null;
+    this.detonateAtTick = 0;
+  }
+
+  getState(tick: number): BombState {
+    const channeling = this.status === "planting" || this.status === "defusing";
+    return {
+      status: this.status,
+      siteId: this.site?.id ?? null,
+      position: this.position ? { ...this.position } : null,
+      channelerId: channeling ? this.channelerId : null,
+      progress: channeling
+        ? Math.min(1, (tick - this.channelStartTick) / this.channelTicks)
+        : 0,
+      timeLeft: this.isPlanted
+        ? Math.max(0, (this.detonateAtTick - tick) * TICK_MS)
+        : 0,
+    };
+  }
+
+  // Advance channels and the detonation timer. Only call during live play.
+  update(tick: number, actors: BombActor[]): BombUpdate {
+    switch (this.status) {
+      case "idle":
+      case "planting":
+        return this.updatePlant(tick, actors);
+      case "planted":
+      case "defusing":
+        return this.updateDefuse(tick, actors);
+      default:
+        return { events: [], outcome: null, actorId: null };
+    }
+  }
+
+  private updatePlant(tick: number, actors: BombActor[]): BombUpdate {
+    const none: BombUpdate = { events: [], outcome: null, actorId: null };
+
+    // Keep an ongoing plant going while its planter holds still on site
+    if (this.status === "planting") {
+      const planter = actors.find((a) => a.id === this.channelerId);
+      if (!planter || !planter.alive || !planter.using) {
+        this.status = "idle";
+        this.channelerId = null;
+        this.site = null;
+      } else if (tick - this.channelStartTick >= this.channelTicks) {
+        this.status = "planted";
+        this.position = { ...planter.position };
+        this.detonateAtTick = tick + msToTicks(BOMB_TIMER_MS);
+        return {
+          events: [
+            {
+              type: "bomb-planted",
+              planterId: planter.id,
+              siteId: this.site!.id,
+              position: { ...this.position },
+              detonatesIn: BOMB_TIMER_MS,
+            },
+          ],
+          outcome: "planted",
+          actorId: planter.id,
+        };
+      } else {
+        return none;
+      }
+    }
+
+    // Otherwise the first attacker holding use on a site starts planting
+    for (const actor of actors) {
+      if (actor.side !== "attack" || !actor.alive || !actor.using) continue;
+      const site = siteAt(this.map, actor.position);
+      if (!site) continue;
+      this.status = "planting";
+      this.site = site;
+      this.channelerId = actor.id;
+      this.channelStartTick = tick;
+      this.channelTicks = msToTicks(PLANT_TIME_MS);
+      break;
+    }
+    return none;
+  }
+
+  private updateDefuse(tick: number, actors: BombActor[]): BombUpdate {
+    if (tick >= this.detonateAtTick) {
+      this.status = "detonated";
+      this.channelerId = null;
+      return {
+        events: [{ type: "bomb-exploded", siteId: this.site!.id }],
+        outcome: "detonated",
+        actorId: null,
+      };
+    }
+
+    const inReach = (actor: BombActor) =>
+      actor.side === "defend" &&
+      actor.alive &&
+      actor.using &&
+      distance(actor.position, this.position!) <= DEFUSE_RADIUS;
+
+    if (this.status === "defusing") {
+      const defuser = actors.find((a) => a.id === this.channelerId);
+      if (!defuser || !inReach(defuser)) {
+        // Defuse progress is lost when the channel breaks
+        this.status = "planted";
+        this.channelerId = null;
+      } else if (tick - this.channelStartTick >= this.channelTicks) {
+        this.status = "defused";
+        return {
+          events: [{ type: "bomb-defused", defuserId: defuser.id }],
+          outcome: "defused",
+          actorId: defuser.id,
+        };
+      }
+      return { events: [], outcome: null, actorId: null };
+    }
+
+    const defuser = actors.find(inReach);
+    if (defuser) {
+      this.status = "defusing";
+      this.channelerId = defuser.id;
+      this.channelStartTick = tick;
+      this.channelTicks = msToTicks(
+        defuser.hasDefuseKit ? DEFUSE_KIT_TIME_MS : DEFUSE_TIME_MS
+      );
+    }
+    return { events: [], outcome: null, actorId: null };
+  }
+}
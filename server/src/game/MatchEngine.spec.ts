@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MapDefinition } from "../maps/types";
+import { DEFAULT_MATCH_CONFIG, MAX_HEALTH, TICK_MS } from "./constants";
+import { weaponStats } from "./items";
+import { MatchEngine } from "./MatchEngine";
+import { PlayerInput, Vector2 } from "./types";
+
+const MAX_REWIND_TICKS = DEFAULT_MATCH_CONFIG.maxRewindMs / TICK_MS;
+const PISTOL_DAMAGE = weaponStats("pistol").damage;
+
+// A walled 40x20 room: attackers spawn on the left, defenders on the right
+const MAP: MapDefinition = {
+  version: 1,
+  id: "test",
+  name: "Test",
+  tileSize: 32,
+  tiles: [
+    "#".repeat(40),
+    ...Array(18).fill(`#${".".repeat(38)}#`),
+    "#".repeat(40),
+  ],
+  spawns: {
+    attack: [{ x: 2, y: 8, width: 2, height: 4 }],
+    defend: [{ x: 36, y: 8, width: 1, height: 1 }],
+  },
+  sites: [{ id: "A", area: { x: 18, y: 8, width: 4, height: 4 } }],
+  chokepoints: [],
+};
+
+// Two shooters on alpha (attack) and a target on bravo (defend)
+const createEngine = () =>
+  new MatchEngine(
+    "room",
+    MAP,
+    [
+      { id: "near", username: "Near", team: "alpha" },
+      { id: "far", username: "Far", team: "alpha" },
+      { id: "target", username: "Target", team: "bravo" },
+    ],
+    {
+      ...DEFAULT_MATCH_CONFIG,
+      warmupMs: TICK_MS,
+      freezeTimeMs: TICK_MS,
+      friendlyFire: false,
+      attackFirst: "alpha",
+    }
+  );
+
+const playerState = (engine: MatchEngine, playerId: string) => {
+  const player = engine.getSnapshot().players.find((p) => p.id === playerId);
+  if (!player) throw new Error(`No player ${playerId}`);
+  return player;
+};
+
+const input = (seq: number, overrides: Partial<PlayerInput>): PlayerInput => ({
+  seq,
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  aim: 0,
+  shoot: false,
+  use: false,
+  viewTime: null,
+  ...overrides,
+});
+
+const aimAt = (from: Vector2, to: Vector2) =>
+  Math.atan2(to.y - from.y, to.x - from.x);
+
+describe("MatchEngine lag compensation", () => {
+  let engine: MatchEngine;
+  let seq: number;
+  // The target's position as of each tick since the round went live
+  let targetTrail: Map<number, Vector2>;
+
+  beforeEach(() => {
+    engine = createEngine();
+    seq = 0;
+    targetTrail = new Map();
+    while (engine.getSnapshot().match.phase !== "live") engine.step();
+
+    // Walk the target down, across the shooters' line of fire, for longer
+    // than the rewind window
+    for (let i = 0; i < MAX_REWIND_TICKS * 3; i++) {
+      engine.handleInput("target", input(++seq, { down: true }));
+      engine.step();
+      const { tick } = engine.getSnapshot();
+      targetTrail.set(tick, { ...playerState(engine, "target").position });
+    }
+  });
+
+  // Fire both shooters on the next tick. Each aims at where the target
+  // was `aimTicksAgo` and reports a view time of `viewTicksAgo`, both
+  // counted back from the tick the shots are fired on.
+  const fire = (
+    shots: Record<
+      "near" | "far",
+      { aimTicksAgo: number; viewTicksAgo: number | null }
+    >
+  ) => {
+    const shotTick = engine.getSnapshot().tick + 1;
+    // The target stands still on the shot tick
+    const now = targetTrail.get(shotTick - 1)!;
+    targetTrail.set(shotTick, now);
+    (["near", "far"] as const).forEach((shooterId) => {
+      const { aimTicksAgo, viewTicksAgo } = shots[shooterId];
+      const origin = playerState(engine, shooterId).position;
+      const aimPoint = targetTrail.get(shotTick - aimTicksAgo)!;
+      engine.handleInput(
+        shooterId,
+        input(++seq, {
+          aim: aimAt(origin, aimPoint),
+          shoot: true,
+          viewTime:
+            viewTicksAgo === null ? null : (shotTick - viewTicksAgo) * TICK_MS,
+        })
+      );
+    });
+    engine.step();
+    return MAX_HEALTH - playerState(engine, "target").health;
+  };
+
+  it("hits each shooter's target where they saw it", () => {
+    const damage = fire({
+      near: { aimTicksAgo: 1, viewTicksAgo: 1 },
+      far: { aimTicksAgo: 4, viewTicksAgo: 4 },
+    });
+    expect(damage).toBe(PISTOL_DAMAGE * 2);
+  });
+
+  it("misses shots aimed at a different time than the view time", () => {
+    const damage = fire({
+      near: { aimTicksAgo: 4, viewTicksAgo: 1 },
+      far: { aimTicksAgo: 1, viewTicksAgo: 4 },
+    });
+    expect(damage).toBe(0);
+  });
+
+  it("judges shots without a view time against the present", () => {
+    const damage = fire({
+      near: { aimTicksAgo: 0, viewTicksAgo: null },
+      far: { aimTicksAgo: 3, viewTicksAgo: null },
+    });
+    expect(damage).toBe(PISTOL_DAMAGE);
+  });
+
+  it("never rewinds further than the maximum rewind window", () => {
+    const beyond = MAX_REWIND_TICKS * 2;
+    const damage = fire({
+      // Aimed where the target was at its (too old) view time: misses
+      near: { aimTicksAgo: beyond, viewTicksAgo: beyond },
+      // Same view time, aimed at the edge of the window: hits
+      far: { aimTicksAgo: MAX_REWIND_TICKS, viewTicksAgo: beyond },
+    });
+    expect(damage).toBe(PISTOL_DAMAGE);
+  });
+
+  it("doesn't let view times from the future see ahead", () => {
+    const damage = fire({
+      near: { aimTicksAgo: 0, viewTicksAgo: -5 },
+      far: { aimTicksAgo: 3, viewTicksAgo: -5 },
+    });
+    expect(damage).toBe(PISTOL_DAMAGE);
+  });
+});
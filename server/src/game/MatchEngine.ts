@@ -0,0 +1,740 @@
+import {
+  MAX_HEALTH,
+  PLAYER_RADIUS,
+  TICK_MS,
+  TRACER_LIFETIME_MS,
+} from "./constants";
+import { MapDefinition, Side } from "../maps/types";
+import { mapWorldSize, raycastTiles, spawnPoints } from "./collision";
+import { MatchFlow, TEAMS, otherTeam } from "./MatchFlow";
+import { Bomb, BombActor, BombUpdate } from "./Bomb";
+import {
+  DEFUSE_REWARD,
+  OVERTIME_MONEY,
+  PLANT_REWARD,
+  ROUND_WIN_REWARD,
+  START_MONEY,
+  addMoney,
+  lossBonus,
+} from "./economy";
+import {
+  DEFAULT_WEAPON,
+  ITEM_CATALOG,
+  ItemId,
+  MAX_ARMOR,
+  weaponStats,
+} from "./items";
+import { rayCircleIntersection } from "./math";
+import { PositionHistory } from "./PositionHistory";
+import { canSeePlayer } from "./vision";
+import {
+  BuyResult,
+  GameEvent,
+  GameSnapshot,
+  MatchConfig,
+  PlayerInput,
+  PlayerState,
+  RoundEndReason,
+  TeamId,
+  Tracer,
+  Vector2,
+} from "./types";
+import { failure } from "../net/errors";
+import { MOVEMENT_PHASES, moveStep } from "shared";
+import type { ActionResponse } from "shared";
+
+export interface MatchParticipant {
+  id: string;
+  username: string;
+  team?: TeamId; // Alternates between teams when omitted
+}
+
+// Server-side bookkeeping that is never sent to clients
+interface SimPlayer {
+  state: PlayerState;
+  input: PlayerInput; // Most recent input; held buttons and aim persist
+  pendingInputs: PlayerInput[]; // Received but not simulated yet
+  nextShotTick: number; // Earliest tick this player may fire again
+}
+
+// Snapshots are keyed by player id since each player gets their own view
+export type TickListener = (
+  snapshots: Map<string, GameSnapshot>,
+  events: GameEvent[]
+) => void;
+
+// Inputs are simulated one per tick so client-side prediction can replay
+// them exactly. A client that floods us only fills this queue up.
+const MAX_PENDING_INPUTS = 10;
+
+const msToTicks = (ms: number) => Math.ceil(ms / TICK_MS);
+
+const idleInput = (): PlayerInput => ({
+  seq: 0,
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  aim: 0,
+  shoot: false,
+  use: false,
+  viewTime: null,
+});
+
+// Coerce whatever arrived over the socket into a well-formed input
+export const sanitizeInput = (raw: unknown): PlayerInput | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const input = raw as Record<string, unknown>;
+  if (typeof input.seq !== "number" || !Number.isFinite(input.seq)) {
+    return null;
+  }
+  const aim =
+    typeof input.aim === "number" && Number.isFinite(input.aim) ? input.aim : 0;
+  return {
+    seq: Math.floor(input.seq),
+    up: input.up === true,
+    down: input.down === true,
+    left: input.left === true,
+    right: input.right === true,
+    aim,
+    shoot: input.shoot === true,
+    use: input.use === true,
+    viewTime:
+      typeof input.viewTime === "number" && Number.isFinite(input.viewTime)
+        ? input.viewTime
+        : null,
+  };
+};
+
+// Authoritative simulation for a single room. step() advances exactly one
+// fixed tick and never reads the wall clock, so the engine can be driven
+// manually (e.g. headless) as well as by the interval started with start().
+export class MatchEngine {
+  readonly roomId: string;
+  readonly map: MapDefinition;
+  private players: Map<string, SimPlayer> = new Map();
+  private tick = 0;
+  private flow: MatchFlow;
+  private bomb: Bomb;
+  private history: PositionHistory;
+  private lossStreak: Record<TeamId, number> = { alpha: 0, bravo: 0 };
+  private tracers: Tracer[] = [];
+  private nextTracerId = 1;
+  private queuedEvents: GameEvent[] = []; // Raised between ticks
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(
+    roomId: string,
+    map: MapDefinition,
+    participants: MatchParticipant[],
+    config: MatchConfig
+  ) {
+    this.roomId = roomId;
+    this.map = map;
+    participants.forEach((participant, index) => {
+      this.players.set(participant.id, {
+        state: {
+          id: participant.id,
+          username: participant.username,
+          team: participant.team ?? (index % 2 === 0 ? "alpha" : "bravo"),
+          position: { x: 0, y: 0 },
+          aim: 0,
+          health: MAX_HEALTH,
+          alive: true,
+          kills: 0,
+          deaths: 0,
+          money: START_MONEY,
+          weapon: DEFAULT_WEAPON,
+          armor: 0,
+          hasDefuseKit: false,
+          canBuy: false,
+          lastProcessedInput: 0,
+        },
+        input: idleInput(),
+        pendingInputs: [],
+        nextShotTick: 0,
+      });
+    });
+    this.flow = new MatchFlow(config, this.tick);
+    this.bomb = new Bomb(map);
+    this.history = new PositionHistory(config.maxRewindMs);
+    this.spawnPlayers(); // Warmup starts straight away
+  }
+
+  // --- Loop control ---
+
+  start(onTick: TickListener) {
+    if (this.interval) return;
+    this.interval = setInterval(() => {
+      const events = this.step();
+      const snapshots = new Map<string, GameSnapshot>();
+      for (const playerId of this.players.keys()) {
+        snapshots.set(playerId, this.getSnapshotFor(playerId));
+      }
+      onTick(snapshots, events);
+    }, TICK_MS);
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  get isRunning() {
+    return this.interval !== null;
+  }
+
+  get isFinished() {
+    return this.flow.currentPhase === "match-end";
+  }
+
+  // The winning team (or "draw") once the match has ended
+  get winner() {
+    return this.flow.getState(this.tick).matchWinner;
+  }
+
+  // --- Player management ---
+
+  hasPlayer(playerId: string) {
+    return this.players.has(playerId);
+  }
+
+  get playerCount() {
+    return this.players.size;
+  }
+
+  isAlive(playerId: string) {
+    return this.players.get(playerId)?.state.alive ?? false;
+  }
+
+  handleInput(playerId: string, input: PlayerInput) {
+    const player = this.players.get(playerId);
+    if (!player) return;
+    // Ignore stale or replayed inputs
+    const lastSeq =
+      player.pendingInputs[player.pendingInputs.length - 1]?.seq ??
+      player.state.lastProcessedInput;
+    if (input.seq <= lastSeq) return;
+    player.pendingInputs.push(input);
+    if (player.pendingInputs.length > MAX_PENDING_INPUTS) {
+      player.pendingInputs.shift();
+    }
+  }
+
+  // Drop held buttons and queued inputs, e.g. while a player reconnects
+  idlePlayer(playerId: string) {
+    const player = this.players.get(playerId);
+    if (!player) return;
+    player.input = { ...idleInput(), aim: player.input.aim };
+    player.pendingInputs = [];
+  }
+
+  // Take a player out of the match for good. A team left with nobody in
+  // it forfeits; the result goes out with the next tick's events.
+  removePlayer(playerId: string) {
+    const player = this.players.get(playerId);
+    if (!player) return;
+    this.players.delete(playerId);
+    const { team } = player.state;
+    const remaining = [...this.players.values()];
+    if (
+      remaining.length > 0 &&
+      !remaining.some((other) => other.state.team === team)
+    ) {
+      this.queuedEvents.push(...this.flow.forfeit(this.tick, team));
+    }
+  }
+
+  // Validate and apply a purchase from the buy menu
+  buyItem(playerId: string, itemId: ItemId): BuyResult {
+    const player = this.players.get(playerId);
+    if (!player) {
+      return failure("not-in-match", "Player not in this match.");
+    }
+    const { state } = player;
+    if (this.flow.currentPhase !== "freeze") {
+      return failure("buy-unavailable", "You can only buy during freeze time.");
+    }
+    if (!state.alive || !this.isInBuyZone(player)) {
+      return failure("buy-unavailable", "You must be in your buy zone.");
+    }
+
+    const item = ITEM_CATALOG[itemId];
+    const side = this.flow.sideOf(state.team);
+    if (item.side && item.side !== side) {
+      return failure(
+        "buy-unavailable",
+        `${item.name} is only available to ${item.side}ers.`
+      );
+    }
+    if (
+      (item.category === "weapon" && state.weapon === itemId) ||
+      (itemId === "armor" && state.armor >= MAX_ARMOR) ||
+      (itemId === "defuse-kit" && state.hasDefuseKit)
+    ) {
+      return failure("already-owned", `You already have ${item.name}.`);
+    }
+    if (state.money < item.price) {
+      return failure("insufficient-funds", "Not enough money.");
+    }
+
+    state.money -= item.price;
+    if (item.weapon) {
+      state.weapon = itemId as typeof state.weapon;
+      player.nextShotTick = 0;
+    } else if (itemId === "armor") {
+      state.armor = MAX_ARMOR;
+    } else if (itemId === "defuse-kit") {
+      state.hasDefuseKit = true;
+    }
+    return { success: true, item: itemId, money: state.money };
+  }
+
+  // The knife round winners pick the side they start on
+  chooseSide(playerId: string, side: Side): ActionResponse {
+    const player = this.players.get(playerId);
+    if (!player) {
+      return failure("not-in-match", "Player not in this match.");
+    }
+    const events = this.flow.chooseSide(this.tick, player.state.team, side);
+    if (events.length === 0) {
+      return failure(
+        "side-pick-unavailable",
+        "Your team can't pick sides now."
+      );
+    }
+    this.queuedEvents.push(...events);
+    return { success: true };
+  }
+
+  // --- Simulation ---
+
+  step(): GameEvent[] {
+    const events: GameEvent[] = this.queuedEvents.splice(0);
+    this.tick++;
+    const phase = this.flow.currentPhase;
+
+    // What players may do depends on the match phase
+    const canMove = MOVEMENT_PHASES.includes(phase);
+    const canShoot = phase === "live" || phase === "knife-round";
+    const canAim = phase !== "match-end";
+
+    for (const player of this.players.values()) {
+      this.applyInput(player, canMove, canAim);
+    }
+    this.recordPositions();
+    if (canShoot) {
+      for (const player of this.players.values()) {
+        this.tryShoot(player, events);
+      }
+      this.checkElimination(events);
+    }
+    if (this.flow.currentPhase === "live") {
+      this.updateBomb(events);
+    }
+
+    events.push(...this.flow.advance(this.tick));
+    events.forEach((event) => this.handleFlowEvent(event));
+    for (const player of this.players.values()) {
+      player.state.canBuy =
+        this.flow.currentPhase === "freeze" && this.isInBuyZone(player);
+    }
+
+    const oldestTracerTick = this.tick - msToTicks(TRACER_LIFETIME_MS);
+    this.tracers = this.tracers.filter((t) => t.tick > oldestTracerTick);
+    return events;
+  }
+
+  getSnapshot(): GameSnapshot {
+    return {
+      roomId: this.roomId,
+      mapId: this.map.id,
+      tick: this.tick,
+      time: this.tick * TICK_MS,
+      match: this.flow.getState(this.tick),
+      bomb: this.bomb.getState(this.tick),
+      players: [...this.players.values()].map((p) => ({
+        ...p.state,
+        position: { ...p.state.position },
+      })),
+      tracers: this.tracers.map((t) => ({ ...t })),
+    };
+  }
+
+  // What a single player is allowed to know: teammates plus the enemies
+  // they can currently see. Everything else is left out entirely so it
+  // can't be read from the socket traffic.
+  getSnapshotFor(viewerId: string): GameSnapshot {
+    const snapshot = this.getSnapshot();
+    const viewer = this.players.get(viewerId);
+    if (!viewer) {
+      return { ...snapshot, players: [], tracers: [] };
+    }
+
+    const { team } = viewer.state;
+    // Dead players keep watching through their living teammates' eyes
+    const teammates = [...this.players.values()].filter(
+      (p) => p.state.team === team && p.state.alive
+    );
+    const eyes =
+      viewer.state.alive || teammates.length === 0 ? [viewer] : teammates;
+    const visible = new Set(
+      [...this.players.values()]
+        .filter(
+          ({ state }) =>
+            state.team === team ||
+            eyes.some((eye) =>
+              canSeePlayer(
+                this.map,
+                eye.state.position,
+                eye.state.aim,
+                state.position
+              )
+            )
+        )
+        .map(({ state }) => state.id)
+    );
+
+    // Defenders only learn about the bomb once it is down
+    const bomb =
+      this.flow.sideOf(team) === "defend" && snapshot.bomb.status === "planting"
+        ? {
+            ...snapshot.bomb,
+            status: "idle" as const,
+            siteId: null,
+            channelerId: null,
+            progress: 0,
+          }
+        : snapshot.bomb;
+
+    return {
+      ...snapshot,
+      bomb,
+      players: snapshot.players.filter((p) => visible.has(p.id)),
+      tracers: snapshot.tracers.filter((t) => visible.has(t.shooterId)),
+    };
+  }
+
+  private applyInput(player: SimPlayer, canMove: boolean, canAim: boolean) {
+    const next = player.pendingInputs.shift();
+    if (next) {
+      player.input = next;
+      player.state.lastProcessedInput = next.seq;
+    }
+    const { state, input } = player;
+    if (!state.alive) return;
+
+    if (canAim) state.aim = input.aim;
+    // Only a freshly simulated input moves the player, otherwise a late
+    // packet would make the server move further than the client predicted.
+    // Planting and defusing keep the player rooted.
+    if (!next || !canMove) return;
+    state.position = moveStep(this.map, state.position, input);
+  }
+
+  // Positions as of this tick, which is also what this tick's snapshot shows
+  private recordPositions() {
+    const positions = new Map<string, Vector2>();
+    for (const { state } of this.players.values()) {
+      positions.set(state.id, { ...state.position });
+    }
+    this.history.record(this.tick, positions);
+  }
+
+  private tryShoot(shooter: SimPlayer, events: GameEvent[]) {
+    if (!shooter.input.shoot || !shooter.state.alive) return;
+    if (this.tick < shooter.nextShotTick) return;
+    const weapon = weaponStats(shooter.state.weapon);
+    shooter.nextShotTick = this.tick + msToTicks(weapon.cooldownMs);
+
+    const origin = shooter.state.position;
+    const dir: Vector2 = {
+      x: Math.cos(shooter.state.aim),
+      y: Math.sin(shooter.state.aim),
+    };
+
+    // Judge the shot against where targets were on the shooter's screen
+    const rewindTime = this.history.rewindTime(
+      shooter.input.viewTime,
+      this.tick
+    );
+
+    // Find the closest living player along the shot. Without friendly
+    // fire, shots pass straight through teammates.
+    const { friendlyFire } = this.flow.config;
+    let hit: SimPlayer | null = null;
+    let hitDistance = raycastTiles(
+      this.map,
+      origin,
+      dir,
+      weapon.range,
+      "shots"
+    );
+    for (const target of this.players.values()) {
+      if (target === shooter || !target.state.alive) continue;
+      if (!friendlyFire && target.state.team === shooter.state.team) continue;
+      const targetPosition =
+        this.history.positionAt(target.state.id, rewindTime) ??
+        target.state.position;
+      const t = rayCircleIntersection(
+        origin,
+        dir,
+        targetPosition,
+        PLAYER_RADIUS
+      );
+      if (t !== null && t < hitDistance) {
+        hit = target;
+        hitDistance = t;
+      }
+    }
+
+    this.tracers.push({
+      id: this.nextTracerId++,
+      shooterId: shooter.state.id,
+      from: { ...origin },
+      to: {
+        x: origin.x + dir.x * hitDistance,
+        y: origin.y + dir.y * hitDistance,
+      },
+      tick: this.tick,
+    });
+
+    if (hit) {
+      // Armor soaks up the part of the damage the weapon can't penetrate
+      const absorbed = Math.min(
+        hit.state.armor,
+        Math.round(weapon.damage * (1 - weapon.armorPenetration))
+      );
+      hit.state.armor -= absorbed;
+      hit.state.health = Math.max(
+        0,
+        hit.state.health - (weapon.damage - absorbed)
+      );
+      if (hit.state.health === 0) {
+        hit.state.alive = false;
+        hit.state.deaths++;
+        shooter.state.kills++;
+        if (hit.state.team !== shooter.state.team) {
+          shooter.state.money = addMoney(
+            shooter.state.money,
+            weapon.killReward
+          );
+        }
+        events.push({
+          type: "player-killed",
+          killerId: shooter.state.id,
+          victimId: hit.state.id,
+          tick: this.tick,
+        });
+      }
+    }
+  }
+
+  // End the live round (or the knife round) once a team has nobody left
+  // standing
+  private checkElimination(events: GameEvent[]) {
+    const players = [...this.players.values()];
+    const standing = (team: TeamId) =>
+      players.filter((p) => p.state.team === team && p.state.alive).length;
+    // A round needs both teams present to be decided by eliminations
+    const teamsPresent = new Set(players.map((p) => p.state.team));
+    if (teamsPresent.size < 2) return;
+
+    const alphaStanding = standing("alpha");
+    const bravoStanding = standing("bravo");
+    if (alphaStanding > 0 && bravoStanding > 0) return;
+    // With the bomb down, killing the attackers isn't enough: it still
+    // has to be defused
+    const attackers = this.flow.teamOnSide("attack");
+    if (this.bomb.isPlanted && standing(attackers) === 0) return;
+
+    let winner: TeamId;
+    if (alphaStanding === 0 && bravoStanding === 0) {
+      // Traded out on the same tick: the defenders held
+      winner = this.flow.teamOnSide("defend");
+    } else {
+      winner = otherTeam(alphaStanding === 0 ? "alpha" : "bravo");
+    }
+    if (this.flow.currentPhase === "knife-round") {
+      events.push(...this.flow.endKnifeRound(this.tick, winner));
+    } else {
+      events.push(...this.flow.endRound(this.tick, winner, "elimination"));
+    }
+  }
+
+  private updateBomb(events: GameEvent[]) {
+    const actors: BombActor[] = [...this.players.values()].map(
+      ({ state, input }) => ({
+        id: state.id,
+        side: this.flow.sideOf(state.team),
+        alive: state.alive,
+        position: state.position,
+        using: input.use,
+        hasDefuseKit: state.hasDefuseKit,
+      })
+    );
+    const update: BombUpdate = this.bomb.update(this.tick, actors);
+    events.push(...update.events);
+
+    const actor = update.actorId ? this.players.get(update.actorId) : null;
+    switch (update.outcome) {
+      case "planted":
+        this.flow.suspendRoundTimer();
+        if (actor) {
+          actor.state.money = addMoney(actor.state.money, PLANT_REWARD);
+        }
+        break;
+      case "defused":
+        if (actor) {
+          actor.state.money = addMoney(actor.state.money, DEFUSE_REWARD);
+        }
+        events.push(
+          ...this.flow.endRound(
+            this.tick,
+            this.flow.teamOnSide("defend"),
+            "defused"
+          )
+        );
+        break;
+      case "detonated":
+        events.push(
+          ...this.flow.endRound(
+            this.tick,
+            this.flow.teamOnSide("attack"),
+            "detonated"
+          )
+        );
+        break;
+    }
+  }
+
+  // Apply the side effects of match flow transitions
+  private handleFlowEvent(event: GameEvent) {
+    switch (event.type) {
+      case "knife-round-start":
+        this.bomb.reset();
+        this.spawnPlayers();
+        for (const { state } of this.players.values()) {
+          state.weapon = "knife";
+          state.armor = 0;
+        }
+        break;
+      case "round-start": {
+        const { maxRounds, overtimeRounds } = this.flow.config;
+        const firstOfOvertime =
+          event.overtime > 0 &&
+          (event.round - maxRounds - 1) % overtimeRounds === 0;
+        if (event.round === 1) {
+          this.resetStats(); // Warmup doesn't count
+          this.resetEconomy(START_MONEY);
+        } else if (firstOfOvertime) {
+          this.resetEconomy(OVERTIME_MONEY);
+        }
+        this.bomb.reset();
+        this.spawnPlayers();
+        break;
+      }
+      case "round-end":
+        this.payRoundRewards(event.winner, event.reason);
+        break;
+      case "halftime":
+        this.resetEconomy(
+          this.flow.currentRound > this.flow.config.maxRounds
+            ? OVERTIME_MONEY
+            : START_MONEY
+        );
+        break;
+    }
+  }
+
+  private payRoundRewards(winner: TeamId, reason: RoundEndReason) {
+    const loser = otherTeam(winner);
+    this.lossStreak[winner] = 0;
+    this.lossStreak[loser]++;
+    for (const { state } of this.players.values()) {
+      const reward =
+        state.team === winner
+          ? ROUND_WIN_REWARD[reason]
+          : lossBonus(this.lossStreak[loser]);
+      state.money = addMoney(state.money, reward);
+    }
+  }
+
+  // Start of each half: everyone gets the same money and a bare loadout
+  private resetEconomy(money: number) {
+    TEAMS.forEach((team) => (this.lossStreak[team] = 0));
+    for (const player of this.players.values()) {
+      player.state.money = money;
+      this.resetLoadout(player);
+    }
+  }
+
+  private resetLoadout(player: SimPlayer) {
+    player.state.weapon = DEFAULT_WEAPON;
+    player.state.armor = 0;
+    player.state.hasDefuseKit = false;
+  }
+
+  private isInBuyZone(player: SimPlayer) {
+    const side = this.flow.sideOf(player.state.team);
+    const size = this.map.tileSize;
+    const tx = Math.floor(player.state.position.x / size);
+    const ty = Math.floor(player.state.position.y / size);
+    return this.map.spawns[side].some(
+      (zone) =>
+        tx >= zone.x &&
+        tx < zone.x + zone.width &&
+        ty >= zone.y &&
+        ty < zone.y + zone.height
+    );
+  }
+
+  private resetStats() {
+    for (const player of this.players.values()) {
+      player.state.kills = 0;
+      player.state.deaths = 0;
+    }
+  }
+
+  // Put every player back in their side's spawn zone at full health
+  private spawnPlayers() {
+    this.tracers = [];
+    this.history.clear(); // Never rewind across the teleport
+
+    const players = [...this.players.values()];
+    const bySide: Record<Side, SimPlayer[]> = {
+      attack: players.filter(
+        (p) => this.flow.sideOf(p.state.team) === "attack"
+      ),
+      defend: players.filter(
+        (p) => this.flow.sideOf(p.state.team) === "defend"
+      ),
+    };
+    const { width, height } = mapWorldSize(this.map);
+    (Object.keys(bySide) as Side[]).forEach((side) => {
+      const points = spawnPoints(this.map, side);
+      bySide[side].forEach((player, slot) => {
+        // Spread teammates evenly over the available spawn tiles
+        const point =
+          points[
+            Math.floor(((slot + 0.5) * points.length) / bySide[side].length)
+          ];
+        player.state.position = { ...point };
+        player.state.aim = Math.atan2(
+          height / 2 - point.y,
+          width / 2 - point.x
+        );
+      });
+    });
+
+    players.forEach((player) => {
+      // Survivors keep what they carried, the dead start over
+      if (!player.state.alive) this.resetLoadout(player);
+      player.state.health = MAX_HEALTH;
+      player.state.alive = true;
+      player.nextShotTick = 0;
+    });
+  }
+}
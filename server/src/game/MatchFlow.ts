@@ -0,0 +1,261 @@
+import { Side } from "../maps/types";
+import { TICK_MS } from "./constants";
+import {
+  GameEvent,
+  MatchConfig,
+  MatchPhase,
+  MatchState,
+  RoundEndReason,
+  TeamId,
+} from "./types";
+
+export const TEAMS: TeamId[] = ["alpha", "bravo"];
+
+export const otherTeam = (team: TeamId): TeamId =>
+  team === "alpha" ? "bravo" : "alpha";
+
+const msToTicks = (ms: number) => Math.ceil(ms / TICK_MS);
+
+// Round-based match state machine:
+//
+//   warmup -> freeze -> live -> round-end -> freeze -> ...
+//                                         -> halftime -> freeze (sides swapped)
+//                                         -> match-end
+//
+// With config.knifeRound, warmup is followed by a knife round whose winners
+// pick their starting side before the first freeze:
+//
+//   warmup -> knife-round -> side-pick -> freeze -> ...
+//
+// Regulation is decided by the first team to win more than half of
+// config.maxRounds. A tie at the end of regulation goes to overtime periods
+// of config.overtimeRounds (or ends as a draw when overtime is disabled).
+// Sides swap at the midpoint of regulation and of every overtime period.
+//
+// Like the engine, it is driven purely by tick numbers.
+export class MatchFlow {
+  readonly config: MatchConfig;
+  private phase: MatchPhase = "warmup";
+  private phaseEndsAtTick: number;
+  private round = 0;
+  private score: Record<TeamId, number> = { alpha: 0, bravo: 0 };
+  private sides: Record<TeamId, Side>;
+  private roundWinner: TeamId | null = null;
+  private roundEndReason: RoundEndReason | null = null;
+  private matchWinner: TeamId | "draw" | null = null;
+  private forfeitedBy: TeamId | null = null;
+  private sidePicker: TeamId | null = null;
+  private roundTimerSuspended = false; // The bomb decides the round instead
+
+  constructor(config: MatchConfig, startTick: number) {
+    if (config.maxRounds < 2 || config.maxRounds % 2 !== 0) {
+      throw new Error("maxRounds must be an even number of at least 2");
+    }
+    if (config.overtimeRounds < 2 || config.overtimeRounds % 2 !== 0) {
+      throw new Error("overtimeRounds must be an even number of at least 2");
+    }
+    this.config = config;
+    this.sides = {
+      [config.attackFirst]: "attack",
+      [otherTeam(config.attackFirst)]: "defend",
+    } as Record<TeamId, Side>;
+    this.phaseEndsAtTick = startTick + msToTicks(config.warmupMs);
+  }
+
+  get currentPhase() {
+    return this.phase;
+  }
+
+  get currentRound() {
+    return this.round;
+  }
+
+  sideOf(team: TeamId): Side {
+    return this.sides[team];
+  }
+
+  teamOnSide(side: Side): TeamId {
+    return this.sides.alpha === side ? "alpha" : "bravo";
+  }
+
+  // Overtime period a round belongs to (0 = regulation)
+  private overtimeOf(round: number) {
+    const { maxRounds, overtimeRounds } = this.config;
+    return round <= maxRounds
+      ? 0
+      : Math.ceil((round - maxRounds) / overtimeRounds);
+  }
+
+  // Once the bomb is planted the round only ends by detonation, defuse or
+  // defenders being eliminated, never by the clock
+  suspendRoundTimer() {
+    if (this.phase === "live") {
+      this.roundTimerSuspended = true;
+    }
+  }
+
+  getState(tick: number): MatchState {
+    const timerStopped = this.phase === "live" && this.roundTimerSuspended;
+    return {
+      phase: this.phase,
+      round: this.round,
+      overtime: this.overtimeOf(this.round),
+      timeLeft: timerStopped
+        ? 0
+        : Math.max(0, (this.phaseEndsAtTick - tick) * TICK_MS),
+      score: { ...this.score },
+      sides: { ...this.sides },
+      roundWinner: this.roundWinner,
+      roundEndReason: this.roundEndReason,
+      matchWinner: this.matchWinner,
+      forfeitedBy: this.forfeitedBy,
+      sidePicker: this.sidePicker,
+    };
+  }
+
+  // Handle timed transitions. Call once per tick.
+  advance(tick: number): GameEvent[] {
+    if (this.phase === "match-end" || tick < this.phaseEndsAtTick) return [];
+    if (this.phase === "live" && this.roundTimerSuspended) return [];
+
+    switch (this.phase) {
+      case "warmup":
+        if (this.config.knifeRound) {
+          this.setPhase("knife-round", tick, this.config.knifeRoundMs);
+          return [{ type: "knife-round-start" }];
+        }
+        return [this.startRound(tick)];
+      case "knife-round":
+        // Nobody won it in time: keep the sides as they are
+        return [
+          { type: "knife-round-end", winner: null },
+          this.startRound(tick),
+        ];
+      case "side-pick":
+        // The winners didn't choose, so they keep their current side
+        this.sidePicker = null;
+        return [this.startRound(tick)];
+      case "halftime":
+        return [this.startRound(tick)];
+      case "freeze":
+        this.setPhase("live", tick, this.config.roundTimeMs);
+        return [];
+      case "live":
+        // Defenders hold out until the timer runs down
+        return this.endRound(tick, this.teamOnSide("defend"), "time");
+      case "round-end":
+        return this.afterRound(tick);
+    }
+  }
+
+  // Resolve the live round in favor of `winner`
+  endRound(tick: number, winner: TeamId, reason: RoundEndReason): GameEvent[] {
+    if (this.phase !== "live") return [];
+    this.score[winner]++;
+    this.roundWinner = winner;
+    this.roundEndReason = reason;
+    this.setPhase("round-end", tick, this.config.roundEndMs);
+    return [
+      {
+        type: "round-end",
+        round: this.round,
+        winner,
+        reason,
+        score: { ...this.score },
+      },
+    ];
+  }
+
+  // End the match at once because `team` has nobody left in it
+  forfeit(tick: number, team: TeamId): GameEvent[] {
+    if (this.phase === "match-end") return [];
+    this.forfeitedBy = team;
+    return this.endMatch(tick, otherTeam(team));
+  }
+
+  // The knife round was won by eliminating the other team
+  endKnifeRound(tick: number, winner: TeamId): GameEvent[] {
+    if (this.phase !== "knife-round") return [];
+    this.sidePicker = winner;
+    this.setPhase("side-pick", tick, this.config.sidePickMs);
+    return [{ type: "knife-round-end", winner }];
+  }
+
+  // The knife round winners start on `side`
+  chooseSide(tick: number, team: TeamId, side: Side): GameEvent[] {
+    if (this.phase !== "side-pick" || team !== this.sidePicker) return [];
+    this.sides = {
+      [team]: side,
+      [otherTeam(team)]: side === "attack" ? "defend" : "attack",
+    } as Record<TeamId, Side>;
+    this.sidePicker = null;
+    return [this.startRound(tick)];
+  }
+
+  private afterRound(tick: number): GameEvent[] {
+    const { maxRounds, overtimeRounds } = this.config;
+    const round = this.round;
+    const overtime = this.overtimeOf(round);
+
+    // Rounds and wins needed within the current period
+    const periodLength = overtime === 0 ? maxRounds : overtimeRounds;
+    const periodStart =
+      overtime === 0 ? 0 : maxRounds + (overtime - 1) * overtimeRounds;
+    const baseScore = periodStart / 2; // Both teams were level when it began
+    const winsNeeded = baseScore + periodLength / 2 + 1;
+
+    const leader = TEAMS.find((team) => this.score[team] >= winsNeeded);
+    if (leader) {
+      return this.endMatch(tick, leader);
+    }
+    if (round === periodStart + periodLength) {
+      // Period over and still level
+      if (!this.config.overtime) {
+        return this.endMatch(tick, "draw");
+      }
+      return [this.startRound(tick)];
+    }
+    if (round === periodStart + periodLength / 2) {
+      this.sides = {
+        alpha: this.sides.bravo,
+        bravo: this.sides.alpha,
+      };
+      this.setPhase("halftime", tick, this.config.halftimeMs);
+      return [{ type: "halftime", round, sides: { ...this.sides } }];
+    }
+    return [this.startRound(tick)];
+  }
+
+  private startRound(tick: number): GameEvent {
+    this.round++;
+    this.roundWinner = null;
+    this.roundEndReason = null;
+    this.roundTimerSuspended = false;
+    this.setPhase("freeze", tick, this.config.freezeTimeMs);
+    return {
+      type: "round-start",
+      round: this.round,
+      overtime: this.overtimeOf(this.round),
+      sides: { ...this.sides },
+    };
+  }
+
+  private endMatch(tick: number, winner: TeamId | "draw"): GameEvent[] {
+    this.matchWinner = winner;
+    this.setPhase("match-end", tick, 0);
+    return [
+      {
+        type: "match-end",
+        winner,
+        score: { ...this.score },
+        rounds: this.round,
+        forfeitedBy: this.forfeitedBy,
+      },
+    ];
+  }
+
+  private setPhase(phase: MatchPhase, tick: number, durationMs: number) {
+    this.phase = phase;
+    this.phaseEndsAtTick = tick + msToTicks(durationMs);
+  }
+}
@@ -0,0 +1,66 @@
+import { TICK_MS } from "./constants";
+import { Vector2 } from "./types";
+
+interface HistoryFrame {
+  tick: number;
+  positions: Map<string, Vector2>;
+}
+
+const msToTicks = (ms: number) => Math.ceil(ms / TICK_MS);
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Recent player positions for lag compensation. Clients render other
+// players slightly in the past, so a shot is judged against where its
+// targets were at the shooter's view time rather than where they are now.
+// Rewinding is capped at maxRewindMs so players with a huge ping can't
+// hit targets that have long since reached cover.
+export class PositionHistory {
+  private readonly maxRewindTicks: number;
+  private frames: HistoryFrame[] = [];
+
+  constructor(maxRewindMs: number) {
+    this.maxRewindTicks = msToTicks(maxRewindMs);
+  }
+
+  record(tick: number, positions: Map<string, Vector2>) {
+    this.frames.push({ tick, positions });
+    // Keep one frame beyond the window to interpolate from
+    while (this.frames.length > this.maxRewindTicks + 2) {
+      this.frames.shift();
+    }
+  }
+
+  // Forget everything, e.g. when players are teleported to their spawns
+  clear() {
+    this.frames = [];
+  }
+
+  // Clamp a client's view time into the window we can rewind to
+  rewindTime(viewTime: number | null, tick: number) {
+    const now = tick * TICK_MS;
+    if (viewTime === null) return now;
+    const earliest = (tick - this.maxRewindTicks) * TICK_MS;
+    return Math.min(now, Math.max(earliest, viewTime));
+  }
+
+  // Where a player was at `time`, interpolated between recorded ticks the
+  // same way clients interpolate snapshots. Null if we never saw them.
+  positionAt(playerId: string, time: number): Vector2 | null {
+    const tickTime = time / TICK_MS;
+    for (let i = this.frames.length - 1; i >= 0; i--) {
+      const frame = this.frames[i];
+      if (frame.tick > tickTime) continue;
+      const from = frame.positions.get(playerId);
+      const next = this.frames[i + 1];
+      const to = next?.positions.get(playerId);
+      if (!from) return to ? { ...to } : null;
+      if (!next || !to) return { ...from };
+      const t = (tickTime - frame.tick) / (next.tick - frame.tick);
+      return { x: lerp(from.x, to.x, t), y: lerp(from.y, to.y, t) };
+    }
+    // Older than anything recorded: use the oldest frame we have
+    const oldest = this.frames[0]?.positions.get(playerId);
+    return oldest ? { ...oldest } : null;
+  }
+}
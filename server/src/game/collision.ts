@@ -0,0 +1,31 @@
+import { tileAt } from "shared";
+import { MapDefinition, Side, TILE } from "../maps/types";
+import { Vector2 } from "./types";
+
+// Collision and raycasts are shared with client prediction and rendering
+export {
+  blocks,
+  circleCollides,
+  mapWorldSize,
+  raycastTiles,
+  tileAt,
+} from "shared";
+export type { BlockKind } from "shared";
+
+// Centers of every open tile in a side's spawn zones, in a stable order
+export const spawnPoints = (map: MapDefinition, side: Side): Vector2[] => {
+  const points: Vector2[] = [];
+  map.spawns[side].forEach((zone) => {
+    for (let ty = zone.y; ty < zone.y + zone.height; ty++) {
+      for (let tx = zone.x; tx < zone.x + zone.width; tx++) {
+        if (tileAt(map, tx, ty) === TILE.floor) {
+          points.push({
+            x: (tx + 0.5) * map.tileSize,
+            y: (ty + 0.5) * map.tileSize,
+          });
+        }
+      }
+    }
+  });
+  return points;
+};
@@ -0,0 +1,41 @@
+import { MatchConfig } from "./types";
+
+// Tunables for the match simulation. Distances are in world units,
+// speeds in units per second and durations in milliseconds. The ones the
+// client predicts and renders with live in the shared package.
+
+export {
+  MAX_HEALTH,
+  PLAYER_RADIUS,
+  PLAYER_SPEED,
+  TICK_MS,
+  TICK_RATE,
+  VISION_FOV,
+  VISION_NEAR_RADIUS,
+  VISION_RANGE,
+} from "shared";
+
+export const TRACER_LIFETIME_MS = 150; // How long shots stay in snapshots
+
+export const PLANT_TIME_MS = 3000;
+export const DEFUSE_TIME_MS = 10000;
+export const DEFUSE_KIT_TIME_MS = 5000;
+export const BOMB_TIMER_MS = 40000; // From plant to detonation
+export const DEFUSE_RADIUS = 48; // How close a defender must stand
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  maxRounds: 12, // First to 7 wins
+  warmupMs: 15000,
+  freezeTimeMs: 5000,
+  roundTimeMs: 115000,
+  roundEndMs: 5000,
+  halftimeMs: 10000,
+  overtime: true,
+  overtimeRounds: 6, // First to 4 within an overtime period
+  maxRewindMs: 250,
+  friendlyFire: true,
+  attackFirst: "alpha",
+  knifeRound: false,
+  knifeRoundMs: 60000,
+  sidePickMs: 15000,
+};
@@ -0,0 +1,27 @@
+import { RoundEndReason } from "./types";
+
+// Money rules, loosely following the classic tactical shooter economy
+
+export const START_MONEY = 800;
+export const OVERTIME_MONEY = 10000;
+export const MAX_MONEY = 16000;
+
+export const ROUND_WIN_REWARD: Record<RoundEndReason, number> = {
+  elimination: 3250,
+  time: 3250,
+  detonated: 3500,
+  defused: 3500,
+};
+
+// Personal bonus for completing the objective
+export const PLANT_REWARD = 300;
+export const DEFUSE_REWARD = 300;
+
+// Paid to the losing team, growing with consecutive losses
+export const LOSS_BONUS = [1400, 1900, 2400, 2900, 3400];
+
+export const lossBonus = (lossStreak: number) =>
+  LOSS_BONUS[Math.min(Math.max(lossStreak, 1), LOSS_BONUS.length) - 1];
+
+export const addMoney = (balance: number, amount: number) =>
+  Math.min(MAX_MONEY, balance + amount);
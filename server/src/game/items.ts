@@ -0,0 +1,112 @@
+import type { ItemDefinition, ItemId, WeaponId, WeaponStats } from "shared";
+
+// Everything that can be bought in the buy menu
+
+export type {
+  ItemCategory,
+  ItemDefinition,
+  ItemId,
+  WeaponId,
+  WeaponStats,
+} from "shared";
+
+export { MAX_ARMOR } from "shared"; // The client's buy menu checks it too
+
+export const DEFAULT_WEAPON: WeaponId = "pistol";
+
+// Only handed out for the knife round, never for sale
+const KNIFE_STATS: WeaponStats = {
+  damage: 50,
+  cooldownMs: 400,
+  range: 48,
+  armorPenetration: 0.85,
+  killReward: 0,
+};
+
+export const ITEM_CATALOG: Record<ItemId, ItemDefinition> = {
+  pistol: {
+    id: "pistol",
+    name: "Pistol",
+    category: "weapon",
+    price: 200,
+    weapon: {
+      damage: 25,
+      cooldownMs: 300,
+      range: 1200,
+      armorPenetration: 0.5,
+      killReward: 300,
+    },
+  },
+  smg: {
+    id: "smg",
+    name: "SMG",
+    category: "weapon",
+    price: 1250,
+    weapon: {
+      damage: 22,
+      cooldownMs: 100,
+      range: 900,
+      armorPenetration: 0.6,
+      killReward: 600,
+    },
+  },
+  shotgun: {
+    id: "shotgun",
+    name: "Shotgun",
+    category: "weapon",
+    price: 1100,
+    weapon: {
+      damage: 80,
+      cooldownMs: 900,
+      range: 350,
+      armorPenetration: 0.75,
+      killReward: 900,
+    },
+  },
+  rifle: {
+    id: "rifle",
+    name: "Rifle",
+    category: "weapon",
+    price: 2700,
+    weapon: {
+      damage: 34,
+      cooldownMs: 110,
+      range: 2000,
+      armorPenetration: 0.75,
+      killReward: 300,
+    },
+  },
+  sniper: {
+    id: "sniper",
+    name: "Sniper Rifle",
+    category: "weapon",
+    price: 4750,
+    weapon: {
+      damage: 115,
+      cooldownMs: 1500,
+      range: 3000,
+      armorPenetration: 0.95,
+      killReward: 100,
+    },
+  },
+  armor: {
+    id: "armor",
+    name: "Kevlar Vest",
+    category: "armor",
+    price: 650,
+  },
+  "defuse-kit": {
+    id: "defuse-kit",
+    name: "Defuse Kit",
+    category: "utility",
+    price: 400,
+    side: "defend",
+  },
+};
+
+export const isItemId = (value: unknown): value is ItemId =>
+  typeof value === "string" &&
+  Object.prototype.hasOwnProperty.call(ITEM_CATALOG, value);
+
+export const weaponStats = (weapon: WeaponId): WeaponStats =>
+  weapon === "knife" ? KNIFE_STATS : ITEM_CATALOG[weapon].weapon!;
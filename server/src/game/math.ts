@@ -0,0 +1,28 @@
+import { Vector2 } from "./types";
+
+export const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export const distance = (a: Vector2, b: Vector2) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+// Distance along a ray (origin + t * dir, dir normalized) to the first
+// intersection with a circle, or null if the ray misses it.
+export const rayCircleIntersection = (
+  origin: Vector2,
+  dir: Vector2,
+  center: Vector2,
+  radius: number
+): number | null => {
+  const ox = origin.x - center.x;
+  const oy = origin.y - center.y;
+  const b = ox * dir.x + oy * dir.y;
+  const c = ox * ox + oy * oy - radius * radius;
+  const discriminant = b * b - c;
+  if (discriminant < 0) return null;
+  const sqrt = Math.sqrt(discriminant);
+  const t = -b - sqrt;
+  if (t >= 0) return t;
+  // Origin is inside the circle
+  return -b + sqrt >= 0 ? 0 : null;
+};
@@ -0,0 +1,37 @@
+// Shared shapes for the authoritative match simulation
+
+import type { TeamId } from "shared";
+
+// Also sent over the wire, so they live in the shared package
+export type {
+  BombState,
+  BombStatus,
+  BuyResult,
+  GameEvent,
+  GameSnapshot,
+  MatchPhase,
+  MatchState,
+  PlayerInput,
+  PlayerState,
+  RoundEndReason,
+  TeamId,
+  Tracer,
+  Vector2,
+} from "shared";
+
+export interface MatchConfig {
+  maxRounds: number; // Regulation rounds, must be even
+  warmupMs: number;
+  freezeTimeMs: number;
+  roundTimeMs: number;
+  roundEndMs: number;
+  halftimeMs: number;
+  overtime: boolean; // Play overtime on a tie instead of ending in a draw
+  overtimeRounds: number; // Rounds per overtime period, must be even
+  maxRewindMs: number; // How far back lag compensation may judge shots
+  friendlyFire: boolean; // Whether shots can hurt teammates
+  attackFirst: TeamId; // Team that starts on attack
+  knifeRound: boolean; // Play a knife round after warmup to pick sides
+  knifeRoundMs: number;
+  sidePickMs: number; // How long the knife round winners get to choose
+}
@@ -0,0 +1,62 @@
+import { MapDefinition } from "../maps/types";
+import { raycastTiles } from "./collision";
+import {
+  PLAYER_RADIUS,
+  VISION_FOV,
+  VISION_NEAR_RADIUS,
+  VISION_RANGE,
+} from "./constants";
+import { Vector2 } from "./types";
+
+// Smallest difference between two angles, in [0, PI]
+const angleBetween = (a: number, b: number) => {
+  const delta = Math.abs(a - b) % (Math.PI * 2);
+  return delta > Math.PI ? Math.PI * 2 - delta : delta;
+};
+
+// Whether a single point is inside the vision shape and not hidden by
+// walls. The shape is a cone in the aim direction plus a small circle
+// around the viewer so enemies right behind them aren't invisible.
+const seesPoint = (
+  map: MapDefinition,
+  origin: Vector2,
+  aim: number,
+  point: Vector2
+) => {
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return true;
+  if (length > VISION_RANGE) return false;
+  if (
+    length > VISION_NEAR_RADIUS &&
+    angleBetween(Math.atan2(dy, dx), aim) > VISION_FOV / 2
+  ) {
+    return false;
+  }
+  const dir = { x: dx / length, y: dy / length };
+  return raycastTiles(map, origin, dir, length, "vision") >= length;
+};
+
+// Whether a viewer can see any part of a player standing at `target`.
+// Besides the center we test both sides of the body so players peeking
+// round a corner show up as soon as their edge is exposed.
+export const canSeePlayer = (
+  map: MapDefinition,
+  origin: Vector2,
+  aim: number,
+  target: Vector2
+): boolean => {
+  const dx = target.x - origin.x;
+  const dy = target.y - origin.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const side = {
+    x: (-dy / length) * PLAYER_RADIUS,
+    y: (dx / length) * PLAYER_RADIUS,
+  };
+  return [
+    target,
+    { x: target.x + side.x, y: target.y + side.y },
+    { x: target.x - side.x, y: target.y - side.y },
+  ].some((point) => seesPoint(map, origin, aim, point));
+};
@@ -1,8 +1,83 @@
 import express, { Express } from "express";
 import http from "http";
-import { Server, Socket } from "socket.io"; // Import Socket type
+import { DefaultEventsMap, Server, Socket } from "socket.io"; // Import Socket type
 import cors from "cors"; // Import cors
 import { v4 as uuidv4 } from "uuid"; // For generating room codes
+import { MatchEngine, sanitizeInput } from "./game/MatchEngine";
+import { TEAMS } from "./game/MatchFlow";
+import { BuyResult, GameEvent, TeamId } from "./game/types";
+import { ITEM_CATALOG, ItemId } from "./game/items";
+import { getMap, listMaps } from "./maps";
+import { Side } from "./maps/types";
+import { SnapshotChannel } from "./net/SnapshotChannel";
+import { BandwidthCounter } from "./net/BandwidthCounter";
+import { isEventName, validateEventArgs } from "./net/eventSchemas";
+import { RateLimiter } from "./net/RateLimiter";
+import { failure } from "./net/errors";
+import {
+  RoomSettings,
+  matchConfigFor,
+  roomCapacity,
+  validateRoomSettings,
+} from "./rooms/settings";
+import { assignSeat, balanceTeams, openSlot } from "./rooms/teams";
+import {
+  CHAT_HISTORY_LIMIT,
+  ChatLine,
+  canReadChat,
+  describeMatchEvent,
+  isOpenLine,
+  systemLine,
+  validateChatText,
+} from "./rooms/chat";
+import { createStorage } from "./storage";
+import {
+  ACCEPT_TIMEOUT_MS,
+  MatchmakingEvent,
+  MatchmakingQueue,
+  PendingMatch,
+} from "./matchmaking/MatchmakingQueue";
+import { RatedPlayer, RatingBook } from "./matchmaking/ratings";
+import {
+  LobbyQuery,
+  LobbySummary,
+  matchesLobbyQuery,
+  queryLobbies,
+  sameLobbySummary,
+  validateLobbyQuery,
+} from "./rooms/lobbyList";
+import {
+  createInviteToken,
+  hashPassword,
+  validateRoomPassword,
+  verifyPassword,
+} from "./rooms/access";
+import { AuthIdentity, TokenSigner } from "./auth/tokens";
+import { createAuthRouter } from "./auth/routes";
+import type {
+  Ack,
+  ChatHistoryResponse,
+  ChatMessage,
+  ChatMessageInput,
+  ClientToServerEvents,
+  ErrorResponse,
+  FindMatchResponse,
+  ItemCatalogResponse,
+  JoinAccess,
+  LobbyPageResponse,
+  MapListResponse,
+  MapResponse,
+  MatchDetailsResponse,
+  ProfileResponse,
+  RatingResponse,
+  ResumeResponse,
+  Room,
+  RoomSettingsInput,
+  RoomStatus,
+  ServerToClientEvents,
+  SessionResponse,
+  User,
+} from "shared";
 
 const app: Express = express();
 
@@ -16,8 +91,26 @@ app.use(
 
 const server = http.createServer(app);
 
-// Initialize Socket.IO server with CORS options
-const io = new Server(server, {
+// Set on every socket by the handshake middleware
+interface SocketData {
+  identity: AuthIdentity;
+}
+
+type GameSocket = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  SocketData
+>;
+
+// Initialize Socket.IO server with CORS options. The event maps come from
+// the shared package, like the client's.
+const io = new Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  SocketData
+>(server, {
   cors: {
     origin: "http://localhost:5173",
     methods: ["GET", "POST"],
@@ -26,21 +119,46 @@ const io = new Server(server, {
 
 const PORT: string | number = process.env.PORT || 3001;
 
-interface User {
-  id: string;
-  username: string;
-  ready: boolean; // Added ready status
+// Private to the player's client; never part of a broadcast room object
+interface Session {
+  token: string;
+  userId: string;
+  roomId: string;
+  socketId: string | null; // Null while disconnected
+  graceTimer: NodeJS.Timeout | null; // Frees the seat when it fires
 }
 
-interface Room {
+// What gets written to storage once a match is over
+interface MatchInProgress {
   id: string;
-  users: User[];
-  // Add game state later
+  startedAt: number; // Epoch ms
+  ranked: boolean;
+  players: RatedPlayer[]; // Everyone who started; leavers still win or lose
 }
 
 // In-memory storage for rooms and users
 const rooms: Map<string, Room> = new Map();
 const users: Map<string, User> = new Map(); // Maps socket ID to User info
+const sessions: Map<string, Session> = new Map(); // Maps session token to Session
+const roomPasswords: Map<string, string> = new Map(); // Maps room ID to its password hash
+const lobbySubscribers: Map<string, LobbyQuery> = new Map(); // Maps socket ID to the lobby page it is browsing
+let listedLobbies: Map<string, LobbySummary> = new Map(); // What subscribers were last told about, by room ID
+const matchmaking = new MatchmakingQueue();
+const storage = createStorage(); // Profiles, ratings, match history and chat
+const ratingBook = new RatingBook(storage);
+const tokenSigner = new TokenSigner(process.env.AUTH_SECRET);
+const rateLimiter = new RateLimiter(); // Flood protection for socket events
+const matchesInProgress: Map<string, MatchInProgress> = new Map(); // Maps room ID to its running match's record
+const matches: Map<string, MatchEngine> = new Map(); // Maps room ID to its running match
+const snapshotChannels: Map<string, SnapshotChannel> = new Map(); // Maps user ID to its delta state
+const startCountdowns: Map<string, NodeJS.Timeout> = new Map(); // Maps room ID to its pending match start
+
+const BANDWIDTH_LOG_INTERVAL_MS = 10000;
+const RECONNECT_GRACE_MS = 30000; // How long a disconnected player's seat is held
+const MATCHMAKING_INTERVAL_MS = 1000; // How often the queue looks for matches
+const START_COUNTDOWN_MS = 3000; // Time to back out once everyone is ready
+const RATE_LIMIT_PRUNE_INTERVAL_MS = 60000; // How often idle limiter state is dropped
+const PROFILE_MATCH_LIMIT = 20; // Matches listed on a player's profile
 
 // Helper function to emit room updates
 const emitRoomUpdate = (roomId: string) => {
@@ -50,220 +168,1452 @@ const emitRoomUpdate = (roomId: string) => {
   }
 };
 
-io.on("connection", (socket: Socket) => {
-  console.log("a user connected:", socket.id);
+// A room as shown in the lobby browser
+const lobbySummary = (room: Room): LobbySummary => ({
+  id: room.id,
+  status: room.status,
+  playerCount: room.users.length,
+  maxPlayers: roomCapacity(room.settings),
+  mapId: room.settings.mapId,
+  teamSize: room.settings.teamSize,
+  sidePick: room.settings.sidePick,
+  hasPassword: room.hasPassword,
+  region: room.settings.region,
+  hostName: room.users.find((u) => u.id === room.hostId)?.username ?? "",
+  createdAt: room.createdAt,
+});
+
+// Public rooms with a free seat that aren't starting or in a match
+const listedRooms = () =>
+  [...rooms.values()].filter(
+    (room) => isJoinable(room) && !room.settings.private
+  );
+
+// Tell lobby browsers what changed since the last call: rooms that appeared
+// in, changed within or dropped out of their filtered view. Cheap when
+// nothing changed, so call it after anything that might touch the list.
+const publishLobbyChanges = () => {
+  const previous = listedLobbies;
+  listedLobbies = new Map(
+    listedRooms().map((room) => [room.id, lobbySummary(room)])
+  );
+  const changes: [LobbySummary | undefined, LobbySummary | undefined][] = [];
+  for (const [id, lobby] of listedLobbies) {
+    const before = previous.get(id);
+    if (!before || !sameLobbySummary(before, lobby)) {
+      changes.push([before, lobby]);
+    }
+  }
+  for (const [id, before] of previous) {
+    if (!listedLobbies.has(id)) changes.push([before, undefined]);
+  }
+  if (changes.length === 0) return;
+
+  for (const [socketId, query] of lobbySubscribers) {
+    const subscriber = io.sockets.sockets.get(socketId);
+    if (!subscriber) {
+      lobbySubscribers.delete(socketId);
+      continue;
+    }
+    for (const [before, after] of changes) {
+      const wasShown = before !== undefined && matchesLobbyQuery(before, query);
+      const isShown = after !== undefined && matchesLobbyQuery(after, query);
+      if (isShown && wasShown) subscriber.emit("lobby-updated", after);
+      else if (isShown) subscriber.emit("lobby-added", after);
+      else if (wasShown) subscriber.emit("lobby-removed", before.id);
+    }
+  }
+};
+
+// Helper function to find the room a user is currently in
+const findRoomByUser = (userId: string): Room | undefined => {
+  for (const room of rooms.values()) {
+    if (room.users.some((u) => u.id === userId)) {
+      return room;
+    }
+  }
+  return undefined;
+};
+
+const setRoomStatus = (room: Room, status: RoomStatus) => {
+  if (room.status === status) return;
+  console.log(
+    `[Server Log] Room ${room.id} status: ${room.status} -> ${status}`
+  );
+  room.status = status;
+};
+
+// Status of a room waiting in its lobby, based on how many seats are taken
+const lobbyStatus = (room: Room): RoomStatus =>
+  room.users.length >= roomCapacity(room.settings) ? "full" : "open";
+
+// Settle a room that is back in its lobby (e.g. after a match finished)
+// on open or full; starting and in-game rooms are left alone
+const refreshRoomStatus = (room: Room) => {
+  if (
+    room.status === "open" ||
+    room.status === "full" ||
+    room.status === "finished"
+  ) {
+    setRoomStatus(room, lobbyStatus(room));
+  }
+};
+
+// Rooms that new players may join
+const isJoinable = (room: Room) =>
+  !room.locked &&
+  (room.status === "open" || room.status === "finished") &&
+  room.users.length < roomCapacity(room.settings);
+
+// Everyone is ready: count down, then start the match
+const beginStart = (room: Room) => {
+  if (startCountdowns.has(room.id)) return;
+  setRoomStatus(room, "starting");
+  console.log(
+    `[Server Log] All players ready in room ${room.id}. Starting in ${START_COUNTDOWN_MS} ms...`
+  );
+  startCountdowns.set(
+    room.id,
+    setTimeout(() => {
+      startCountdowns.delete(room.id);
+      startMatch(room);
+      if (matches.has(room.id)) {
+        io.to(room.id).emit("start-game", room); // Send final room state with start signal
+      }
+      emitRoomUpdate(room.id);
+      publishLobbyChanges();
+    }, START_COUNTDOWN_MS)
+  );
+  publishLobbyChanges();
+};
+
+// Someone unreadied or left during the countdown. A ranked match is called
+// off then, and the room carries on as a casual one with a host.
+const cancelStart = (room: Room) => {
+  const countdown = startCountdowns.get(room.id);
+  if (!countdown) return;
+  clearTimeout(countdown);
+  startCountdowns.delete(room.id);
+  if (room.ranked) {
+    room.ranked = false;
+    migrateHost(room);
+    console.log(`[Server Log] Ranked match in room ${room.id} called off.`);
+  }
+  setRoomStatus(room, lobbyStatus(room));
+  console.log(`[Server Log] Match start in room ${room.id} cancelled.`);
+  publishLobbyChanges();
+};
+
+// Teams can be rearranged until everyone is ready. Matchmaking deals out
+// ranked teams, so those stay as they are.
+const canChangeTeams = (room: Room) =>
+  !room.ranked &&
+  (room.status === "open" ||
+    room.status === "full" ||
+    room.status === "finished");
+
+// Host controls are off in ranked rooms, which have no host anyway
+const isHost = (room: Room, user: User) =>
+  !room.ranked && room.hostId === user.id;
+
+// Drop swap requests from or to a user, e.g. once they changed teams
+const clearSwapRequests = (room: Room, userId: string) => {
+  room.swapRequests = room.swapRequests.filter(
+    (r) => r.fromId !== userId && r.toId !== userId
+  );
+};
+
+const isBanned = (room: Room, username: string) =>
+  room.bannedUsernames.includes(username.trim().toLowerCase());
+
+// An invite link gets past the password; a private room without a
+// password can only be joined through one
+const checkAccess = async (
+  room: Room,
+  access: JoinAccess
+): Promise<{ allowed: true } | { allowed: false; error: ErrorResponse }> => {
+  if (access.inviteToken) {
+    return access.inviteToken === room.inviteToken
+      ? { allowed: true }
+      : {
+          allowed: false,
+          error: failure(
+            "invite-expired",
+            "This invite link is no longer valid."
+          ),
+        };
+  }
+  const hash = roomPasswords.get(room.id);
+  if (hash) {
+    if (!access.password) {
+      return {
+        allowed: false,
+        error: failure("password-required", "This room needs a password."),
+      };
+    }
+    return (await verifyPassword(access.password, hash))
+      ? { allowed: true }
+      : {
+          allowed: false,
+          error: failure("wrong-password", "Incorrect room password."),
+        };
+  }
+  if (room.settings.private) {
+    return {
+      allowed: false,
+      error: failure(
+        "invite-only",
+        "This room is private. Ask the host for an invite link."
+      ),
+    };
+  }
+  return { allowed: true };
+};
+
+// Hand the host role to the longest-present connected player if the host
+// is gone or offline. Returns whether the host changed. Ranked rooms get no
+// host until their match is over or called off.
+const migrateHost = (room: Room) => {
+  if (room.ranked) return false;
+  const host = room.users.find((u) => u.id === room.hostId);
+  if (host?.connected) return false;
+  const successor = room.users.find((u) => u.connected);
+  if (!successor) return false;
+  room.hostId = successor.id;
+  console.log(
+    `[Server Log] Host of room ${room.id} migrated to ${successor.username}`
+  );
+  return true;
+};
+
+// Issue the token a client uses to get its seat back after a reconnect
+const createSession = (socket: GameSocket, user: User, roomId: string) => {
+  const session: Session = {
+    token: uuidv4(),
+    userId: user.id,
+    roomId,
+    socketId: socket.id,
+    graceTimer: null,
+  };
+  sessions.set(session.token, session);
+  socket.join(user.id); // Personal channel, e.g. for per-player snapshots
+  return session;
+};
+
+const findSessionByUser = (userId: string): Session | undefined => {
+  for (const session of sessions.values()) {
+    if (session.userId === userId) {
+      return session;
+    }
+  }
+  return undefined;
+};
+
+// Whether a player is dead in their room's running match; their chat
+// may be restricted to other dead players
+const isDeadInMatch = (room: Room, user: User) => {
+  const match = matches.get(room.id);
+  return !!match?.hasPlayer(user.id) && !match.isAlive(user.id);
+};
+
+// Send a chat line to everyone in the room allowed to read it, and keep it
+// for replaying later
+const postChat = (room: Room, line: ChatLine) => {
+  const { deadOnly, ...message } = line; // deadOnly stays on the server
+  const readers = room.users.filter((u) =>
+    canReadChat(line, { team: u.team, dead: isDeadInMatch(room, u) })
+  );
+  readers.forEach((u) => io.to(u.id).emit("new-message", message));
+  storage.saveChatMessage({
+    roomInstanceId: room.instanceId,
+    readerIds: isOpenLine(line) ? null : readers.map((u) => u.id),
+    ...line,
+  });
+};
+
+// Take a user out of their room for good. notice is the chat line the rest
+// of the room sees.
+const removeUserFromRoom = (
+  user: User,
+  room: Room,
+  notice = `${user.username} left the room.`
+) => {
+  const userIndex = room.users.indexOf(user);
+  if (userIndex === -1) return;
+  room.users.splice(userIndex, 1);
+  clearSwapRequests(room, user.id);
+  migrateHost(room);
+  console.log(
+    `[Server Log] User ${user.username} removed from room ${room.id}`
+  );
+  // Leaving a running match abandons it; if that empties the player's
+  // team, the match engine ends it as a forfeit
+  const match = matches.get(room.id);
+  if (match?.hasPlayer(user.id)) {
+    console.log(
+      `[Server Log] User ${user.username} abandoned the match in room ${room.id}`
+    );
+    match.removePlayer(user.id);
+  }
+  cancelStart(room);
+  snapshotChannels.delete(user.id);
+  const session = findSessionByUser(user.id);
+  if (session) {
+    if (session.graceTimer) clearTimeout(session.graceTimer);
+    sessions.delete(session.token);
+  }
+
+  if (room.users.length === 0) {
+    stopMatch(room.id);
+    setRoomStatus(room, "closed");
+    rooms.delete(room.id);
+    roomPasswords.delete(room.id);
+    console.log(`[Server Log] Room ${room.id} deleted as it became empty.`);
+  } else {
+    refreshRoomStatus(room);
+    postChat(room, systemLine(notice, Date.now()));
+    console.log(
+      `[Server Log] Emitting room-update to room ${room.id} (remaining users: ${room.users.length})`
+    );
+    emitRoomUpdate(room.id);
+  }
+  publishLobbyChanges();
+};
+
+// Create the authoritative simulation for a room and start broadcasting it
+const startMatch = (room: Room) => {
+  stopMatch(room.id); // Never run two loops for the same room
+  const map = getMap(room.settings.mapId);
+  if (!map) {
+    console.error(
+      `[Server Log] Cannot start match in room ${room.id}: unknown map ${room.settings.mapId}`
+    );
+    room.users.forEach((u) => (u.ready = false));
+    setRoomStatus(room, lobbyStatus(room));
+    return;
+  }
+  const config = matchConfigFor(room.settings);
+  console.log(
+    `[Server Log] Coin flip in room ${room.id}: ${config.attackFirst} starts on attack`
+  );
+  const match = new MatchEngine(
+    room.id,
+    map,
+    room.users.map((u) => ({ id: u.id, username: u.username, team: u.team })),
+    config
+  );
+  matches.set(room.id, match);
+  setRoomStatus(room, "in-game");
+  matchesInProgress.set(room.id, {
+    id: uuidv4(),
+    startedAt: Date.now(),
+    ranked: room.ranked,
+    players: room.users.map((u) => ({ username: u.username, team: u.team })),
+  });
+  // Ticks restart with every match, so old baselines are meaningless
+  room.users.forEach((u) => snapshotChannels.set(u.id, new SnapshotChannel()));
+  const bandwidth = new BandwidthCounter();
+  match.start((snapshots, events) => {
+    const measureJson = bandwidth.startTick();
+    // Every player gets their own fog-of-war filtered view, encoded as a
+    // binary delta against the last snapshot they acknowledged
+    snapshots.forEach((snapshot, playerId) => {
+      let channel = snapshotChannels.get(playerId);
+      if (!channel) {
+        channel = new SnapshotChannel();
+        snapshotChannels.set(playerId, channel);
+      }
+      const { data, full } = channel.encode(snapshot);
+      io.to(playerId).emit("snapshot", data);
+      bandwidth.record(data.byteLength, full);
+      if (measureJson) {
+        bandwidth.recordJson(Buffer.byteLength(JSON.stringify(snapshot)));
+      }
+    });
+    if (bandwidth.elapsedMs >= BANDWIDTH_LOG_INTERVAL_MS) {
+      const sample = bandwidth.takeSample();
+      console.log(
+        `[Server Log] Snapshot bandwidth for room ${room.id}: ${sample.binaryPerSecond} B/s binary vs ${sample.jsonPerSecond} B/s JSON (${sample.fullSnapshots} full snapshots)`
+      );
+    }
+    events.forEach((event) => {
+      // Sent under its own type as the event name. TypeScript can't pair
+      // the union's names with its payloads, hence the cast.
+      io.to(room.id).emit(event.type, event as never);
+      recordMatchEvent(room, event);
+      const notice = describeMatchEvent(
+        event,
+        (playerId) =>
+          room.users.find((u) => u.id === playerId)?.username ?? "A player"
+      );
+      if (notice) postChat(room, systemLine(notice, Date.now()));
+    });
+    if (match.isFinished) {
+      finishMatch(room);
+    }
+  });
+  console.log(`[Server Log] Match loop started for room ${room.id}`);
+};
+
+// Match reached match-end: stop simulating and send players back to the room
+const finishMatch = (room: Room) => {
+  const winner = matches.get(room.id)?.winner;
+  const played = matchesInProgress.get(room.id);
+  stopMatch(room.id);
+  room.users.forEach((u) => (u.ready = false));
+  setRoomStatus(room, "finished");
+  console.log(`[Server Log] Match in room ${room.id} finished.`);
+  if (played?.ranked && winner) {
+    recordRankedResult(room, played.players, winner);
+  }
+  emitRoomUpdate(room.id);
+  publishLobbyChanges();
+};
+
+// Keep finished rounds and matches in the history
+const recordMatchEvent = (room: Room, event: GameEvent) => {
+  const played = matchesInProgress.get(room.id);
+  if (!played) return;
+  if (event.type === "round-end") {
+    storage.saveRound({
+      matchId: played.id,
+      round: event.round,
+      winner: event.winner,
+      reason: event.reason,
+      endedAt: Date.now(),
+    });
+  } else if (event.type === "match-end") {
+    storage.saveMatch({
+      id: played.id,
+      roomId: room.id,
+      mapId: room.settings.mapId,
+      ranked: played.ranked,
+      startedAt: played.startedAt,
+      endedAt: Date.now(),
+      winner: event.winner,
+      forfeitedBy: event.forfeitedBy,
+      score: event.score,
+      players: played.players,
+    });
+  }
+};
+
+// Update ratings from a ranked match and tell everyone still around
+const recordRankedResult = (
+  room: Room,
+  roster: RatedPlayer[],
+  winner: TeamId | "draw"
+) => {
+  room.ranked = false; // Rematches in the same room are casual
+  migrateHost(room);
+  const changes = ratingBook.recordMatch(roster, winner);
+  changes.forEach((change) => {
+    console.log(
+      `[Server Log] Rating of ${change.username}: ${change.before} -> ${change.after}`
+    );
+    const user = room.users.find((u) => u.username === change.username);
+    if (user) {
+      io.to(user.id).emit("rating-updated", {
+        ...change,
+        rating: ratingBook.get(change.username),
+      });
+    }
+  });
+};
+
+const stopMatch = (roomId: string) => {
+  matchesInProgress.delete(roomId);
+  const match = matches.get(roomId);
+  if (match) {
+    match.stop();
+    matches.delete(roomId);
+    console.log(`[Server Log] Match loop stopped for room ${roomId}`);
+  }
+};
+
+// --- Matchmaking ---
+// Seat a confirmed match in a fresh room and start it right away. Teams are
+// dealt out by rating (1st and 4th to one team, 2nd and 3rd to the other,
+// and so on) to keep their averages close.
+const createRankedRoom = (pending: PendingMatch) => {
+  const result = validateRoomSettings({
+    teamSize: pending.teamSize,
+    private: true,
+  });
+  if (!result.valid) return; // Defaults plus a checked team size always pass
+  const roomId = uuidv4().substring(0, 6).toUpperCase();
+  const ranked = [...pending.tickets].sort((a, b) => b.rating - a.rating);
+  const room: Room = {
+    id: roomId,
+    instanceId: uuidv4(),
+    status: "full",
+    users: [],
+    settings: result.settings,
+    swapRequests: [],
+    hostId: "",
+    locked: true, // Nobody else gets in
+    bannedUsernames: [],
+    hasPassword: false,
+    inviteToken: createInviteToken(),
+    createdAt: Date.now(),
+    ranked: true,
+  };
+  rooms.set(roomId, room);
+
+  ranked.forEach((ticket, i) => {
+    // Disconnecting declines, so this only misses a socket that vanished
+    // within the last step
+    const socket = io.sockets.sockets.get(ticket.socketId);
+    if (!socket) return;
+    const team: TeamId = i % 4 === 0 || i % 4 === 3 ? "alpha" : "bravo";
+    const slot = openSlot(room.users, team, room.settings.teamSize) ?? 0;
+    const user: User = {
+      id: uuidv4(),
+      username: ticket.username,
+      ready: true,
+      connected: true,
+      team,
+      slot,
+    };
+    room.users.push(user);
+    users.set(socket.id, user);
+    socket.join(roomId);
+    const session = createSession(socket, user, roomId);
+    socket.emit("match-ready", {
+      roomId,
+      userId: user.id,
+      sessionToken: session.token,
+    });
+  });
+  if (room.users.length === 0) {
+    rooms.delete(roomId);
+    return;
+  }
+  console.log(
+    `[Server Log] Ranked room ${roomId} created for ${ranked
+      .map((t) => `${t.username} (${t.rating})`)
+      .join(", ")}`
+  );
+  beginStart(room);
+  emitRoomUpdate(roomId);
+};
+
+const handleMatchmakingEvents = (events: MatchmakingEvent[]) => {
+  events.forEach((event) => {
+    const { match } = event;
+    if (event.type === "match-found") {
+      console.log(
+        `[Server Log] Match found for ${match.tickets
+          .map((t) => t.username)
+          .join(", ")}`
+      );
+      match.tickets.forEach((t) =>
+        io.to(t.socketId).emit("match-found", {
+          matchId: match.id,
+          players: match.tickets.length,
+          acceptTimeoutMs: ACCEPT_TIMEOUT_MS,
+        })
+      );
+    } else if (event.type === "match-confirmed") {
+      createRankedRoom(match);
+    } else {
+      match.tickets.forEach((t) => {
+        const dropped = event.dropped.includes(t);
+        io.to(t.socketId).emit("match-cancelled", {
+          matchId: match.id,
+          requeued: !dropped,
+        });
+      });
+    }
+  });
+};
+
+setInterval(
+  () => handleMatchmakingEvents(matchmaking.step(Date.now())),
+  MATCHMAKING_INTERVAL_MS
+);
+
+setInterval(() => rateLimiter.prune(Date.now()), RATE_LIMIT_PRUNE_INTERVAL_MS);
 
-  // Handle username setting (can be part of create/join or separate)
-  // For now, assume username is passed with create/join
+// How often rate limits were hit, for spotting abuse (and limits set too low)
+app.get("/metrics/rate-limits", (_req, res) => {
+  res.json(rateLimiter.metrics(Date.now()));
+});
+
+// --- Authentication ---
+// Register, log in or play as a guest over REST to get a signed token
+app.use("/auth", createAuthRouter(storage, tokenSigner, rateLimiter));
+
+// Every socket must present a token from /auth in its handshake; its
+// identity is taken from there, never from event payloads
+io.use((socket, next) => {
+  const identity = tokenSigner.verify(socket.handshake.auth?.token, Date.now());
+  if (!identity) {
+    return next(new Error("Unauthorized"));
+  }
+  // Checked last, so a connection that gets this far is really opened
+  const ip = socket.handshake.address;
+  const admission = rateLimiter.connect(
+    socket.id,
+    ip,
+    identity.username,
+    Date.now()
+  );
+  if (!admission.allowed) {
+    console.log(
+      `[Server Log] Refused connection from ${ip}: ${admission.reason}`
+    );
+    return next(new Error(admission.reason));
+  }
+  socket.data.identity = identity;
+  if (!identity.guest) {
+    storage.touchProfile(identity.username, Date.now());
+  }
+  next();
+});
+
+io.on("connection", (socket: GameSocket) => {
+  const identity: AuthIdentity = socket.data.identity;
+  console.log(
+    `a user connected: ${socket.id} as ${identity.username}${
+      identity.guest ? " (guest)" : ""
+    }`
+  );
+
+  // Turn down a request that has no callback to answer through
+  const reject = (event: string, error: ErrorResponse) => {
+    socket.emit("request-rejected", { event, ...error });
+  };
+
+  // One seat per connection: a room or the matchmaking queue, not both
+  const seatConflict = (): ErrorResponse | null => {
+    if (matchmaking.isQueued(socket.id)) {
+      return failure(
+        "already-searching",
+        "Cancel matchmaking before joining a room."
+      );
+    }
+    if (users.has(socket.id)) {
+      return failure(
+        "already-in-room",
+        "Leave your room before joining another."
+      );
+    }
+    return null;
+  };
+
+  // Every packet spends a token from its event's rate limit and is checked
+  // against the event's schema before a handler sees it. Refused ones are
+  // answered with an error code and dropped.
+  socket.use(([event, ...args], next) => {
+    const check = validateEventArgs(event, args);
+    const limit = rateLimiter.check(
+      socket.id,
+      isEventName(event) ? event : null,
+      Date.now()
+    );
+    let error: ErrorResponse;
+    if (!limit.allowed) {
+      if (limit.escalation) {
+        console.log(
+          `[Server Log] ${identity.username} (${socket.id}) hit rate limits repeatedly: ${limit.escalation}`
+        );
+      }
+      error =
+        limit.escalation === "disconnect"
+          ? failure("rate-limited", "Disconnected for flooding the server.")
+          : limit.escalation === "mute"
+          ? failure("rate-limited", "Slow down! Your chat is muted for now.")
+          : failure("rate-limited", "Slow down!");
+    } else if (!check.valid) {
+      console.log(
+        `[Server Log] Rejected ${event} from ${socket.id}: ${check.message}`
+      );
+      error = failure("invalid-payload", check.message);
+    } else {
+      return next();
+    }
+    if (check.reply === "result") {
+      (args[args.length - 1] as Ack)(error);
+    } else {
+      reject(event, error);
+    }
+    if (!limit.allowed && limit.escalation === "disconnect") {
+      socket.disconnect(true);
+    }
+  });
 
   socket.on(
     "get-lobbies",
-    (callback: (lobbies: { id: string; playerCount: number }[]) => void) => {
-      const availableLobbies = [];
-      for (const [roomId, room] of rooms.entries()) {
-        // Only list non-empty and non-full rooms (assuming max 2 for now)
-        if (room.users.length > 0 && room.users.length < 2) {
-          availableLobbies.push({ id: roomId, playerCount: room.users.length });
-        }
-        if (availableLobbies.length >= 5) {
-          // Limit to 5 lobbies
-          break;
-        }
+    (
+      rawQuery: Partial<LobbyQuery> | null,
+      callback: Ack<LobbyPageResponse>
+    ) => {
+      const result = validateLobbyQuery(rawQuery);
+      if (!result.valid) {
+        return callback(failure("invalid-query", result.errors.join(" ")));
       }
-      callback(availableLobbies);
+      publishLobbyChanges(); // Bring the list up to date before paging it
+      // Incremental updates follow for the same filters until the socket
+      // asks for another page, unsubscribes or joins a room
+      lobbySubscribers.set(socket.id, result.query);
+      callback({
+        success: true,
+        ...queryLobbies(listedLobbies.values(), result.query),
+      });
     }
   );
 
+  socket.on("unsubscribe-lobbies", () => {
+    lobbySubscribers.delete(socket.id);
+  });
+
   socket.on(
     "create-room",
-    (
-      username: string,
-      callback: (response: {
-        success: boolean;
-        roomId?: string;
-        error?: string;
-      }) => void
+    async (
+      rawSettings: Partial<RoomSettingsInput> | null,
+      rawPassword: string | null,
+      callback: Ack<SessionResponse>
     ) => {
-      if (!username || username.trim().length < 3) {
-        return callback({
-          success: false,
-          error: "Username must be at least 3 characters long.",
-        });
+      const busy = seatConflict();
+      if (busy) return callback(busy);
+      const result = validateRoomSettings(rawSettings);
+      if (!result.valid) {
+        return callback(failure("invalid-settings", result.errors.join(" ")));
+      }
+      const passwordResult = validateRoomPassword(rawPassword);
+      if (!passwordResult.valid) {
+        return callback(failure("invalid-password", passwordResult.error));
       }
+      const { password } = passwordResult;
+      const passwordHash =
+        password === null ? null : await hashPassword(password);
+      // The socket may have taken a seat while the password was hashed
+      const busyNow = seatConflict();
+      if (busyNow) return callback(busyNow);
 
       const roomId = uuidv4().substring(0, 6).toUpperCase(); // Simple 6-char ID
       const newUser: User = {
-        id: socket.id,
-        username: username.trim(),
+        id: uuidv4(),
+        username: identity.username,
         ready: false,
+        connected: true,
+        team: "alpha",
+        slot: 0,
       }; // Initialize ready to false
 
       const newRoom: Room = {
         id: roomId,
+        instanceId: uuidv4(),
+        status: "open",
         users: [newUser],
+        settings: result.settings,
+        swapRequests: [],
+        hostId: newUser.id,
+        locked: false,
+        bannedUsernames: [],
+        hasPassword: password !== null,
+        inviteToken: createInviteToken(),
+        createdAt: Date.now(),
+        ranked: false,
       };
 
       rooms.set(roomId, newRoom);
+      if (passwordHash !== null) {
+        roomPasswords.set(roomId, passwordHash);
+      }
       users.set(socket.id, newUser);
       console.log(
         `[Server Log] Added user ${newUser.username} (${socket.id}) to users map.`
       );
       socket.join(roomId);
+      lobbySubscribers.delete(socket.id); // Done browsing
+      const session = createSession(socket, newUser, roomId);
 
       console.log(
-        `User ${username} (${socket.id}) created and joined room ${roomId}`
+        `User ${newUser.username} (${socket.id}) created and joined room ${roomId}`
       );
-      callback({ success: true, roomId: roomId }); // Send room ID back to creator
+      callback({
+        success: true,
+        roomId: roomId,
+        userId: newUser.id,
+        sessionToken: session.token,
+      }); // Send room ID back to creator
       emitRoomUpdate(roomId); // Emit initial room state
-      io.emit("lobbies-updated"); // Notify all clients that lobby list might have changed
+      publishLobbyChanges();
     }
   );
 
   socket.on(
     "join-room",
-    (
+    async (
       roomId: string,
-      username: string,
-      callback: (response: {
-        success: boolean;
-        roomId?: string;
-        error?: string;
-      }) => void
+      access: JoinAccess | null,
+      callback: Ack<SessionResponse>
     ) => {
-      if (!username || username.trim().length < 3) {
-        return callback({
-          success: false,
-          error: "Username must be at least 3 characters long.",
-        });
-      }
+      const busy = seatConflict();
+      if (busy) return callback(busy);
       if (!roomId || !rooms.has(roomId)) {
-        return callback({ success: false, error: "Room not found." });
+        return callback(failure("room-not-found", "Room not found."));
       }
 
       const room = rooms.get(roomId)!;
 
-      // Basic check: prevent joining if room is "full" (e.g., 2 players for 1v1)
-      // You'll expand this logic based on game rules
-      if (room.users.length >= 2) {
-        return callback({ success: false, error: "Room is full." });
+      if (isBanned(room, identity.username)) {
+        return callback(failure("banned", "You are banned from this room."));
+      }
+      const admission = await checkAccess(room, access ?? {});
+      if (!admission.allowed) {
+        return callback(admission.error);
+      }
+      // Checking a password takes a moment; things may have moved meanwhile
+      const busyNow = seatConflict();
+      if (busyNow) return callback(busyNow);
+      if (rooms.get(roomId) !== room) {
+        return callback(failure("room-not-found", "Room not found."));
+      }
+      if (!isJoinable(room)) {
+        return callback(
+          room.locked
+            ? failure("room-locked", "Room is locked by the host.")
+            : room.status === "in-game" || room.status === "starting"
+            ? failure(
+                "match-in-progress",
+                "A match is already in progress in this room."
+              )
+            : failure("room-full", "Room is full.")
+        );
       }
 
-      // Check if username is already taken in that room
-      if (room.users.some((user) => user.username === username.trim())) {
-        return callback({
-          success: false,
-          error: "Username already taken in this room.",
-        });
+      // Another tab signed in as the same player
+      if (room.users.some((user) => user.username === identity.username)) {
+        return callback(
+          failure("already-in-room", "You are already in this room.")
+        );
+      }
+
+      // Newcomers fill up the smaller team
+      const seat = assignSeat(room.users, room.settings.teamSize);
+      if (!seat) {
+        return callback(failure("room-full", "Room is full."));
       }
 
       const newUser: User = {
-        id: socket.id,
-        username: username.trim(),
+        id: uuidv4(),
+        username: identity.username,
         ready: false,
+        connected: true,
+        ...seat,
       }; // Initialize ready to false
       room.users.push(newUser);
+      refreshRoomStatus(room);
       users.set(socket.id, newUser);
       console.log(
         `[Server Log] Added user ${newUser.username} (${socket.id}) to users map.`
       );
       socket.join(roomId);
+      lobbySubscribers.delete(socket.id); // Done browsing
+      const session = createSession(socket, newUser, roomId);
 
-      console.log(`User ${username} (${socket.id}) joined room ${roomId}`);
-      callback({ success: true, roomId: roomId }); // Confirm join to the user
+      console.log(
+        `User ${newUser.username} (${socket.id}) joined room ${roomId}`
+      );
+      callback({
+        success: true,
+        roomId: roomId,
+        userId: newUser.id,
+        sessionToken: session.token,
+      }); // Confirm join to the user
+      postChat(
+        room,
+        systemLine(`${newUser.username} joined the room.`, Date.now())
+      );
       emitRoomUpdate(roomId); // Emit updated room state to everyone
-      io.emit("lobbies-updated"); // Notify all clients that lobby list might have changed
+      publishLobbyChanges();
+    }
+  );
+
+  socket.on("toggle-ready", (callback: Ack) => {
+    const user = users.get(socket.id);
+    if (!user) {
+      return callback(failure("not-in-room", "User not found."));
+    }
+
+    const room = findRoomByUser(user.id);
+    if (!room) {
+      return callback(failure("not-in-room", "User not found in any room."));
+    }
+    if (room.status === "in-game") {
+      return callback(
+        failure("match-in-progress", "The match has already started.")
+      );
+    }
+    // Everyone in a ranked room starts out ready; backing out means leaving
+    if (room.ranked) {
+      return callback(
+        failure("ranked-room", "Leave the room to back out of a ranked match.")
+      );
+    }
+
+    user.ready = !user.ready;
+    console.log(
+      `User ${user.username} (${socket.id}) ready status in room ${room.id}: ${user.ready}`
+    );
+    refreshRoomStatus(room); // A finished room is back in its lobby
+
+    // --- Check if game can start ---
+    // The room must be full and everyone in it ready
+    const canStart =
+      room.users.length === roomCapacity(room.settings) &&
+      room.users.every((u) => u.ready && u.connected);
+    if (canStart) {
+      beginStart(room);
+    } else {
+      cancelStart(room);
+    }
+    emitRoomUpdate(room.id);
+    callback({ success: true });
+  });
+
+  // Leave the current room for good, e.g. from the room view or mid-match
+  socket.on("leave-room", (callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    users.delete(socket.id);
+    socket.leave(room.id);
+    socket.leave(user.id);
+    console.log(
+      `[Server Log] User ${user.username} (${socket.id}) left room ${room.id}`
+    );
+    removeUserFromRoom(user, room);
+    callback({ success: true });
+  });
+
+  // --- Teams ---
+  // Move to a free slot on the other team
+  socket.on("switch-team", (callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    if (!canChangeTeams(room)) {
+      return callback(failure("teams-locked", "Teams are locked."));
+    }
+    const team = user.team === "alpha" ? "bravo" : "alpha";
+    const slot = openSlot(room.users, team, room.settings.teamSize);
+    if (slot === null) {
+      return callback(
+        failure(
+          "team-full",
+          "The other team is full. Ask someone to swap instead."
+        )
+      );
+    }
+    user.team = team;
+    user.slot = slot;
+    user.ready = false; // Let everyone see the new lineup before starting
+    clearSwapRequests(room, user.id);
+    console.log(
+      `[Server Log] User ${user.username} switched to team ${team} in room ${room.id}`
+    );
+    emitRoomUpdate(room.id);
+    callback({ success: true });
+  });
+
+  // Ask a player on the other team to trade places
+  socket.on("request-swap", (targetId: string, callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    const target = room.users.find((u) => u.id === targetId);
+    if (!target || target.team === user.team) {
+      return callback(
+        failure(
+          "player-not-found",
+          "You can only swap with a player on the other team."
+        )
+      );
+    }
+    if (!canChangeTeams(room)) {
+      return callback(failure("teams-locked", "Teams are locked."));
+    }
+    // One outstanding request per player
+    room.swapRequests = room.swapRequests.filter((r) => r.fromId !== user.id);
+    room.swapRequests.push({ fromId: user.id, toId: target.id });
+    emitRoomUpdate(room.id);
+    callback({ success: true });
+  });
+
+  socket.on("accept-swap", (fromId: string, callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    const request = room.swapRequests.find(
+      (r) => r.fromId === fromId && r.toId === user.id
+    );
+    const other = room.users.find((u) => u.id === request?.fromId);
+    if (!request || !other || other.team === user.team) {
+      return callback(
+        failure("swap-expired", "That swap request is no longer valid.")
+      );
+    }
+    if (!canChangeTeams(room)) {
+      return callback(failure("teams-locked", "Teams are locked."));
+    }
+    [user.team, other.team] = [other.team, user.team];
+    [user.slot, other.slot] = [other.slot, user.slot];
+    user.ready = false;
+    other.ready = false;
+    clearSwapRequests(room, user.id);
+    clearSwapRequests(room, other.id);
+    console.log(
+      `[Server Log] Users ${user.username} and ${other.username} swapped teams in room ${room.id}`
+    );
+    emitRoomUpdate(room.id);
+    callback({ success: true });
+  });
+
+  // Even out the teams, e.g. after players left one of them
+  socket.on("balance-teams", (callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    if (!canChangeTeams(room)) {
+      return callback(failure("teams-locked", "Teams are locked."));
+    }
+    const moved = balanceTeams(room.users, room.settings.teamSize);
+    moved.forEach((u) => {
+      u.ready = false;
+      clearSwapRequests(room, u.id);
+    });
+    console.log(
+      `[Server Log] Balanced teams in room ${room.id} (${moved.length} moved)`
+    );
+    emitRoomUpdate(room.id);
+    callback({ success: true });
+  });
+
+  // --- Matchmaking ---
+  socket.on(
+    "find-match",
+    (teamSize: number, callback: Ack<FindMatchResponse>) => {
+      // Ratings belong to accounts; a guest's name changes every visit
+      if (identity.guest) {
+        return callback(
+          failure("guest-not-allowed", "Sign in to an account to play ranked.")
+        );
+      }
+      const result = validateRoomSettings({ teamSize });
+      if (!result.valid) {
+        return callback(failure("invalid-settings", result.errors.join(" ")));
+      }
+      if (users.has(socket.id)) {
+        return callback(
+          failure(
+            "already-in-room",
+            "Leave your room before searching for a match."
+          )
+        );
+      }
+      if (
+        matchmaking.isQueued(socket.id) ||
+        matchmaking.hasUsername(identity.username)
+      ) {
+        return callback(
+          failure("already-searching", "Already searching for a match.")
+        );
+      }
+      const { rating } = ratingBook.get(identity.username);
+      matchmaking.enqueue({
+        socketId: socket.id,
+        username: identity.username,
+        rating,
+        teamSize: result.settings.teamSize,
+        queuedAt: Date.now(),
+      });
+      lobbySubscribers.delete(socket.id);
+      console.log(
+        `[Server Log] ${identity.username} (${rating}) queued for ${result.settings.teamSize}v${result.settings.teamSize}`
+      );
+      callback({ success: true, rating });
+      handleMatchmakingEvents(matchmaking.step(Date.now()));
     }
   );
 
+  socket.on("cancel-matchmaking", (callback: Ack) => {
+    if (!matchmaking.dequeue(socket.id)) {
+      return callback(failure("not-searching", "Not searching."));
+    }
+    callback({ success: true });
+    handleMatchmakingEvents(matchmaking.step(Date.now()));
+  });
+
+  // The ready check after a match was found
+  socket.on("respond-to-match", (accept: boolean, callback: Ack) => {
+    const answered = accept
+      ? matchmaking.accept(socket.id)
+      : matchmaking.decline(socket.id);
+    if (!answered) {
+      return callback(failure("no-pending-match", "No match to answer."));
+    }
+    callback({ success: true });
+    handleMatchmakingEvents(matchmaking.step(Date.now()));
+  });
+
+  socket.on("get-rating", (username: string, callback: Ack<RatingResponse>) => {
+    callback({ success: true, rating: ratingBook.get(username.trim()) });
+  });
+
+  // --- Profiles and Match History ---
   socket.on(
-    "toggle-ready",
-    (callback: (response: { success: boolean; error?: string }) => void) => {
-      const user = users.get(socket.id);
-      if (!user) {
-        return callback({ success: false, error: "User not found." });
+    "get-profile",
+    (username: string, callback: Ack<ProfileResponse>) => {
+      const profile = storage.getProfile(username.trim());
+      if (!profile) {
+        return callback(failure("profile-not-found", "No such player."));
       }
+      callback({
+        success: true,
+        profile,
+        rating: ratingBook.get(profile.username),
+        matches: storage.listMatches(profile.username, PROFILE_MATCH_LIMIT),
+      });
+    }
+  );
 
-      let userRoomId: string | null = null;
-      let roomToUpdate: Room | null = null; // Store the room reference
+  socket.on(
+    "get-match",
+    (matchId: string, callback: Ack<MatchDetailsResponse>) => {
+      const match = storage.getMatch(matchId);
+      if (!match) {
+        return callback(failure("match-not-found", "No such match."));
+      }
+      callback({ success: true, match, rounds: storage.getRounds(match.id) });
+    }
+  );
 
-      for (const [roomId, room] of rooms.entries()) {
-        const userInRoom = room.users.find((u) => u.id === socket.id);
-        if (userInRoom) {
-          userRoomId = roomId;
-          roomToUpdate = room; // Found the room
-          userInRoom.ready = !userInRoom.ready;
-          console.log(
-            `User ${user.username} (${socket.id}) ready status in room ${roomId}: ${userInRoom.ready}`
-          );
-          emitRoomUpdate(roomId);
-          callback({ success: true });
-          break;
-        }
+  // --- Host Controls ---
+  // Remove a player from the room; with ban they can't come back
+  const kickHandler = (ban: boolean) => (targetId: string, callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    if (!isHost(room, user)) {
+      return callback(failure("not-host", "Only the host can do that."));
+    }
+    const target = room.users.find((u) => u.id === targetId);
+    if (!target || target === user) {
+      return callback(failure("player-not-found", "Player not found."));
+    }
+    if (ban) {
+      room.bannedUsernames.push(target.username.toLowerCase());
+    }
+    // Tell the kicked player's client before their session goes away
+    const session = findSessionByUser(target.id);
+    const targetSocket = session?.socketId
+      ? io.sockets.sockets.get(session.socketId)
+      : undefined;
+    if (targetSocket) {
+      targetSocket.emit("kicked", { roomId: room.id, banned: ban });
+      targetSocket.leave(room.id);
+      targetSocket.leave(target.id);
+      users.delete(targetSocket.id);
+    }
+    console.log(
+      `[Server Log] Host ${user.username} ${ban ? "banned" : "kicked"} ${
+        target.username
+      } from room ${room.id}`
+    );
+    removeUserFromRoom(
+      target,
+      room,
+      `${target.username} was ${ban ? "banned" : "kicked"} by the host.`
+    );
+    callback({ success: true });
+  };
+  socket.on("kick-player", kickHandler(false));
+  socket.on("ban-player", kickHandler(true));
+
+  socket.on("transfer-host", (targetId: string, callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    if (!isHost(room, user)) {
+      return callback(failure("not-host", "Only the host can do that."));
+    }
+    const target = room.users.find((u) => u.id === targetId);
+    if (!target || !target.connected) {
+      return callback(
+        failure(
+          "player-not-found",
+          "The new host must be a connected player in this room."
+        )
+      );
+    }
+    room.hostId = target.id;
+    console.log(
+      `[Server Log] Host of room ${room.id} transferred to ${target.username}`
+    );
+    emitRoomUpdate(room.id);
+    publishLobbyChanges(); // The listing shows the host's name
+    callback({ success: true });
+  });
+
+  socket.on("set-room-locked", (locked: boolean, callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    if (!isHost(room, user)) {
+      return callback(failure("not-host", "Only the host can do that."));
+    }
+    room.locked = locked;
+    console.log(
+      `[Server Log] Room ${room.id} ${room.locked ? "locked" : "unlocked"} by ${
+        user.username
+      }`
+    );
+    emitRoomUpdate(room.id);
+    publishLobbyChanges();
+    callback({ success: true });
+  });
+
+  // Set, change or (with null) remove the room password
+  socket.on(
+    "set-room-password",
+    async (rawPassword: string | null, callback: Ack) => {
+      const user = users.get(socket.id);
+      const room = user ? findRoomByUser(user.id) : undefined;
+      if (!user || !room) {
+        return callback(failure("not-in-room", "You are not in a room."));
       }
+      if (!isHost(room, user)) {
+        return callback(failure("not-host", "Only the host can do that."));
+      }
+      const result = validateRoomPassword(rawPassword);
+      if (!result.valid) {
+        return callback(failure("invalid-password", result.error));
+      }
+      const passwordHash =
+        result.password === null ? null : await hashPassword(result.password);
+      // The room may be gone, or have a new host, once the hash is ready
+      if (rooms.get(room.id) !== room || !isHost(room, user)) {
+        return callback(failure("not-host", "Only the host can do that."));
+      }
+      if (passwordHash === null) {
+        roomPasswords.delete(room.id);
+      } else {
+        roomPasswords.set(room.id, passwordHash);
+      }
+      room.hasPassword = result.password !== null;
+      console.log(
+        `[Server Log] Password of room ${room.id} ${
+          room.hasPassword ? "set" : "removed"
+        } by ${user.username}`
+      );
+      emitRoomUpdate(room.id);
+      publishLobbyChanges();
+      callback({ success: true });
+    }
+  );
 
-      if (!userRoomId || !roomToUpdate) {
-        return callback({
-          success: false,
-          error: "User not found in any room.",
-        });
+  // Invalidate every invite link shared so far
+  socket.on("regenerate-invite", (callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    if (!isHost(room, user)) {
+      return callback(failure("not-host", "Only the host can do that."));
+    }
+    room.inviteToken = createInviteToken();
+    console.log(
+      `[Server Log] Invite link of room ${room.id} regenerated by ${user.username}`
+    );
+    emitRoomUpdate(room.id);
+    callback({ success: true });
+  });
+
+  // Change any of the room settings before the match starts
+  socket.on(
+    "update-settings",
+    (rawSettings: Partial<RoomSettingsInput>, callback: Ack) => {
+      const user = users.get(socket.id);
+      const room = user ? findRoomByUser(user.id) : undefined;
+      if (!user || !room) {
+        return callback(failure("not-in-room", "You are not in a room."));
+      }
+      if (!isHost(room, user)) {
+        return callback(failure("not-host", "Only the host can do that."));
       }
+      if (!canChangeTeams(room)) {
+        return callback(
+          failure(
+            "settings-locked",
+            "Settings are locked once the match is starting."
+          )
+        );
+      }
+      const result = validateRoomSettings({ ...room.settings, ...rawSettings });
+      if (!result.valid) {
+        return callback(failure("invalid-settings", result.errors.join(" ")));
+      }
+      const { settings } = result;
+      const crowded = TEAMS.find(
+        (team) =>
+          room.users.filter((u) => u.team === team).length > settings.teamSize
+      );
+      if (crowded) {
+        return callback(
+          failure(
+            "invalid-settings",
+            `Team ${crowded} has too many players for that team size.`
+          )
+        );
+      }
+
+      // Pack each team into the slots that still exist
+      TEAMS.forEach((team) =>
+        room.users
+          .filter((u) => u.team === team)
+          .sort((a, b) => a.slot - b.slot)
+          .forEach((u, slot) => (u.slot = slot))
+      );
+      room.settings = settings;
+      room.users.forEach((u) => (u.ready = false)); // Everyone agrees anew
+      refreshRoomStatus(room);
+      console.log(
+        `[Server Log] Settings of room ${room.id} updated by ${user.username}`
+      );
+      emitRoomUpdate(room.id);
+      publishLobbyChanges();
+      callback({ success: true });
+    }
+  );
 
-      // --- Check if game can start ---
-      // Check if room has enough players (e.g., 2) and everyone is ready
-      const canStart =
-        roomToUpdate.users.length === 2 &&
-        roomToUpdate.users.every((u) => u.ready);
+  socket.on("snapshot-ack", (tick: number) => {
+    const user = users.get(socket.id);
+    if (user) {
+      snapshotChannels.get(user.id)?.ack(tick);
+    }
+  });
 
-      if (canStart) {
-        console.log(
-          `[Server Log] All players ready in room ${userRoomId}. Starting game...`
+  // The client couldn't apply a delta (missing baseline): send a full one
+  socket.on("snapshot-resync", () => {
+    const user = users.get(socket.id);
+    if (user) {
+      snapshotChannels.get(user.id)?.reset();
+    }
+  });
+
+  // --- Reconnection ---
+  // Put a returning client back in the seat its session token holds
+  socket.on(
+    "resume-session",
+    (token: string, callback: Ack<ResumeResponse>) => {
+      const session = typeof token === "string" ? sessions.get(token) : null;
+      const room = session ? rooms.get(session.roomId) : undefined;
+      const user = room?.users.find((u) => u.id === session?.userId);
+      if (!session || !room || !user) {
+        return callback(failure("session-expired", "Session expired."));
+      }
+      // A seat only goes back to the player who took it
+      if (user.username !== identity.username) {
+        return callback(
+          failure("session-taken", "Session belongs to someone else.")
         );
-        io.to(userRoomId).emit("start-game", roomToUpdate); // Send final room state with start signal
-        // Consider marking the room as "in-game" or removing it from lobby list logic later
-        io.emit("lobbies-updated"); // Room is now full/in-game, update lobby list
       }
+      // Same rules as joining; resuming the seat this socket holds is a no-op
+      if (users.get(socket.id) !== user) {
+        const busy = seatConflict();
+        if (busy) return callback(busy);
+      }
+
+      if (session.graceTimer) {
+        clearTimeout(session.graceTimer);
+        session.graceTimer = null;
+      }
+      // The same session open elsewhere (e.g. a second tab) loses it
+      const previousSocketId = session.socketId;
+      session.socketId = socket.id;
+      if (previousSocketId && previousSocketId !== socket.id) {
+        users.delete(previousSocketId);
+        io.sockets.sockets.get(previousSocketId)?.disconnect(true);
+      }
+
+      user.connected = true;
+      users.set(socket.id, user);
+      socket.join(room.id);
+      socket.join(user.id);
+      // Whatever delta baseline the old connection had is gone
+      snapshotChannels.get(user.id)?.reset();
+      console.log(
+        `[Server Log] User ${user.username} (${socket.id}) resumed their session in room ${room.id}`
+      );
+      callback({
+        success: true,
+        roomId: room.id,
+        userId: user.id,
+        inMatch: matches.has(room.id),
+      });
+      emitRoomUpdate(room.id);
     }
   );
 
   socket.on("disconnect", () => {
     console.log("[Server Log] disconnect event for socket:", socket.id);
+    rateLimiter.disconnect(socket.id);
+    lobbySubscribers.delete(socket.id);
+    if (matchmaking.dequeue(socket.id)) {
+      handleMatchmakingEvents(matchmaking.step(Date.now()));
+    }
     const user = users.get(socket.id);
     if (user) {
-      let userRoomId: string | null = null;
-      let lobbyListChanged = false;
-      for (const [roomId, room] of rooms.entries()) {
-        const userIndex = room.users.findIndex((u) => u.id === socket.id);
-        if (userIndex !== -1) {
-          userRoomId = roomId;
-          const wasRoomFull = room.users.length === 2;
-          room.users.splice(userIndex, 1);
+      users.delete(socket.id);
+      const room = findRoomByUser(user.id);
+      const session = findSessionByUser(user.id);
+      // A newer connection already took over this session
+      if (session && session.socketId !== socket.id) return;
+      if (room && session) {
+        // Hold the seat for a while; a match keeps running with the
+        // player standing idle
+        session.socketId = null;
+        user.connected = false;
+        if (!matches.has(room.id)) {
+          user.ready = false;
+          cancelStart(room);
+        }
+        matches.get(room.id)?.idlePlayer(user.id);
+        migrateHost(room); // The room shouldn't wait on an absent host
+        publishLobbyChanges();
+        session.graceTimer = setTimeout(() => {
           console.log(
-            `[Server Log] User ${user.username} removed from room ${roomId}`
+            `[Server Log] User ${user.username} did not reconnect in time.`
           );
-          if (room.users.length === 0) {
-            rooms.delete(roomId);
-            console.log(
-              `[Server Log] Room ${roomId} deleted as it became empty.`
-            );
-            lobbyListChanged = true;
-          } else {
-            console.log(
-              `[Server Log] Emitting room-update to room ${roomId} (remaining users: ${room.users.length})`
-            );
-            emitRoomUpdate(roomId);
-            if (wasRoomFull) {
-              lobbyListChanged = true;
-            }
-          }
-          break;
-        }
-      }
-      users.delete(socket.id);
-      if (lobbyListChanged) {
+          removeUserFromRoom(user, room);
+        }, RECONNECT_GRACE_MS);
         console.log(
-          "[Server Log] Emitting lobbies-updated due to disconnect changes."
+          `[Server Log] Holding seat for ${user.username} in room ${room.id} for ${RECONNECT_GRACE_MS} ms`
         );
-        io.emit("lobbies-updated");
+        emitRoomUpdate(room.id);
+      } else if (room) {
+        removeUserFromRoom(user, room);
       }
     } else {
       console.log(
@@ -275,7 +1625,8 @@ io.on("connection", (socket: Socket) => {
   // --- Get Specific Room State ---
   socket.on("get-room-state", (roomId: string) => {
     const room = rooms.get(roomId);
-    if (room && room.users.some((user) => user.id === socket.id)) {
+    const requester = users.get(socket.id);
+    if (room && requester && room.users.includes(requester)) {
       // Ensure requester is in the room
       console.log(
         `[Server Log] Sending specific room state for ${roomId} to ${socket.id}`
@@ -286,46 +1637,158 @@ io.on("connection", (socket: Socket) => {
       console.log(
         `[Server Log] Denied get-room-state for ${roomId} from ${socket.id} (not found or not in room)`
       );
-      // Optionally emit an error back to the client
-      // socket.emit('error-message', 'Could not retrieve room state.');
+      reject(
+        "get-room-state",
+        failure("not-in-room", "You are not in that room.")
+      );
+    }
+  });
+
+  // --- Maps ---
+  socket.on("get-maps", (callback: Ack<MapListResponse>) => {
+    callback({ success: true, maps: listMaps() });
+  });
+
+  // Full map data so the client renders exactly what the server simulates
+  socket.on("get-map", (mapId: string, callback: Ack<MapResponse>) => {
+    const map = getMap(mapId);
+    if (!map) {
+      return callback(failure("map-not-found", `No map "${mapId}".`));
     }
+    callback({ success: true, map });
+  });
+
+  // --- Match Input ---
+  socket.on("player-input", (rawInput: unknown) => {
+    const input = sanitizeInput(rawInput);
+    if (!input) {
+      return; // Ignore malformed input frames
+    }
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    const match = room ? matches.get(room.id) : undefined;
+    if (!user || !match || !match.hasPlayer(user.id)) {
+      return; // Not in a running match
+    }
+    match.handleInput(user.id, input);
+  });
+
+  // The knife round winners choose their starting side
+  socket.on("choose-side", (side: Side, callback: Ack) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    const match = room ? matches.get(room.id) : undefined;
+    if (!user || !match || !match.hasPlayer(user.id)) {
+      return callback(failure("not-in-match", "You are not in a match."));
+    }
+    callback(match.chooseSide(user.id, side));
+  });
+
+  // Round-trip probe for the client's latency display and prediction
+  socket.on("latency-ping", (callback: Ack) => {
+    callback({ success: true });
+  });
+
+  // --- Buy Menu ---
+  socket.on("get-items", (callback: Ack<ItemCatalogResponse>) => {
+    callback({ success: true, items: Object.values(ITEM_CATALOG) });
+  });
+
+  socket.on("buy-item", (itemId: ItemId, callback: Ack<BuyResult>) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    const match = room ? matches.get(room.id) : undefined;
+    if (!user || !match || !match.hasPlayer(user.id)) {
+      return callback(failure("not-in-match", "You are not in a match."));
+    }
+    const result = match.buyItem(user.id, itemId);
+    if (result.success) {
+      console.log(
+        `[Server Log] User ${user.username} bought ${itemId} in room ${room?.id}`
+      );
+    }
+    callback(result);
   });
 
   // --- Chat Messaging ---
   socket.on(
     "send-message",
-    (data: { roomId: string; message: string; username: string }) => {
-      const { roomId, message, username } = data;
-      // Basic validation
-      if (!roomId || !message || !username) {
-        console.log("[Server Log] Invalid send-message data received from");
-        return; // Ignore invalid messages
-      }
-
-      // Ensure sender is actually in the room they claim (optional but good practice)
+    ({ roomId, channel, message }: ChatMessageInput) => {
+      // Ensure sender is actually in the room they claim
       const room = rooms.get(roomId);
-      if (!room || !room.users.some((user) => user.id === socket.id)) {
+      const sender = users.get(socket.id);
+      if (!room || !sender || !room.users.includes(sender)) {
         console.log(
           `[Server Log] User ${socket.id} tried to send message to room ${roomId} they are not in.`
         );
+        reject(
+          "send-message",
+          failure("not-in-room", "You are not in that room.")
+        );
+        return;
+      }
+      const mutedMs = rateLimiter.mutedFor(sender.username, Date.now());
+      if (mutedMs > 0) {
+        reject(
+          "send-message",
+          failure(
+            "muted",
+            `You are muted for ${Math.ceil(mutedMs / 1000)} more seconds.`
+          )
+        );
+        return;
+      }
+      const text = validateChatText(message);
+      if (!text.valid) {
+        reject("send-message", failure("message-too-long", text.error));
         return;
       }
 
       console.log(
-        `[Server Log] Message received from ${username} in room ${roomId}: ${message}`
+        `[Server Log] Message received from ${sender.username} in room ${roomId} (${channel}): ${text.text}`
       );
-      const messageData = {
-        username: username,
-        message: message.trim(), // Trim message
+      const dead = isDeadInMatch(room, sender);
+      postChat(room, {
+        type: "player",
+        channel,
+        username: sender.username, // Never what the client says
+        team: sender.team,
+        dead,
+        message: text.text,
         timestamp: Date.now(),
-      };
-      // Broadcast the message to everyone in the room (including sender)
-      console.log(`[Server Log] Broadcasting 'new-message' to room ${roomId}`);
-      io.to(roomId).emit("new-message", messageData);
+        deadOnly: dead && room.settings.restrictDeadChat,
+      });
     }
   );
+
+  // The room's recent chat, e.g. after joining or reconnecting. Only lines
+  // the player could read when they were sent are included, so switching
+  // teams doesn't reveal the other team's chat.
+  socket.on("get-chat-history", (callback: Ack<ChatHistoryResponse>) => {
+    const user = users.get(socket.id);
+    const room = user ? findRoomByUser(user.id) : undefined;
+    if (!user || !room) {
+      return callback(failure("not-in-room", "You are not in a room."));
+    }
+    const messages = storage
+      .getChatHistory(room.instanceId, user.id, CHAT_HISTORY_LIMIT)
+      .map(
+        ({ roomInstanceId, readerIds, deadOnly, ...message }): ChatMessage =>
+          message
+      );
+    callback({ success: true, messages });
+  });
 });
 
+// Close the database cleanly on Ctrl+C or a stop from the host
+const shutdown = () => {
+  console.log("[Server Log] Shutting down...");
+  storage.close();
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
 server.listen(PORT, () => {
   console.log(`Server listening on *:${PORT}`);
 });
@@ -0,0 +1,51 @@
+import { MapDefinition, MapSummary } from "./types";
+import { validateMap } from "./validateMap";
+import dustLite from "./data/dust-lite.json";
+import outpost from "./data/outpost.json";
+import crossfire from "./data/crossfire.json";
+
+// Maps shipped with the server. Each one goes through the same validation
+// as any externally supplied map before it can be played.
+const BUILT_IN_MAPS: unknown[] = [dustLite, outpost, crossfire];
+
+export const DEFAULT_MAP_ID = "dust-lite";
+
+const mapPool: Map<string, MapDefinition> = new Map();
+
+// Validate and register a map. Throws with every validation error listed.
+export const registerMap = (raw: unknown): MapDefinition => {
+  const result = validateMap(raw);
+  if (!result.valid) {
+    const id =
+      typeof raw === "object" && raw !== null && "id" in raw
+        ? String((raw as { id: unknown }).id)
+        : "<unknown>";
+    throw new Error(
+      `Invalid map "${id}":\n  - ${result.errors.join("\n  - ")}`
+    );
+  }
+  if (mapPool.has(result.map.id)) {
+    throw new Error(`Duplicate map id "${result.map.id}"`);
+  }
+  mapPool.set(result.map.id, result.map);
+  return result.map;
+};
+
+BUILT_IN_MAPS.forEach(registerMap);
+
+export const getMap = (id: string): MapDefinition | undefined =>
+  mapPool.get(id);
+
+export const listMaps = (): MapSummary[] =>
+  [...mapPool.values()].map((map) => ({
+    id: map.id,
+    name: map.name,
+    width: map.tiles[0].length,
+    height: map.tiles.length,
+    sites: map.sites.map((site) => site.id),
+  }));
+
+export const randomMapId = (): string => {
+  const ids = [...mapPool.keys()];
+  return ids[Math.floor(Math.random() * ids.length)];
+};
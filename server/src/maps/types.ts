@@ -0,0 +1,16 @@
+// Versioned JSON map format shared by the simulation and the client renderer
+
+export const MAP_FORMAT_VERSION = 1;
+
+// The format itself is part of the wire contract, and so are the tile
+// characters
+export { TILE } from "shared";
+export type { TileChar } from "shared";
+export type {
+  MapChokepoint,
+  MapDefinition,
+  MapSite,
+  MapSummary,
+  Side,
+  TileRect,
+} from "shared";
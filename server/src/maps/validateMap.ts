@@ -0,0 +1,213 @@
+import {
+  MAP_FORMAT_VERSION,
+  MapDefinition,
+  Side,
+  TILE,
+  TileRect,
+} from "./types";
+
+export const MIN_MAP_SIZE = 10; // Tiles per side
+export const MAX_MAP_SIZE = 200;
+
+const SIDES: Side[] = ["attack", "defend"];
+const VALID_TILES = new Set<string>(Object.values(TILE));
+const MAP_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,31}$/;
+
+export type MapValidationResult =
+  | { valid: true; map: MapDefinition }
+  | { valid: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositiveInt = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+// Check shape and bounds of a rectangle, pushing any problems onto errors
+const checkRect = (
+  value: unknown,
+  path: string,
+  width: number,
+  height: number,
+  errors: string[]
+): value is TileRect => {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object with x, y, width and height`);
+    return false;
+  }
+  const { x, y, width: w, height: h } = value;
+  if (
+    typeof x !== "number" ||
+    typeof y !== "number" ||
+    !Number.isInteger(x) ||
+    !Number.isInteger(y) ||
+    !isPositiveInt(w) ||
+    !isPositiveInt(h)
+  ) {
+    errors.push(
+      `${path}: x and y must be integers, width and height positive integers`
+    );
+    return false;
+  }
+  if (x < 0 || y < 0 || x + w > width || y + h > height) {
+    errors.push(
+      `${path}: rectangle (${x}, ${y}, ${w}x${h}) lies outside the ${width}x${height} map`
+    );
+    return false;
+  }
+  return true;
+};
+
+const countFloorTiles = (tiles: string[], rect: TileRect) => {
+  let count = 0;
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      if (tiles[y][x] === TILE.floor) count++;
+    }
+  }
+  return count;
+};
+
+// Validate untrusted map data. Every problem found is reported, not just the
+// first one, so map authors can fix a file in a single pass.
+export const validateMap = (raw: unknown): MapValidationResult => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return { valid: false, errors: ["map: expected a JSON object"] };
+  }
+
+  if (raw.version !== MAP_FORMAT_VERSION) {
+    errors.push(
+      `version: unsupported map format ${JSON.stringify(
+        raw.version
+      )} (expected ${MAP_FORMAT_VERSION})`
+    );
+  }
+  if (typeof raw.id !== "string" || !MAP_ID_PATTERN.test(raw.id)) {
+    errors.push(
+      "id: must be 2-32 lowercase letters, digits or dashes, starting with a letter or digit"
+    );
+  }
+  if (typeof raw.name !== "string" || raw.name.trim().length === 0) {
+    errors.push("name: must be a non-empty string");
+  }
+  if (!isPositiveInt(raw.tileSize)) {
+    errors.push("tileSize: must be a positive integer");
+  }
+
+  // --- Tiles ---
+  const tiles = raw.tiles;
+  if (
+    !Array.isArray(tiles) ||
+    tiles.length === 0 ||
+    !tiles.every((row) => typeof row === "string")
+  ) {
+    errors.push("tiles: must be a non-empty array of strings");
+    // Everything below depends on the grid
+    return { valid: false, errors };
+  }
+  const rows = tiles as string[];
+  const height = rows.length;
+  const width = rows[0].length;
+  if (
+    width < MIN_MAP_SIZE ||
+    height < MIN_MAP_SIZE ||
+    width > MAX_MAP_SIZE ||
+    height > MAX_MAP_SIZE
+  ) {
+    errors.push(
+      `tiles: map is ${width}x${height}, must be between ${MIN_MAP_SIZE} and ${MAX_MAP_SIZE} tiles per side`
+    );
+  }
+  rows.forEach((row, y) => {
+    if (row.length !== width) {
+      errors.push(`tiles[${y}]: expected ${width} columns, got ${row.length}`);
+    }
+    const badChar = [...row].find((char) => !VALID_TILES.has(char));
+    if (badChar !== undefined) {
+      errors.push(
+        `tiles[${y}]: unknown tile ${JSON.stringify(
+          badChar
+        )} at column ${row.indexOf(badChar)}`
+      );
+    }
+  });
+  if (errors.some((e) => e.startsWith("tiles"))) {
+    return { valid: false, errors };
+  }
+
+  // --- Spawns ---
+  if (!isObject(raw.spawns)) {
+    errors.push("spawns: expected an object with attack and defend zones");
+  } else {
+    const spawns = raw.spawns;
+    SIDES.forEach((side) => {
+      const zones = spawns[side];
+      if (!Array.isArray(zones) || zones.length === 0) {
+        errors.push(`spawns.${side}: must list at least one spawn zone`);
+        return;
+      }
+      zones.forEach((zone, i) => {
+        const path = `spawns.${side}[${i}]`;
+        if (
+          checkRect(zone, path, width, height, errors) &&
+          countFloorTiles(rows, zone) === 0
+        ) {
+          errors.push(`${path}: spawn zone contains no floor tiles`);
+        }
+      });
+    });
+  }
+
+  // --- Sites ---
+  if (!Array.isArray(raw.sites)) {
+    errors.push("sites: must be an array");
+  } else {
+    const seen = new Set<string>();
+    raw.sites.forEach((site, i) => {
+      const path = `sites[${i}]`;
+      if (!isObject(site)) {
+        errors.push(`${path}: expected an object with id and area`);
+        return;
+      }
+      if (typeof site.id !== "string" || site.id.trim().length === 0) {
+        errors.push(`${path}.id: must be a non-empty string`);
+      } else if (seen.has(site.id)) {
+        errors.push(`${path}.id: duplicate site id "${site.id}"`);
+      } else {
+        seen.add(site.id);
+      }
+      if (
+        checkRect(site.area, `${path}.area`, width, height, errors) &&
+        countFloorTiles(rows, site.area) === 0
+      ) {
+        errors.push(`${path}.area: site contains no floor tiles`);
+      }
+    });
+  }
+
+  // --- Chokepoints ---
+  if (!Array.isArray(raw.chokepoints)) {
+    errors.push("chokepoints: must be an array");
+  } else {
+    raw.chokepoints.forEach((chokepoint, i) => {
+      const path = `chokepoints[${i}]`;
+      if (!isObject(chokepoint)) {
+        errors.push(`${path}: expected an object with name and area`);
+        return;
+      }
+      if (
+        typeof chokepoint.name !== "string" ||
+        chokepoint.name.trim().length === 0
+      ) {
+        errors.push(`${path}.name: must be a non-empty string`);
+      }
+      checkRect(chokepoint.area, `${path}.area`, width, height, errors);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, map: raw as unknown as MapDefinition };
+};
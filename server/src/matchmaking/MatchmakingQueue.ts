@@ -0,0 +1,172 @@
+import { v4 as uuidv4 } from "uuid";
+
+// A player looking for a match
+export interface QueueTicket {
+  socketId: string;
+  username: string;
+  rating: number;
+  teamSize: number;
+  queuedAt: number; // Epoch ms; kept when a failed ready check requeues
+}
+
+// A group that was matched and now has to accept
+export interface PendingMatch {
+  id: string;
+  teamSize: number;
+  tickets: QueueTicket[];
+  accepted: Set<string>; // Socket IDs
+  declined: Set<string>;
+  expiresAt: number; // Epoch ms
+}
+
+export type MatchmakingEvent =
+  | { type: "match-found"; match: PendingMatch }
+  | { type: "match-confirmed"; match: PendingMatch }
+  // `dropped` declined or let the timer run out; everyone else is requeued
+  | { type: "match-cancelled"; match: PendingMatch; dropped: QueueTicket[] };
+
+// Players are matched within this many rating points of each other. The
+// range starts narrow and widens the longer a player waits.
+const BASE_RATING_RANGE = 100;
+const RANGE_GROWTH_PER_SECOND = 10;
+const MAX_RATING_RANGE = 800;
+export const ACCEPT_TIMEOUT_MS = 15000;
+
+const ratingRange = (ticket: QueueTicket, now: number) =>
+  Math.min(
+    MAX_RATING_RANGE,
+    BASE_RATING_RANGE +
+      (RANGE_GROWTH_PER_SECOND * (now - ticket.queuedAt)) / 1000
+  );
+
+// Groups queued players into matches of similar rating and runs the
+// ready check. Call step() periodically and after every accept/decline.
+export class MatchmakingQueue {
+  private waiting: QueueTicket[] = [];
+  private pending: Map<string, PendingMatch> = new Map();
+
+  get queuedCount() {
+    return this.waiting.length;
+  }
+
+  isQueued(socketId: string) {
+    return (
+      this.waiting.some((t) => t.socketId === socketId) ||
+      this.findPending(socketId) !== undefined
+    );
+  }
+
+  hasUsername(username: string) {
+    const name = username.toLowerCase();
+    return (
+      this.waiting.some((t) => t.username.toLowerCase() === name) ||
+      [...this.pending.values()].some((m) =>
+        m.tickets.some((t) => t.username.toLowerCase() === name)
+      )
+    );
+  }
+
+  enqueue(ticket: QueueTicket) {
+    this.waiting.push(ticket);
+  }
+
+  // Leave the queue; a pending ready check counts as declined
+  dequeue(socketId: string) {
+    const before = this.waiting.length;
+    this.waiting = this.waiting.filter((t) => t.socketId !== socketId);
+    if (this.waiting.length < before) return true;
+    return this.decline(socketId);
+  }
+
+  accept(socketId: string) {
+    const match = this.findPending(socketId);
+    if (!match || match.declined.has(socketId)) return false;
+    match.accepted.add(socketId);
+    return true;
+  }
+
+  decline(socketId: string) {
+    const match = this.findPending(socketId);
+    if (!match) return false;
+    match.accepted.delete(socketId);
+    match.declined.add(socketId);
+    return true;
+  }
+
+  step(now: number): MatchmakingEvent[] {
+    const events: MatchmakingEvent[] = [];
+
+    for (const match of this.pending.values()) {
+      if (match.accepted.size === match.tickets.length) {
+        this.pending.delete(match.id);
+        events.push({ type: "match-confirmed", match });
+      } else if (match.declined.size > 0 || now >= match.expiresAt) {
+        this.pending.delete(match.id);
+        // A decline only drops the decliners; running out of time drops
+        // everyone who hadn't accepted
+        const timedOut = match.declined.size === 0;
+        const dropped = match.tickets.filter(
+          (t) =>
+            match.declined.has(t.socketId) ||
+            (timedOut && !match.accepted.has(t.socketId))
+        );
+        // Everyone else keeps their place in line
+        this.waiting.push(...match.tickets.filter((t) => !dropped.includes(t)));
+        events.push({ type: "match-cancelled", match, dropped });
+      }
+    }
+
+    for (const tickets of this.formGroups(now)) {
+      const match: PendingMatch = {
+        id: uuidv4(),
+        teamSize: tickets[0].teamSize,
+        tickets,
+        accepted: new Set(),
+        declined: new Set(),
+        expiresAt: now + ACCEPT_TIMEOUT_MS,
+      };
+      this.pending.set(match.id, match);
+      events.push({ type: "match-found", match });
+    }
+    return events;
+  }
+
+  private findPending(socketId: string) {
+    for (const match of this.pending.values()) {
+      if (match.tickets.some((t) => t.socketId === socketId)) return match;
+    }
+    return undefined;
+  }
+
+  // Longest-waiting players first: each one is matched with the closest
+  // rated players that are in range of it and it is in range of
+  private formGroups(now: number): QueueTicket[][] {
+    const groups: QueueTicket[][] = [];
+    const byAge = [...this.waiting].sort((a, b) => a.queuedAt - b.queuedAt);
+    const taken = new Set<QueueTicket>();
+    for (const anchor of byAge) {
+      if (taken.has(anchor)) continue;
+      const needed = anchor.teamSize * 2 - 1;
+      const candidates = byAge
+        .filter(
+          (t) =>
+            t !== anchor &&
+            !taken.has(t) &&
+            t.teamSize === anchor.teamSize &&
+            Math.abs(t.rating - anchor.rating) <=
+              Math.min(ratingRange(anchor, now), ratingRange(t, now))
+        )
+        .sort(
+          (a, b) =>
+            Math.abs(a.rating - anchor.rating) -
+            Math.abs(b.rating - anchor.rating)
+        );
+      if (candidates.length < needed) continue;
+      const group = [anchor, ...candidates.slice(0, needed)];
+      group.forEach((t) => taken.add(t));
+      groups.push(group);
+    }
+    this.waiting = this.waiting.filter((t) => !taken.has(t));
+    return groups;
+  }
+}
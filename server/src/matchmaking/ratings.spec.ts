@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { MemoryStorage } from "../storage/MemoryStorage";
+import { DEFAULT_RATING, RatedPlayer, RatingBook } from "./ratings";
+
+// A player at the default rating with `matches` already played
+const veteran = (storage: MemoryStorage, username: string, matches: number) =>
+  storage.saveRating(username, {
+    rating: DEFAULT_RATING,
+    matches,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+  });
+
+const PLAYERS: RatedPlayer[] = [
+  { username: "Alice", team: "alpha" },
+  { username: "Carol", team: "alpha" },
+  { username: "Bob", team: "bravo" },
+  { username: "Dave", team: "bravo" },
+];
+
+describe("RatingBook", () => {
+  it("moves even teams by half the K factor", () => {
+    const storage = new MemoryStorage();
+    PLAYERS.forEach((p) => veteran(storage, p.username, 20));
+
+    expect(new RatingBook(storage).recordMatch(PLAYERS, "alpha")).toEqual([
+      { username: "Alice", before: 1000, after: 1016 },
+      { username: "Carol", before: 1000, after: 1016 },
+      { username: "Bob", before: 1000, after: 984 },
+      { username: "Dave", before: 1000, after: 984 },
+    ]);
+  });
+
+  it("moves provisional players further than their teammates", () => {
+    const storage = new MemoryStorage();
+    ["Alice", "Bob", "Dave"].forEach((name) => veteran(storage, name, 20));
+    veteran(storage, "Carol", 9); // Her tenth and last provisional match is next
+    const book = new RatingBook(storage);
+
+    expect(book.recordMatch(PLAYERS, "alpha")).toEqual([
+      { username: "Alice", before: 1000, after: 1016 },
+      { username: "Carol", before: 1000, after: 1032 },
+      { username: "Bob", before: 1000, after: 984 },
+      { username: "Dave", before: 1000, after: 984 },
+    ]);
+    // From her eleventh match on she moves like everyone else
+    const [alice, carol] = book.recordMatch(PLAYERS, "bravo");
+    expect(carol.before - carol.after).toBe(alice.before - alice.after);
+  });
+});
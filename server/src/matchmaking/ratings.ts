@@ -0,0 +1,79 @@
+import { TeamId } from "../game/types";
+import { Storage } from "../storage/types";
+import type { PlayerRating, RatingChange } from "shared";
+
+export type { PlayerRating, RatingChange } from "shared";
+
+// Elo ratings. Teams are rated by their average, so everyone on a team has
+// the same expected score; how far each player moves still depends on their
+// own K factor, which is larger for their first few matches.
+
+// One player of a rated match, with the team they played for
+export interface RatedPlayer {
+  username: string;
+  team: TeamId;
+}
+
+export const DEFAULT_RATING = 1000;
+const K_FACTOR = 32;
+const PROVISIONAL_K_FACTOR = 64; // New players find their level faster
+const PROVISIONAL_MATCHES = 10;
+
+// Chance that a side rated `rating` beats one rated `opponent`
+export const expectedScore = (rating: number, opponent: number) =>
+  1 / (1 + Math.pow(10, (opponent - rating) / 400));
+
+const newRating = (): PlayerRating => ({
+  rating: DEFAULT_RATING,
+  matches: 0,
+  wins: 0,
+  losses: 0,
+  draws: 0,
+});
+
+const average = (values: number[]) =>
+  values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+
+// Ratings of every player seen so far, kept in storage by username
+export class RatingBook {
+  private storage: Storage;
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  get(username: string): PlayerRating {
+    return this.storage.getRating(username) ?? newRating();
+  }
+
+  // Apply a finished match; a forfeit counts as a loss for the team that left
+  recordMatch(players: RatedPlayer[], winner: TeamId | "draw"): RatingChange[] {
+    const teamRating = (team: TeamId) =>
+      average(
+        players
+          .filter((p) => p.team === team)
+          .map((p) => this.get(p.username).rating)
+      );
+    const alpha = teamRating("alpha");
+    const bravo = teamRating("bravo");
+
+    return players.map(({ username, team }) => {
+      const record = this.get(username);
+      const [own, opponent] =
+        team === "alpha" ? [alpha, bravo] : [bravo, alpha];
+      const score = winner === "draw" ? 0.5 : winner === team ? 1 : 0;
+      const k =
+        record.matches < PROVISIONAL_MATCHES ? PROVISIONAL_K_FACTOR : K_FACTOR;
+      const before = record.rating;
+      record.rating = Math.round(
+        before + k * (score - expectedScore(own, opponent))
+      );
+      record.matches++;
+      if (score === 1) record.wins++;
+      else if (score === 0) record.losses++;
+      else record.draws++;
+      this.storage.saveRating(username, record);
+      return { username, before, after: record.rating };
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { TICK_RATE } from "../game/constants";
+
+// Stringifying every snapshot would cost more than sending it, so JSON
+// sizes are only measured on one tick in this many and extrapolated
+const JSON_SAMPLE_TICKS = TICK_RATE; // Once per second
+
+// Running byte counts for comparing the binary protocol with plain JSON
+export class BandwidthCounter {
+  private binaryBytes = 0;
+  private snapshots = 0;
+  private fullSnapshots = 0;
+  private jsonBytes = 0; // Over the measured snapshots only
+  private jsonSnapshots = 0;
+  private ticks = 0;
+  private startedAt = Date.now();
+
+  // Call once per tick before recording its snapshots. True if this
+  // tick's snapshots should be measured as JSON too.
+  startTick() {
+    return this.ticks++ % JSON_SAMPLE_TICKS === 0;
+  }
+
+  record(binaryBytes: number, full: boolean) {
+    this.binaryBytes += binaryBytes;
+    this.snapshots++;
+    if (full) this.fullSnapshots++;
+  }
+
+  recordJson(jsonBytes: number) {
+    this.jsonBytes += jsonBytes;
+    this.jsonSnapshots++;
+  }
+
+  get elapsedMs() {
+    return Date.now() - this.startedAt;
+  }
+
+  // Rates since the last call, then start a new measuring period
+  takeSample() {
+    const now = Date.now();
+    const seconds = Math.max(0.001, (now - this.startedAt) / 1000);
+    const jsonPerSnapshot = this.jsonSnapshots
+      ? this.jsonBytes / this.jsonSnapshots
+      : 0;
+    const sample = {
+      binaryPerSecond: Math.round(this.binaryBytes / seconds),
+      jsonPerSecond: Math.round((jsonPerSnapshot * this.snapshots) / seconds),
+      fullSnapshots: this.fullSnapshots,
+    };
+    this.binaryBytes = 0;
+    this.snapshots = 0;
+    this.fullSnapshots = 0;
+    this.jsonBytes = 0;
+    this.jsonSnapshots = 0;
+    this.startedAt = now;
+    return sample;
+  }
+}
@@ -0,0 +1,297 @@
+import type { ClientToServerEvents } from "shared";
+
+type EventName = keyof ClientToServerEvents;
+
+// A token bucket: up to `burst` requests at once, refilled at `perSecond`
+export interface RateLimit {
+  burst: number;
+  perSecond: number;
+}
+
+// Every connection gets its own bucket per event. Events that are costly
+// for everyone (e.g. create-room, which updates every lobby browser) also
+// share a bucket per IP address, so opening more tabs doesn't help.
+export interface EventRateLimit {
+  connection: RateLimit;
+  ip?: RateLimit;
+}
+
+const DEFAULT_EVENT_LIMIT: EventRateLimit = {
+  connection: { burst: 10, perSecond: 2 },
+};
+
+// Anything not listed gets the default. Match traffic is sent once per
+// tick (20 per second), so it gets room for that and a little jitter.
+export const EVENT_RATE_LIMITS: Partial<Record<EventName, EventRateLimit>> = {
+  "player-input": { connection: { burst: 40, perSecond: 30 } },
+  "snapshot-ack": { connection: { burst: 40, perSecond: 30 } },
+  "latency-ping": { connection: { burst: 5, perSecond: 1 } },
+  "get-lobbies": {
+    connection: { burst: 10, perSecond: 2 },
+    ip: { burst: 30, perSecond: 6 },
+  },
+  "create-room": {
+    connection: { burst: 3, perSecond: 0.1 },
+    ip: { burst: 6, perSecond: 0.2 },
+  },
+  "join-room": {
+    connection: { burst: 5, perSecond: 0.5 },
+    ip: { burst: 15, perSecond: 1 },
+  },
+  "send-message": {
+    connection: { burst: 5, perSecond: 1 },
+    ip: { burst: 15, perSecond: 3 },
+  },
+  "find-match": { connection: { burst: 3, perSecond: 0.2 } },
+};
+
+// Password guesses at POST /auth/login, per IP and per account name. Each
+// guess costs a scrypt hash, so these are much tighter than socket events.
+// Registering hashes too and spends from the same per-IP bucket.
+export const LOGIN_RATE_LIMITS: Record<"ip" | "username", RateLimit> = {
+  ip: { burst: 20, perSecond: 0.2 },
+  username: { burst: 5, perSecond: 1 / 60 },
+};
+
+// Going over a limit is a strike. Enough strikes in a short time mute the
+// player's chat; more disconnect them and keep their IP out for a while.
+const STRIKE_WINDOW_MS = 60000;
+const MUTE_AFTER_STRIKES = 5;
+const MUTE_MS = 60000;
+const DISCONNECT_AFTER_STRIKES = 15;
+const BLOCK_MS = 60000;
+const MAX_CONNECTIONS_PER_IP = 10;
+
+class TokenBucket {
+  private limit: RateLimit;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(limit: RateLimit, now: number) {
+    this.limit = limit;
+    this.tokens = limit.burst;
+    this.updatedAt = now;
+  }
+
+  private refill(now: number) {
+    const seconds = Math.max(0, now - this.updatedAt) / 1000;
+    this.tokens = Math.min(
+      this.limit.burst,
+      this.tokens + seconds * this.limit.perSecond
+    );
+    this.updatedAt = now;
+  }
+
+  take(now: number) {
+    this.refill(now);
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  // Back at full burst, so dropping it changes nothing
+  isFull(now: number) {
+    this.refill(now);
+    return this.tokens >= this.limit.burst;
+  }
+}
+
+interface Connection {
+  ip: string;
+  username: string;
+  buckets: Map<string, TokenBucket>; // By event
+  strikes: number[]; // Epoch ms, oldest first
+}
+
+export type RateLimitVerdict =
+  | { allowed: true }
+  // What this hit escalated to, if anything
+  | { allowed: false; escalation: "mute" | "disconnect" | null };
+
+export type ConnectVerdict =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+// Counted since the server started
+export interface RateLimitMetrics {
+  limitHits: Record<string, number>; // By event, and "login"
+  mutes: number;
+  disconnects: number;
+  refusedConnections: number;
+  openConnections: number;
+  blockedIps: number;
+}
+
+// Token-bucket limits on socket events per connection and per IP, with
+// escalating penalties for repeat offenders, plus the login limits. Call
+// prune() periodically to forget idle buckets and expired penalties.
+export class RateLimiter {
+  private connections: Map<string, Connection> = new Map(); // By socket ID
+  private connectionsPerIp: Map<string, number> = new Map();
+  private ipBuckets: Map<string, TokenBucket> = new Map(); // By "ip event"
+  private loginBuckets: Map<string, TokenBucket> = new Map(); // By "ip <ip>" or "user <name>"
+  private mutedUntil: Map<string, number> = new Map(); // By username
+  private blockedUntil: Map<string, number> = new Map(); // By IP
+  private limitHits: Map<string, number> = new Map();
+  private mutes = 0;
+  private disconnects = 0;
+  private refusedConnections = 0;
+
+  // Register a new connection, unless its IP is blocked or has too many
+  connect(
+    socketId: string,
+    ip: string,
+    username: string,
+    now: number
+  ): ConnectVerdict {
+    if ((this.blockedUntil.get(ip) ?? 0) > now) {
+      this.refusedConnections++;
+      return { allowed: false, reason: "Temporarily blocked for flooding." };
+    }
+    const open = this.connectionsPerIp.get(ip) ?? 0;
+    if (open >= MAX_CONNECTIONS_PER_IP) {
+      this.refusedConnections++;
+      return { allowed: false, reason: "Too many connections." };
+    }
+    this.connectionsPerIp.set(ip, open + 1);
+    this.connections.set(socketId, {
+      ip,
+      username,
+      buckets: new Map(),
+      strikes: [],
+    });
+    return { allowed: true };
+  }
+
+  disconnect(socketId: string) {
+    const connection = this.connections.get(socketId);
+    if (!connection) return;
+    this.connections.delete(socketId);
+    const open = (this.connectionsPerIp.get(connection.ip) ?? 1) - 1;
+    if (open > 0) {
+      this.connectionsPerIp.set(connection.ip, open);
+    } else {
+      this.connectionsPerIp.delete(connection.ip);
+    }
+  }
+
+  // Spend a token for one packet. Unknown events (null) share one bucket.
+  check(
+    socketId: string,
+    event: EventName | null,
+    now: number
+  ): RateLimitVerdict {
+    const connection = this.connections.get(socketId);
+    if (!connection) return { allowed: true };
+    const name = event ?? "unknown";
+    const limit = (event && EVENT_RATE_LIMITS[event]) || DEFAULT_EVENT_LIMIT;
+
+    let bucket = connection.buckets.get(name);
+    if (!bucket) {
+      bucket = new TokenBucket(limit.connection, now);
+      connection.buckets.set(name, bucket);
+    }
+    let allowed = bucket.take(now);
+    if (allowed && limit.ip) {
+      const key = `${connection.ip} ${name}`;
+      let ipBucket = this.ipBuckets.get(key);
+      if (!ipBucket) {
+        ipBucket = new TokenBucket(limit.ip, now);
+        this.ipBuckets.set(key, ipBucket);
+      }
+      allowed = ipBucket.take(now);
+    }
+    if (allowed) return { allowed: true };
+
+    this.limitHits.set(name, (this.limitHits.get(name) ?? 0) + 1);
+    return { allowed: false, escalation: this.strike(connection, now) };
+  }
+
+  // Spend a token for one login attempt from the IP's bucket and the
+  // account's, so neither one address nor many can guess freely
+  checkLogin(ip: string, username: string, now: number) {
+    const allowed =
+      this.takeLogin(`ip ${ip}`, LOGIN_RATE_LIMITS.ip, now) &&
+      this.takeLogin(
+        `user ${username.trim().toLowerCase()}`,
+        LOGIN_RATE_LIMITS.username,
+        now
+      );
+    if (!allowed) {
+      this.limitHits.set("login", (this.limitHits.get("login") ?? 0) + 1);
+    }
+    return allowed;
+  }
+
+  // Spend a token for one registration from the IP's login bucket
+  checkRegister(ip: string, now: number) {
+    const allowed = this.takeLogin(`ip ${ip}`, LOGIN_RATE_LIMITS.ip, now);
+    if (!allowed) {
+      this.limitHits.set("login", (this.limitHits.get("login") ?? 0) + 1);
+    }
+    return allowed;
+  }
+
+  private takeLogin(key: string, limit: RateLimit, now: number) {
+    let bucket = this.loginBuckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(limit, now);
+      this.loginBuckets.set(key, bucket);
+    }
+    return bucket.take(now);
+  }
+
+  // How much longer the player's chat is muted, in ms
+  mutedFor(username: string, now: number) {
+    return Math.max(0, (this.mutedUntil.get(username) ?? 0) - now);
+  }
+
+  private strike(
+    connection: Connection,
+    now: number
+  ): "mute" | "disconnect" | null {
+    connection.strikes = connection.strikes.filter(
+      (at) => now - at < STRIKE_WINDOW_MS
+    );
+    connection.strikes.push(now);
+    const count = connection.strikes.length;
+    if (count >= DISCONNECT_AFTER_STRIKES) {
+      this.disconnects++;
+      this.blockedUntil.set(connection.ip, now + BLOCK_MS);
+      return "disconnect";
+    }
+    if (count === MUTE_AFTER_STRIKES) {
+      this.mutes++;
+      this.mutedUntil.set(connection.username, now + MUTE_MS);
+      return "mute";
+    }
+    return null;
+  }
+
+  prune(now: number) {
+    for (const [key, bucket] of this.ipBuckets) {
+      if (bucket.isFull(now)) this.ipBuckets.delete(key);
+    }
+    for (const [key, bucket] of this.loginBuckets) {
+      if (bucket.isFull(now)) this.loginBuckets.delete(key);
+    }
+    for (const [username, until] of this.mutedUntil) {
+      if (until <= now) this.mutedUntil.delete(username);
+    }
+    for (const [ip, until] of this.blockedUntil) {
+      if (until <= now) this.blockedUntil.delete(ip);
+    }
+  }
+
+  metrics(now: number): RateLimitMetrics {
+    this.prune(now);
+    return {
+      limitHits: Object.fromEntries(this.limitHits),
+      mutes: this.mutes,
+      disconnects: this.disconnects,
+      refusedConnections: this.refusedConnections,
+      openConnections: this.connections.size,
+      blockedIps: this.blockedUntil.size,
+    };
+  }
+}
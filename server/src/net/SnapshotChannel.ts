@@ -0,0 +1,41 @@
+import { GameSnapshot } from "../game/types";
+import { canonicalOrder, encodeSnapshot } from "./snapshotCodec";
+
+// How many sent snapshots we keep around as potential baselines. An ack
+// older than this can't be used and the client gets a full snapshot.
+const MAX_BASELINES = 32;
+
+// Delta state for one client. Each snapshot is encoded against the newest
+// one the client has acknowledged; until there is one (new connection,
+// reconnect, a new match, or acks falling too far behind) full snapshots
+// are sent instead.
+export class SnapshotChannel {
+  private sent: GameSnapshot[] = [];
+  private ackedTick: number | null = null;
+
+  encode(snapshot: GameSnapshot): { data: Uint8Array; full: boolean } {
+    const baseline =
+      this.ackedTick === null
+        ? null
+        : this.sent.find((s) => s.tick === this.ackedTick) ?? null;
+    const ordered = canonicalOrder(snapshot, baseline);
+    this.sent.push(ordered);
+    if (this.sent.length > MAX_BASELINES) {
+      this.sent.shift();
+    }
+    return { data: encodeSnapshot(ordered, baseline), full: baseline === null };
+  }
+
+  ack(tick: number) {
+    if (this.ackedTick !== null && tick <= this.ackedTick) return;
+    if (this.sent.some((s) => s.tick === tick)) {
+      this.ackedTick = tick;
+    }
+  }
+
+  // Start over from a full snapshot, e.g. when the client lost its baseline
+  reset() {
+    this.sent = [];
+    this.ackedTick = null;
+  }
+}
@@ -0,0 +1,68 @@
+// Minimal little-endian binary writer for network packets
+
+const textEncoder = new TextEncoder();
+
+export class BinaryWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  private reserve(bytes: number) {
+    if (this.offset + bytes <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.offset + bytes) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer);
+    this.buffer = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  u8(value: number) {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number) {
+    this.reserve(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number) {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f32(value: number) {
+    this.reserve(4);
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f64(value: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  // UTF-8 with a u16 byte length prefix
+  string(value: string) {
+    const bytes = textEncoder.encode(value);
+    this.u16(bytes.length);
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  optionalString(value: string | null) {
+    this.u8(value === null ? 0 : 1);
+    if (value !== null) this.string(value);
+  }
+
+  // Copy of everything written so far
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+}
@@ -0,0 +1,8 @@
+import type { ErrorCode, ErrorResponse } from "shared";
+
+// How every refused request is answered, over sockets and REST alike
+export const failure = (code: ErrorCode, message: string): ErrorResponse => ({
+  success: false,
+  code,
+  message,
+});
@@ -0,0 +1,199 @@
+import type { ClientToServerEvents } from "shared";
+import { isItemId } from "../game/items";
+
+// The shape of every event's arguments, checked before any handler runs so
+// handlers can trust their parameter types. Ranges and cross-field rules
+// stay with the domain validators (validateRoomSettings and friends).
+
+interface ArgCheck {
+  expected: string; // For the error message, e.g. "a string"
+  test: (value: unknown) => boolean;
+}
+
+interface EventSchema {
+  args: ArgCheck[];
+  // Whether the last argument answers with a Result, errors included, or
+  // there is no answer (errors go out as request-rejected instead)
+  reply: "result" | "none";
+}
+
+export type EventArgsResult =
+  | { valid: true; reply: EventSchema["reply"] }
+  | { valid: false; reply: EventSchema["reply"]; message: string };
+
+const string: ArgCheck = {
+  expected: "a string",
+  test: (value) => typeof value === "string",
+};
+
+const nonEmptyString: ArgCheck = {
+  expected: "a non-empty string",
+  test: (value) => typeof value === "string" && value.trim() !== "",
+};
+
+const boolean: ArgCheck = {
+  expected: "true or false",
+  test: (value) => typeof value === "boolean",
+};
+
+const integer: ArgCheck = {
+  expected: "a whole number",
+  test: (value) => Number.isInteger(value),
+};
+
+const object: ArgCheck = {
+  expected: "an object",
+  test: (value) =>
+    typeof value === "object" && value !== null && !Array.isArray(value),
+};
+
+const optional = (check: ArgCheck): ArgCheck => ({
+  expected: `${check.expected} or nothing`,
+  test: (value) => value === undefined || value === null || check.test(value),
+});
+
+const fields = (shape: Record<string, ArgCheck>): ArgCheck => ({
+  expected: `an object with ${Object.entries(shape)
+    .map(([key, check]) => `${key} (${check.expected})`)
+    .join(", ")}`,
+  test: (value) =>
+    object.test(value) &&
+    Object.entries(shape).every(([key, check]) =>
+      check.test((value as Record<string, unknown>)[key])
+    ),
+});
+
+const side: ArgCheck = {
+  expected: '"attack" or "defend"',
+  test: (value) => value === "attack" || value === "defend",
+};
+
+const chatChannel: ArgCheck = {
+  expected: '"all" or "team"',
+  test: (value) => value === "all" || value === "team",
+};
+
+const itemId: ArgCheck = {
+  expected: "an item ID",
+  test: isItemId,
+};
+
+// Every client event must be listed, so a new one can't skip validation
+const EVENT_SCHEMAS: Record<keyof ClientToServerEvents, EventSchema> = {
+  "get-lobbies": { args: [optional(object)], reply: "result" },
+  "unsubscribe-lobbies": { args: [], reply: "none" },
+
+  "create-room": {
+    args: [optional(object), optional(string)],
+    reply: "result",
+  },
+  "join-room": {
+    args: [
+      string,
+      optional(
+        fields({ password: optional(string), inviteToken: optional(string) })
+      ),
+    ],
+    reply: "result",
+  },
+  "resume-session": { args: [string], reply: "result" },
+  "get-room-state": { args: [string], reply: "none" },
+  "toggle-ready": { args: [], reply: "result" },
+  "leave-room": { args: [], reply: "result" },
+
+  "switch-team": { args: [], reply: "result" },
+  "request-swap": { args: [string], reply: "result" },
+  "accept-swap": { args: [string], reply: "result" },
+  "balance-teams": { args: [], reply: "result" },
+
+  "kick-player": { args: [string], reply: "result" },
+  "ban-player": { args: [string], reply: "result" },
+  "transfer-host": { args: [string], reply: "result" },
+  "set-room-locked": { args: [boolean], reply: "result" },
+  "set-room-password": { args: [optional(string)], reply: "result" },
+  "regenerate-invite": { args: [], reply: "result" },
+  "update-settings": { args: [object], reply: "result" },
+
+  "find-match": { args: [integer], reply: "result" },
+  "cancel-matchmaking": { args: [], reply: "result" },
+  "respond-to-match": { args: [boolean], reply: "result" },
+  "get-rating": { args: [nonEmptyString], reply: "result" },
+
+  "get-profile": { args: [nonEmptyString], reply: "result" },
+  "get-match": { args: [nonEmptyString], reply: "result" },
+
+  "get-maps": { args: [], reply: "result" },
+  "get-map": { args: [string], reply: "result" },
+  "get-items": { args: [], reply: "result" },
+
+  // Frames are checked field by field by sanitizeInput
+  "player-input": { args: [object], reply: "none" },
+  "snapshot-ack": { args: [integer], reply: "none" },
+  "snapshot-resync": { args: [], reply: "none" },
+  "choose-side": { args: [side], reply: "result" },
+  "buy-item": { args: [itemId], reply: "result" },
+  "latency-ping": { args: [], reply: "result" },
+
+  "send-message": {
+    args: [
+      fields({ roomId: string, channel: chatChannel, message: nonEmptyString }),
+    ],
+    reply: "none",
+  },
+  "get-chat-history": { args: [], reply: "result" },
+};
+
+export const isEventName = (
+  event: string
+): event is keyof ClientToServerEvents =>
+  Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, event);
+
+// Check an incoming packet. Events that reply must end with a callback;
+// extra arguments are refused rather than ignored.
+export const validateEventArgs = (
+  event: string,
+  args: unknown[]
+): EventArgsResult => {
+  if (!isEventName(event)) {
+    return {
+      valid: false,
+      reply: "none",
+      message: `Unknown event "${event}".`,
+    };
+  }
+  const { args: checks, reply } = EVENT_SCHEMAS[event];
+  let values = args;
+  if (reply !== "none") {
+    if (typeof args[args.length - 1] !== "function") {
+      return {
+        valid: false,
+        reply: "none",
+        message: `${event} needs a callback as its last argument.`,
+      };
+    }
+    values = args.slice(0, -1);
+  }
+  // Before a callback every argument must be there, optional ones as null;
+  // otherwise the callback would land in an argument's place
+  const fits =
+    reply === "none"
+      ? values.length <= checks.length
+      : values.length === checks.length;
+  if (!fits) {
+    return {
+      valid: false,
+      reply,
+      message: `${event} takes ${checks.length} argument(s), got ${values.length}.`,
+    };
+  }
+  for (let i = 0; i < checks.length; i++) {
+    if (!checks[i].test(values[i])) {
+      return {
+        valid: false,
+        reply,
+        message: `${event} expects ${checks[i].expected} as argument ${i + 1}.`,
+      };
+    }
+  }
+  return { valid: true, reply };
+};
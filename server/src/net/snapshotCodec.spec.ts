@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import { decodeSnapshot } from "../../../client/src/net/snapshotCodec";
+import { GameSnapshot, PlayerState } from "../game/types";
+import { SnapshotChannel } from "./SnapshotChannel";
+import { encodeSnapshot } from "./snapshotCodec";
+
+// Floats in these fixtures are exact in f32, so round trips compare equal
+const player = (
+  id: string,
+  overrides: Partial<PlayerState> = {}
+): PlayerState => ({
+  id,
+  username: id.toUpperCase(),
+  team: "alpha",
+  position: { x: 100.5, y: 200 },
+  aim: 0.25,
+  health: 100,
+  alive: true,
+  kills: 0,
+  deaths: 0,
+  money: 800,
+  weapon: "pistol",
+  armor: 0,
+  hasDefuseKit: false,
+  canBuy: true,
+  lastProcessedInput: 0,
+  ...overrides,
+});
+
+const snapshot = (
+  tick: number,
+  overrides: Partial<GameSnapshot> = {}
+): GameSnapshot => ({
+  roomId: "ROOM01",
+  mapId: "dust-lite",
+  tick,
+  time: tick * 50,
+  match: {
+    phase: "live",
+    round: 3,
+    overtime: 0,
+    timeLeft: 90000,
+    score: { alpha: 1, bravo: 1 },
+    sides: { alpha: "attack", bravo: "defend" },
+    roundWinner: null,
+    roundEndReason: null,
+    matchWinner: null,
+    forfeitedBy: null,
+    sidePicker: null,
+  },
+  bomb: {
+    status: "idle",
+    siteId: null,
+    position: null,
+    channelerId: null,
+    progress: 0,
+    timeLeft: 0,
+  },
+  players: [
+    player("a"),
+    player("b", { team: "bravo", weapon: "rifle", armor: 100 }),
+  ],
+  tracers: [],
+  ...overrides,
+});
+
+// The client's end of the stream, as SnapshotStream keeps it: every decoded
+// snapshot is a possible baseline, and a full one starts the list over
+const createReceiver = () => {
+  const history: GameSnapshot[] = [];
+  return (data: Uint8Array) => {
+    // Socket.IO hands the client an ArrayBuffer of exactly the packet
+    const result = decodeSnapshot(data.slice().buffer, (tick) =>
+      history.find((s) => s.tick === tick)
+    );
+    if (result.ok) {
+      if (result.full) history.length = 0;
+      history.push(result.snapshot);
+    }
+    return result;
+  };
+};
+
+describe("snapshot codec, server to client", () => {
+  it("decodes a full snapshot to what was encoded", () => {
+    const full = snapshot(1, {
+      bomb: {
+        status: "planted",
+        siteId: "A",
+        position: { x: 640, y: 320 },
+        channelerId: null,
+        progress: 0,
+        timeLeft: 40000,
+      },
+      tracers: [
+        {
+          id: 7,
+          shooterId: "a",
+          from: { x: 100.5, y: 200 },
+          to: { x: 400, y: 200 },
+          tick: 1,
+        },
+      ],
+    });
+
+    expect(createReceiver()(encodeSnapshot(full, null))).toEqual({
+      ok: true,
+      full: true,
+      snapshot: full,
+    });
+  });
+
+  it("patches only the fields that changed since the baseline", () => {
+    const receive = createReceiver();
+    const baseline = snapshot(1);
+    receive(encodeSnapshot(baseline, null));
+
+    const next = snapshot(2, {
+      match: { ...baseline.match, timeLeft: 89950 },
+      bomb: { ...baseline.bomb, status: "planting", channelerId: "a" },
+      players: [
+        player("a", { position: { x: 104.5, y: 196 }, lastProcessedInput: 3 }),
+        baseline.players[1],
+      ],
+    });
+    const delta = encodeSnapshot(next, baseline);
+
+    expect(delta.length).toBeLessThan(encodeSnapshot(next, null).length);
+    expect(receive(delta)).toEqual({ ok: true, full: false, snapshot: next });
+  });
+
+  it("drops removed players and tracers and appends new ones", () => {
+    const receive = createReceiver();
+    const tracer = (id: number) => ({
+      id,
+      shooterId: "a",
+      from: { x: 0, y: 0 },
+      to: { x: 32, y: 0 },
+      tick: id,
+    });
+    const baseline = snapshot(1, {
+      players: [player("a"), player("b"), player("c")],
+      tracers: [tracer(1)],
+    });
+    receive(encodeSnapshot(baseline, null));
+
+    // "b" left, "c" took damage and "d" joined
+    const next = snapshot(2, {
+      players: [player("a"), player("c", { health: 73 }), player("d")],
+      tracers: [tracer(2)],
+    });
+
+    expect(receive(encodeSnapshot(next, baseline))).toEqual({
+      ok: true,
+      full: false,
+      snapshot: next,
+    });
+  });
+
+  it("deltas from the last ack survive a dropped frame", () => {
+    const channel = new SnapshotChannel();
+    const receive = createReceiver();
+    const moved = (tick: number) =>
+      snapshot(tick, {
+        players: [player("a", { position: { x: 100 + tick, y: 200 } })],
+      });
+
+    expect(receive(channel.encode(moved(1)).data)).toMatchObject({
+      ok: true,
+      full: true,
+    });
+    channel.ack(1);
+    channel.encode(moved(2)); // Lost on the way
+
+    const third = channel.encode(moved(3));
+    expect(third.full).toBe(false);
+    expect(receive(third.data)).toEqual({
+      ok: true,
+      full: false,
+      snapshot: moved(3),
+    });
+    channel.ack(3);
+    expect(receive(channel.encode(moved(4)).data)).toMatchObject({
+      ok: true,
+      snapshot: moved(4),
+    });
+  });
+
+  it("turns down a delta without its baseline until a resync", () => {
+    const channel = new SnapshotChannel();
+    channel.encode(snapshot(1));
+    channel.ack(1);
+
+    // A client that lost its history, e.g. after reloading the page
+    const receive = createReceiver();
+    expect(receive(channel.encode(snapshot(2)).data)).toEqual({
+      ok: false,
+      reason: "missing-baseline",
+    });
+
+    channel.reset(); // What "snapshot-resync" does
+    const resent = channel.encode(snapshot(3));
+    expect(resent.full).toBe(true);
+    expect(receive(resent.data)).toEqual({
+      ok: true,
+      full: true,
+      snapshot: snapshot(3),
+    });
+  });
+});
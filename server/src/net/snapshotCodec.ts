@@ -0,0 +1,275 @@
+import {
+  SNAPSHOT_BOMB_STATUSES,
+  SNAPSHOT_FLAG_BOMB,
+  SNAPSHOT_FLAG_FULL,
+  SNAPSHOT_FLAG_MATCH,
+  SNAPSHOT_PHASES,
+  SNAPSHOT_PROTOCOL_VERSION,
+  SNAPSHOT_REASONS,
+  SNAPSHOT_SIDES,
+  SNAPSHOT_TEAM_IDS,
+  SNAPSHOT_WEAPONS,
+} from "shared";
+import {
+  BombState,
+  GameSnapshot,
+  MatchState,
+  PlayerState,
+  Tracer,
+} from "../game/types";
+import { BinaryWriter } from "./binary";
+
+// Binary snapshot format, mirrored by client/src/net/snapshotCodec.ts. The
+// version, flags and enum tables are in the shared package.
+//
+// Every packet is a delta against a baseline snapshot the client has
+// acknowledged. A full snapshot is simply a delta against an empty
+// baseline. Layout (little-endian):
+//
+//   u8 version, u8 flags, u32 tick, [u32 baselineTick], f64 time
+//   [roomId, mapId]            full packets only
+//   [match]                    when changed
+//   [bomb]                     when changed
+//   players: removed, changed (field mask), added
+//   tracers: removed, added
+//
+// Players and tracers that are unchanged are not sent at all; removed and
+// changed entries refer to their index in the baseline.
+
+// Nullable enums are sent as 0 for null, otherwise index + 1
+const nullableIndex = <T>(table: T[], value: T | null) =>
+  value === null ? 0 : table.indexOf(value) + 1;
+
+// Per-field change detection and encoding for players. The order is the
+// bit order of the field mask.
+interface PlayerField {
+  changed: (a: PlayerState, b: PlayerState) => boolean;
+  write: (w: BinaryWriter, p: PlayerState) => void;
+}
+
+const PLAYER_FIELDS: PlayerField[] = [
+  {
+    changed: (a, b) => a.team !== b.team,
+    write: (w, p) => w.u8(SNAPSHOT_TEAM_IDS.indexOf(p.team)),
+  },
+  {
+    changed: (a, b) =>
+      a.position.x !== b.position.x || a.position.y !== b.position.y,
+    write: (w, p) => {
+      w.f32(p.position.x);
+      w.f32(p.position.y);
+    },
+  },
+  {
+    changed: (a, b) => a.aim !== b.aim,
+    write: (w, p) => w.f32(p.aim),
+  },
+  {
+    changed: (a, b) => a.health !== b.health,
+    write: (w, p) => w.u8(p.health),
+  },
+  {
+    changed: (a, b) =>
+      a.alive !== b.alive ||
+      a.hasDefuseKit !== b.hasDefuseKit ||
+      a.canBuy !== b.canBuy,
+    write: (w, p) =>
+      w.u8((p.alive ? 1 : 0) | (p.hasDefuseKit ? 2 : 0) | (p.canBuy ? 4 : 0)),
+  },
+  {
+    changed: (a, b) => a.kills !== b.kills || a.deaths !== b.deaths,
+    write: (w, p) => {
+      w.u16(p.kills);
+      w.u16(p.deaths);
+    },
+  },
+  {
+    changed: (a, b) => a.money !== b.money,
+    write: (w, p) => w.u16(p.money),
+  },
+  {
+    changed: (a, b) => a.weapon !== b.weapon || a.armor !== b.armor,
+    write: (w, p) => {
+      w.u8(SNAPSHOT_WEAPONS.indexOf(p.weapon));
+      w.u8(p.armor);
+    },
+  },
+  {
+    changed: (a, b) => a.lastProcessedInput !== b.lastProcessedInput,
+    write: (w, p) => w.u32(p.lastProcessedInput),
+  },
+];
+
+const ALL_PLAYER_FIELDS = (1 << PLAYER_FIELDS.length) - 1;
+
+const writePlayerFields = (w: BinaryWriter, p: PlayerState, mask: number) => {
+  w.u16(mask);
+  PLAYER_FIELDS.forEach((field, bit) => {
+    if (mask & (1 << bit)) field.write(w, p);
+  });
+};
+
+const sameMatch = (a: MatchState, b: MatchState) =>
+  a.phase === b.phase &&
+  a.round === b.round &&
+  a.overtime === b.overtime &&
+  a.timeLeft === b.timeLeft &&
+  a.score.alpha === b.score.alpha &&
+  a.score.bravo === b.score.bravo &&
+  a.sides.alpha === b.sides.alpha &&
+  a.sides.bravo === b.sides.bravo &&
+  a.roundWinner === b.roundWinner &&
+  a.roundEndReason === b.roundEndReason &&
+  a.matchWinner === b.matchWinner &&
+  a.forfeitedBy === b.forfeitedBy &&
+  a.sidePicker === b.sidePicker;
+
+const writeMatch = (w: BinaryWriter, match: MatchState) => {
+  w.u8(SNAPSHOT_PHASES.indexOf(match.phase));
+  w.u16(match.round);
+  w.u8(match.overtime);
+  w.u32(match.timeLeft);
+  w.u16(match.score.alpha);
+  w.u16(match.score.bravo);
+  w.u8(SNAPSHOT_SIDES.indexOf(match.sides.alpha));
+  w.u8(SNAPSHOT_SIDES.indexOf(match.sides.bravo));
+  w.u8(nullableIndex(SNAPSHOT_TEAM_IDS, match.roundWinner));
+  w.u8(nullableIndex(SNAPSHOT_REASONS, match.roundEndReason));
+  w.u8(
+    match.matchWinner === "draw"
+      ? SNAPSHOT_TEAM_IDS.length + 1
+      : nullableIndex(SNAPSHOT_TEAM_IDS, match.matchWinner)
+  );
+  w.u8(nullableIndex(SNAPSHOT_TEAM_IDS, match.forfeitedBy));
+  w.u8(nullableIndex(SNAPSHOT_TEAM_IDS, match.sidePicker));
+};
+
+const sameBomb = (a: BombState, b: BombState) =>
+  a.status === b.status &&
+  a.siteId === b.siteId &&
+  a.position?.x === b.position?.x &&
+  a.position?.y === b.position?.y &&
+  a.channelerId === b.channelerId &&
+  a.progress === b.progress &&
+  a.timeLeft === b.timeLeft;
+
+const writeBomb = (w: BinaryWriter, bomb: BombState) => {
+  w.u8(SNAPSHOT_BOMB_STATUSES.indexOf(bomb.status));
+  w.optionalString(bomb.siteId);
+  w.u8(bomb.position ? 1 : 0);
+  if (bomb.position) {
+    w.f32(bomb.position.x);
+    w.f32(bomb.position.y);
+  }
+  w.optionalString(bomb.channelerId);
+  w.f32(bomb.progress);
+  w.u32(bomb.timeLeft);
+};
+
+const writeTracer = (w: BinaryWriter, tracer: Tracer) => {
+  w.u32(tracer.id);
+  w.string(tracer.shooterId);
+  w.f32(tracer.from.x);
+  w.f32(tracer.from.y);
+  w.f32(tracer.to.x);
+  w.f32(tracer.to.y);
+  w.u32(tracer.tick);
+};
+
+// Put `snapshot` in the order the client will rebuild it in: entries kept
+// from the baseline first, in baseline order, then new ones. The encoder
+// must store this version so later baseline indexes line up.
+export const canonicalOrder = (
+  snapshot: GameSnapshot,
+  baseline: GameSnapshot | null
+): GameSnapshot => {
+  if (!baseline) return snapshot;
+  const sortLike = <T>(items: T[], before: T[], key: (item: T) => unknown) => {
+    const index = new Map(before.map((item, i) => [key(item), i]));
+    const rank = (item: T) => index.get(key(item)) ?? Infinity;
+    return [...items].sort((a, b) => rank(a) - rank(b));
+  };
+  return {
+    ...snapshot,
+    players: sortLike(snapshot.players, baseline.players, (p) => p.id),
+    tracers: sortLike(snapshot.tracers, baseline.tracers, (t) => t.id),
+  };
+};
+
+// Encode `snapshot` (already in canonical order) as a delta against
+// `baseline`, or as a full snapshot when there is none
+export const encodeSnapshot = (
+  snapshot: GameSnapshot,
+  baseline: GameSnapshot | null
+): Uint8Array => {
+  const w = new BinaryWriter();
+  const full = baseline === null;
+  const sendMatch = full || !sameMatch(baseline.match, snapshot.match);
+  const sendBomb = full || !sameBomb(baseline.bomb, snapshot.bomb);
+
+  w.u8(SNAPSHOT_PROTOCOL_VERSION);
+  w.u8(
+    (full ? SNAPSHOT_FLAG_FULL : 0) |
+      (sendMatch ? SNAPSHOT_FLAG_MATCH : 0) |
+      (sendBomb ? SNAPSHOT_FLAG_BOMB : 0)
+  );
+  w.u32(snapshot.tick);
+  if (!full) w.u32(baseline.tick);
+  w.f64(snapshot.time);
+  if (full) {
+    w.string(snapshot.roomId);
+    w.string(snapshot.mapId);
+  }
+  if (sendMatch) writeMatch(w, snapshot.match);
+  if (sendBomb) writeBomb(w, snapshot.bomb);
+
+  // Players
+  const basePlayers = baseline?.players ?? [];
+  const current = new Map(snapshot.players.map((p) => [p.id, p]));
+  const removed = basePlayers
+    .map((p, index) => ({ p, index }))
+    .filter(({ p }) => !current.has(p.id));
+  w.u8(removed.length);
+  removed.forEach(({ index }) => w.u8(index));
+
+  const changed: { index: number; player: PlayerState; mask: number }[] = [];
+  basePlayers.forEach((before, index) => {
+    const player = current.get(before.id);
+    if (!player) return;
+    const mask = PLAYER_FIELDS.reduce(
+      (bits, field, bit) =>
+        field.changed(before, player) ? bits | (1 << bit) : bits,
+      0
+    );
+    if (mask !== 0) changed.push({ index, player, mask });
+  });
+  w.u8(changed.length);
+  changed.forEach(({ index, player, mask }) => {
+    w.u8(index);
+    writePlayerFields(w, player, mask);
+  });
+
+  const known = new Set(basePlayers.map((p) => p.id));
+  const added = snapshot.players.filter((p) => !known.has(p.id));
+  w.u8(added.length);
+  added.forEach((player) => {
+    w.string(player.id);
+    w.string(player.username);
+    writePlayerFields(w, player, ALL_PLAYER_FIELDS);
+  });
+
+  // Tracers never change once fired, so they are only added or removed
+  const baseTracers = baseline?.tracers ?? [];
+  const tracerIds = new Set(snapshot.tracers.map((t) => t.id));
+  const expired = baseTracers
+    .map((t, index) => ({ t, index }))
+    .filter(({ t }) => !tracerIds.has(t.id));
+  w.u8(expired.length);
+  expired.forEach(({ index }) => w.u8(index));
+  const knownTracers = new Set(baseTracers.map((t) => t.id));
+  const fired = snapshot.tracers.filter((t) => !knownTracers.has(t.id));
+  w.u8(fired.length);
+  fired.forEach((tracer) => writeTracer(w, tracer));
+
+  return w.finish();
+};
@@ -0,0 +1,61 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+export const MIN_PASSWORD_LENGTH = 4;
+export const MAX_PASSWORD_LENGTH = 64;
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+const INVITE_TOKEN_BYTES = 16;
+
+export type RoomPasswordResult =
+  | { valid: true; password: string | null }
+  | { valid: false; error: string };
+
+// Check a password sent by a client. Missing or empty means no password.
+export const validateRoomPassword = (raw: unknown): RoomPasswordResult => {
+  if (raw === undefined || raw === null || raw === "") {
+    return { valid: true, password: null };
+  }
+  if (
+    typeof raw !== "string" ||
+    raw.length < MIN_PASSWORD_LENGTH ||
+    raw.length > MAX_PASSWORD_LENGTH
+  ) {
+    return {
+      valid: false,
+      error: `Room password must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters.`,
+    };
+  }
+  return { valid: true, password: raw };
+};
+
+// scrypt is slow on purpose, so it runs off the event loop
+const deriveKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, KEY_BYTES, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  );
+
+// Stored as "salt:key", both hex
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return `${salt.toString("hex")}:${key.toString("hex")}`;
+};
+
+// Checked against when there is no stored hash, so a missing account takes
+// as long to turn down as a wrong password. No password derives an all-zero key.
+export const UNUSABLE_PASSWORD_HASH = `${"00".repeat(SALT_BYTES)}:${"00".repeat(
+  KEY_BYTES
+)}`;
+
+export const verifyPassword = async (password: unknown, stored: string) => {
+  if (typeof password !== "string") return false;
+  const [salt, key] = stored.split(":").map((hex) => Buffer.from(hex, "hex"));
+  return timingSafeEqual(await deriveKey(password, salt), key);
+};
+
+// Goes in invite links; anyone holding it may join without the password
+export const createInviteToken = () =>
+  randomBytes(INVITE_TOKEN_BYTES).toString("base64url");
@@ -0,0 +1,89 @@
+import { MAX_CHAT_LENGTH } from "shared";
+import type { ChatMessage, GameEvent, RoundEndReason, TeamId } from "shared";
+
+export { MAX_CHAT_LENGTH }; // The chat box enforces it too
+export const CHAT_HISTORY_LIMIT = 50; // Lines replayed on joining or reconnecting
+
+// A chat line and who may read it. With the room's dead chat restriction,
+// a line sent while dead only reaches players who are dead too.
+export type ChatLine = ChatMessage & { deadOnly: boolean };
+
+export interface ChatReader {
+  team: TeamId;
+  dead: boolean; // Dead in a running match
+}
+
+export const canReadChat = (line: ChatLine, reader: ChatReader) => {
+  if (line.type === "system") return true;
+  if (line.deadOnly && !reader.dead) return false;
+  return line.channel === "all" || line.team === reader.team;
+};
+
+// Lines anyone in the room may read, later arrivals included. The rest
+// only ever go to whoever could read them when they were sent.
+export const isOpenLine = (line: ChatLine) =>
+  line.type === "system" || (line.channel === "all" && !line.deadOnly);
+
+export type ChatTextResult =
+  | { valid: true; text: string }
+  | { valid: false; error: string };
+
+// Check a message a player typed; empty ones never get this far
+export const validateChatText = (raw: string): ChatTextResult => {
+  const text = raw.trim();
+  if (text.length > MAX_CHAT_LENGTH) {
+    return {
+      valid: false,
+      error: `Messages can be at most ${MAX_CHAT_LENGTH} characters.`,
+    };
+  }
+  return { valid: true, text };
+};
+
+export const systemLine = (message: string, timestamp: number): ChatLine => ({
+  type: "system",
+  message,
+  timestamp,
+  deadOnly: false,
+});
+
+const TEAM_NAMES: Record<TeamId, string> = { alpha: "Alpha", bravo: "Bravo" };
+
+const ROUND_END_REASONS: Record<RoundEndReason, string> = {
+  elimination: "by elimination",
+  time: "on time",
+  detonated: "by detonating the bomb",
+  defused: "by defusing the bomb",
+};
+
+const formatScore = (score: Record<TeamId, number>) =>
+  `Alpha ${score.alpha} - ${score.bravo} Bravo`;
+
+// The system line for a match event, if it gets one. nameOf turns player
+// IDs into names.
+export const describeMatchEvent = (
+  event: GameEvent,
+  nameOf: (playerId: string) => string
+): string | null => {
+  switch (event.type) {
+    case "player-killed":
+      return `${nameOf(event.killerId)} killed ${nameOf(event.victimId)}.`;
+    case "round-end":
+      return `${TEAM_NAMES[event.winner]} won round ${event.round} ${
+        ROUND_END_REASONS[event.reason]
+      } (${formatScore(event.score)}).`;
+    case "match-end":
+      if (event.winner === "draw") {
+        return `The match ended in a draw (${formatScore(event.score)}).`;
+      }
+      return event.forfeitedBy
+        ? `${TEAM_NAMES[event.forfeitedBy]} forfeited. ${
+            TEAM_NAMES[event.winner]
+          } wins the match.`
+        : `${TEAM_NAMES[event.winner]} wins the match (${formatScore(
+            event.score
+          )}).`;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,142 @@
+import { REGIONS, Region, SidePick } from "./settings";
+import { compareLobbies } from "shared";
+import type { LobbyPage, LobbyQuery, LobbySort, LobbySummary } from "shared";
+
+// Browser rows and queries go over the wire, so they live in the shared
+// package along with their sort order
+export type { LobbyPage, LobbyQuery, LobbySort, LobbySummary } from "shared";
+
+const LOBBY_SORTS: LobbySort[] = [
+  "newest",
+  "oldest",
+  "most-players",
+  "fewest-players",
+];
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+const MAX_SEARCH_LENGTH = 32;
+
+export type LobbyQueryResult =
+  | { valid: true; query: LobbyQuery }
+  | { valid: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Check a query sent by a client, filling in the first page and the
+// default sort
+export const validateLobbyQuery = (raw: unknown): LobbyQueryResult => {
+  if (raw === undefined || raw === null) raw = {};
+  if (!isObject(raw)) {
+    return { valid: false, errors: ["Lobby query must be an object."] };
+  }
+  const {
+    page = 0,
+    pageSize = DEFAULT_PAGE_SIZE,
+    sort = "newest",
+    search,
+    mapId,
+    teamSize,
+    sidePick,
+    hasPassword,
+    region,
+  } = raw;
+
+  const errors: string[] = [];
+  if (typeof page !== "number" || !Number.isInteger(page) || page < 0) {
+    errors.push("Page must be a whole number from 0.");
+  }
+  if (
+    typeof pageSize !== "number" ||
+    !Number.isInteger(pageSize) ||
+    pageSize < 1 ||
+    pageSize > MAX_PAGE_SIZE
+  ) {
+    errors.push(`Page size must be between 1 and ${MAX_PAGE_SIZE}.`);
+  }
+  if (!LOBBY_SORTS.includes(sort as LobbySort)) {
+    errors.push("Unknown sort order.");
+  }
+  if (
+    search !== undefined &&
+    (typeof search !== "string" || search.length > MAX_SEARCH_LENGTH)
+  ) {
+    errors.push(`Search must be at most ${MAX_SEARCH_LENGTH} characters.`);
+  }
+  if (mapId !== undefined && typeof mapId !== "string") {
+    errors.push("Map filter must be a map ID.");
+  }
+  if (teamSize !== undefined && !Number.isInteger(teamSize)) {
+    errors.push("Team size filter must be a whole number.");
+  }
+  if (
+    sidePick !== undefined &&
+    sidePick !== "coin-flip" &&
+    sidePick !== "knife-round"
+  ) {
+    errors.push("Unknown mode.");
+  }
+  if (hasPassword !== undefined && typeof hasPassword !== "boolean") {
+    errors.push("Password filter must be on or off.");
+  }
+  if (region !== undefined && !REGIONS.includes(region as Region)) {
+    errors.push("Unknown region.");
+  }
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return {
+    valid: true,
+    query: {
+      page: page as number,
+      pageSize: pageSize as number,
+      sort: sort as LobbySort,
+      search: (search as string | undefined)?.trim() || undefined,
+      mapId: mapId as string | undefined,
+      teamSize: teamSize as number | undefined,
+      sidePick: sidePick as SidePick | undefined,
+      hasPassword: hasPassword as boolean | undefined,
+      region: region as Region | undefined,
+    },
+  };
+};
+
+export const matchesLobbyQuery = (lobby: LobbySummary, query: LobbyQuery) => {
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    if (
+      !lobby.id.toLowerCase().includes(search) &&
+      !lobby.hostName.toLowerCase().includes(search)
+    ) {
+      return false;
+    }
+  }
+  return (
+    (query.mapId === undefined || lobby.mapId === query.mapId) &&
+    (query.teamSize === undefined || lobby.teamSize === query.teamSize) &&
+    (query.sidePick === undefined || lobby.sidePick === query.sidePick) &&
+    (query.hasPassword === undefined ||
+      lobby.hasPassword === query.hasPassword) &&
+    (query.region === undefined || lobby.region === query.region)
+  );
+};
+
+export const queryLobbies = (
+  lobbies: Iterable<LobbySummary>,
+  query: LobbyQuery
+): LobbyPage => {
+  const matching = [...lobbies]
+    .filter((lobby) => matchesLobbyQuery(lobby, query))
+    .sort(compareLobbies(query.sort));
+  const start = query.page * query.pageSize;
+  return {
+    lobbies: matching.slice(start, start + query.pageSize),
+    total: matching.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+};
+
+export const sameLobbySummary = (a: LobbySummary, b: LobbySummary) =>
+  (Object.keys(a) as (keyof LobbySummary)[]).every((key) => a[key] === b[key]);
@@ -0,0 +1,134 @@
+import { DEFAULT_MATCH_CONFIG } from "../game/constants";
+import { MatchConfig, TeamId } from "../game/types";
+import { getMap, randomMapId } from "../maps";
+import type { Region, RoomSettings, SidePick } from "shared";
+
+// Sent to clients as part of every room, so defined in the shared package
+export type { Region, RoomSettings, SidePick } from "shared";
+export { roomCapacity } from "shared";
+
+const SIDE_PICKS: SidePick[] = ["coin-flip", "knife-round"];
+
+export const REGIONS: Region[] = ["na", "sa", "eu", "asia", "oce"];
+
+export const MIN_TEAM_SIZE = 1;
+export const MAX_TEAM_SIZE = 5;
+export const MIN_ROUNDS = 2;
+export const MAX_ROUNDS = 30;
+export const MIN_ROUND_TIME_MS = 30000;
+export const MAX_ROUND_TIME_MS = 300000;
+
+// Everything but the map, which is random unless one is picked
+const DEFAULT_ROOM_SETTINGS: Omit<RoomSettings, "mapId"> = {
+  teamSize: 1,
+  maxRounds: DEFAULT_MATCH_CONFIG.maxRounds,
+  roundTimeMs: DEFAULT_MATCH_CONFIG.roundTimeMs,
+  friendlyFire: DEFAULT_MATCH_CONFIG.friendlyFire,
+  private: false,
+  sidePick: "coin-flip",
+  region: "na",
+  restrictDeadChat: false,
+};
+
+export type RoomSettingsResult =
+  | { valid: true; settings: RoomSettings }
+  | { valid: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isIntInRange = (value: unknown, min: number, max: number) =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max;
+
+// Check settings sent by a client. Anything left out gets its default;
+// a missing or null map means a random one.
+export const validateRoomSettings = (raw: unknown): RoomSettingsResult => {
+  if (raw === undefined || raw === null) raw = {};
+  if (!isObject(raw)) {
+    return { valid: false, errors: ["Room settings must be an object."] };
+  }
+  const {
+    teamSize = DEFAULT_ROOM_SETTINGS.teamSize,
+    maxRounds = DEFAULT_ROOM_SETTINGS.maxRounds,
+    roundTimeMs = DEFAULT_ROOM_SETTINGS.roundTimeMs,
+    friendlyFire = DEFAULT_ROOM_SETTINGS.friendlyFire,
+    private: isPrivate = DEFAULT_ROOM_SETTINGS.private,
+    sidePick = DEFAULT_ROOM_SETTINGS.sidePick,
+    region = DEFAULT_ROOM_SETTINGS.region,
+    restrictDeadChat = DEFAULT_ROOM_SETTINGS.restrictDeadChat,
+  } = raw;
+  const mapId = raw.mapId ?? randomMapId();
+
+  const errors: string[] = [];
+  if (!isIntInRange(teamSize, MIN_TEAM_SIZE, MAX_TEAM_SIZE)) {
+    errors.push(
+      `Team size must be between ${MIN_TEAM_SIZE} and ${MAX_TEAM_SIZE}.`
+    );
+  }
+  if (typeof mapId !== "string" || !getMap(mapId)) {
+    errors.push("Unknown map.");
+  }
+  if (
+    !isIntInRange(maxRounds, MIN_ROUNDS, MAX_ROUNDS) ||
+    (maxRounds as number) % 2 !== 0
+  ) {
+    errors.push(
+      `Round count must be an even number between ${MIN_ROUNDS} and ${MAX_ROUNDS}.`
+    );
+  }
+  if (!isIntInRange(roundTimeMs, MIN_ROUND_TIME_MS, MAX_ROUND_TIME_MS)) {
+    errors.push(
+      `Round time must be between ${MIN_ROUND_TIME_MS / 1000} and ${
+        MAX_ROUND_TIME_MS / 1000
+      } seconds.`
+    );
+  }
+  if (typeof friendlyFire !== "boolean") {
+    errors.push("Friendly fire must be on or off.");
+  }
+  if (typeof isPrivate !== "boolean") {
+    errors.push("Private must be on or off.");
+  }
+  if (!SIDE_PICKS.includes(sidePick as SidePick)) {
+    errors.push("Sides must be picked by coin flip or knife round.");
+  }
+  if (!REGIONS.includes(region as Region)) {
+    errors.push("Unknown region.");
+  }
+  if (typeof restrictDeadChat !== "boolean") {
+    errors.push("Dead chat restriction must be on or off.");
+  }
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return {
+    valid: true,
+    settings: {
+      teamSize: teamSize as number,
+      mapId: mapId as string,
+      maxRounds: maxRounds as number,
+      roundTimeMs: roundTimeMs as number,
+      friendlyFire: friendlyFire as boolean,
+      private: isPrivate as boolean,
+      sidePick: sidePick as SidePick,
+      region: region as Region,
+      restrictDeadChat: restrictDeadChat as boolean,
+    },
+  };
+};
+
+const coinFlip = (): TeamId => (Math.random() < 0.5 ? "alpha" : "bravo");
+
+// Settings for one match. The coin is flipped even with a knife round; it
+// then only decides the sides the knife round is played on.
+export const matchConfigFor = (settings: RoomSettings): MatchConfig => ({
+  ...DEFAULT_MATCH_CONFIG,
+  maxRounds: settings.maxRounds,
+  roundTimeMs: settings.roundTimeMs,
+  friendlyFire: settings.friendlyFire,
+  attackFirst: coinFlip(),
+  knifeRound: settings.sidePick === "knife-round",
+});
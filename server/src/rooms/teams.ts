@@ -0,0 +1,64 @@
+import { TEAMS } from "../game/MatchFlow";
+import { TeamId } from "../game/types";
+
+// A seat on one of the two teams in a room's pre-game lobby
+export interface TeamMember {
+  team: TeamId;
+  slot: number; // 0 .. teamSize - 1, unique within the team
+}
+
+const countOn = (members: TeamMember[], team: TeamId) =>
+  members.filter((m) => m.team === team).length;
+
+// Teams ordered smallest first, alpha first on a tie
+const bySize = (members: TeamMember[]) =>
+  [...TEAMS].sort((a, b) => countOn(members, a) - countOn(members, b));
+
+// Lowest free slot on `team`, or null when it is full
+export const openSlot = (
+  members: TeamMember[],
+  team: TeamId,
+  teamSize: number
+): number | null => {
+  const taken = new Set(
+    members.filter((m) => m.team === team).map((m) => m.slot)
+  );
+  for (let slot = 0; slot < teamSize; slot++) {
+    if (!taken.has(slot)) return slot;
+  }
+  return null;
+};
+
+// Seat for a new arrival: the smaller team, or null when both are full
+export const assignSeat = (
+  members: TeamMember[],
+  teamSize: number
+): TeamMember | null => {
+  for (const team of bySize(members)) {
+    const slot = openSlot(members, team, teamSize);
+    if (slot !== null) return { team, slot };
+  }
+  return null;
+};
+
+// Move players off the bigger team until the sizes differ by at most one.
+// Whoever sits in the highest slot moves first. Returns the moved members.
+export const balanceTeams = <T extends TeamMember>(
+  members: T[],
+  teamSize: number
+): T[] => {
+  const moved: T[] = [];
+  for (;;) {
+    const [small, big] = bySize(members);
+    if (countOn(members, big) - countOn(members, small) <= 1) break;
+    const slot = openSlot(members, small, teamSize);
+    if (slot === null) break;
+    const mover = members
+      .filter((m) => m.team === big)
+      .reduce((last, m) => (m.slot > last.slot ? m : last));
+    mover.team = small;
+    mover.slot = slot;
+    moved.push(mover);
+  }
+  return moved;
+};
@@ -0,0 +1,101 @@
+import { PlayerRating } from "../matchmaking/ratings";
+import {
+  AccountRecord,
+  ChatMessageRecord,
+  MatchRecord,
+  PlayerProfile,
+  RoundRecord,
+  Storage,
+} from "./types";
+
+const key = (username: string) => username.toLowerCase();
+
+// Keeps everything in Maps and loses it on restart. For tests and for
+// running without a database file.
+export class MemoryStorage implements Storage {
+  private accounts: Map<string, AccountRecord> = new Map();
+  private profiles: Map<string, PlayerProfile> = new Map();
+  private ratings: Map<string, PlayerRating> = new Map();
+  private matches: Map<string, MatchRecord> = new Map();
+  private rounds: RoundRecord[] = [];
+  private chat: ChatMessageRecord[] = [];
+
+  createAccount(account: AccountRecord) {
+    if (this.accounts.has(key(account.username))) return false;
+    this.accounts.set(key(account.username), { ...account });
+    return true;
+  }
+
+  getAccount(username: string) {
+    const account = this.accounts.get(key(username));
+    return account ? { ...account } : null;
+  }
+
+  touchProfile(username: string, seenAt: number): PlayerProfile {
+    const existing = this.profiles.get(key(username));
+    const profile = existing
+      ? { ...existing, lastSeenAt: seenAt }
+      : { username, createdAt: seenAt, lastSeenAt: seenAt };
+    this.profiles.set(key(username), profile);
+    return { ...profile };
+  }
+
+  getProfile(username: string) {
+    const profile = this.profiles.get(key(username));
+    return profile ? { ...profile } : null;
+  }
+
+  getRating(username: string) {
+    const rating = this.ratings.get(key(username));
+    return rating ? { ...rating } : null;
+  }
+
+  saveRating(username: string, rating: PlayerRating) {
+    this.ratings.set(key(username), { ...rating });
+  }
+
+  saveRound(round: RoundRecord) {
+    this.rounds.push({ ...round });
+  }
+
+  saveMatch(match: MatchRecord) {
+    this.matches.set(match.id, structuredClone(match));
+  }
+
+  getMatch(matchId: string) {
+    const match = this.matches.get(matchId);
+    return match ? structuredClone(match) : null;
+  }
+
+  getRounds(matchId: string) {
+    return this.rounds
+      .filter((r) => r.matchId === matchId)
+      .sort((a, b) => a.round - b.round)
+      .map((r) => ({ ...r }));
+  }
+
+  listMatches(username: string, limit: number) {
+    return [...this.matches.values()]
+      .filter((m) => m.players.some((p) => key(p.username) === key(username)))
+      .sort((a, b) => b.endedAt - a.endedAt)
+      .slice(0, limit)
+      .map((m) => structuredClone(m));
+  }
+
+  saveChatMessage(message: ChatMessageRecord) {
+    this.chat.push(structuredClone(message));
+  }
+
+  getChatHistory(roomInstanceId: string, readerId: string, limit: number) {
+    return this.chat
+      .filter(
+        (m) =>
+          m.roomInstanceId === roomInstanceId &&
+          (m.readerIds?.includes(readerId) ?? true)
+      )
+      .slice(-limit)
+      .map((m) => structuredClone(m));
+  }
+
+  close() {}
+}
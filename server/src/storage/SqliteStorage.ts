@@ -0,0 +1,308 @@
+import Database from "better-sqlite3";
+import type { ChatChannel } from "shared";
+import { RoundEndReason, TeamId } from "../game/types";
+import { PlayerRating } from "../matchmaking/ratings";
+import { migrate } from "./migrations";
+import {
+  AccountRecord,
+  ChatMessageRecord,
+  MatchPlayerRecord,
+  MatchRecord,
+  PlayerProfile,
+  RoundRecord,
+  Storage,
+} from "./types";
+
+interface AccountRow {
+  username: string;
+  password_hash: string;
+  created_at: number;
+}
+
+interface ProfileRow {
+  username: string;
+  created_at: number;
+  last_seen_at: number;
+}
+
+interface MatchRow {
+  id: string;
+  room_id: string;
+  map_id: string;
+  ranked: number;
+  started_at: number;
+  ended_at: number;
+  winner: TeamId | "draw";
+  forfeited_by: TeamId | null;
+  score_alpha: number;
+  score_bravo: number;
+}
+
+interface RoundRow {
+  match_id: string;
+  round: number;
+  winner: TeamId;
+  reason: RoundEndReason;
+  ended_at: number;
+}
+
+const key = (username: string) => username.toLowerCase();
+
+interface ChatRow {
+  room_instance_id: string;
+  channel: ChatChannel | "system";
+  username: string; // Empty for system lines
+  team: TeamId | null;
+  dead: number;
+  dead_only: number;
+  message: string;
+  timestamp: number;
+  reader_ids: string | null; // JSON
+}
+
+const toChatMessage = (row: ChatRow): ChatMessageRecord =>
+  row.channel === "system"
+    ? {
+        roomInstanceId: row.room_instance_id,
+        readerIds: null,
+        type: "system",
+        message: row.message,
+        timestamp: row.timestamp,
+        deadOnly: false,
+      }
+    : {
+        roomInstanceId: row.room_instance_id,
+        readerIds: row.reader_ids === null ? null : JSON.parse(row.reader_ids),
+        type: "player",
+        channel: row.channel,
+        username: row.username,
+        team: row.team as TeamId, // Lines without one aren't read back
+        dead: row.dead === 1,
+        deadOnly: row.dead_only === 1,
+        message: row.message,
+        timestamp: row.timestamp,
+      };
+
+const toProfile = (row: ProfileRow): PlayerProfile => ({
+  username: row.username,
+  createdAt: row.created_at,
+  lastSeenAt: row.last_seen_at,
+});
+
+// A single local database file; ":memory:" works too
+export class SqliteStorage implements Storage {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    migrate(this.db);
+  }
+
+  createAccount(account: AccountRecord) {
+    const result = this.db
+      .prepare(
+        `INSERT INTO accounts (username_key, username, password_hash, created_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (username_key) DO NOTHING`
+      )
+      .run(
+        key(account.username),
+        account.username,
+        account.passwordHash,
+        account.createdAt
+      );
+    return result.changes > 0;
+  }
+
+  getAccount(username: string) {
+    const row = this.db
+      .prepare(
+        "SELECT username, password_hash, created_at FROM accounts WHERE username_key = ?"
+      )
+      .get(key(username)) as AccountRow | undefined;
+    return row
+      ? {
+          username: row.username,
+          passwordHash: row.password_hash,
+          createdAt: row.created_at,
+        }
+      : null;
+  }
+
+  touchProfile(username: string, seenAt: number): PlayerProfile {
+    this.db
+      .prepare(
+        `INSERT INTO profiles (username_key, username, created_at, last_seen_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (username_key) DO UPDATE SET last_seen_at = excluded.last_seen_at`
+      )
+      .run(key(username), username, seenAt, seenAt);
+    return this.getProfile(username)!;
+  }
+
+  getProfile(username: string) {
+    const row = this.db
+      .prepare(
+        "SELECT username, created_at, last_seen_at FROM profiles WHERE username_key = ?"
+      )
+      .get(key(username)) as ProfileRow | undefined;
+    return row ? toProfile(row) : null;
+  }
+
+  getRating(username: string) {
+    const row = this.db
+      .prepare(
+        "SELECT rating, matches, wins, losses, draws FROM ratings WHERE username_key = ?"
+      )
+      .get(key(username)) as PlayerRating | undefined;
+    return row ?? null;
+  }
+
+  saveRating(username: string, rating: PlayerRating) {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO ratings (username_key, rating, matches, wins, losses, draws)
+         VALUES (@key, @rating, @matches, @wins, @losses, @draws)`
+      )
+      .run({ key: key(username), ...rating });
+  }
+
+  saveRound(round: RoundRecord) {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO rounds (match_id, round, winner, reason, ended_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        round.matchId,
+        round.round,
+        round.winner,
+        round.reason,
+        round.endedAt
+      );
+  }
+
+  saveMatch(match: MatchRecord) {
+    const insertMatch = this.db.prepare(
+      `INSERT INTO matches (id, room_id, map_id, ranked, started_at, ended_at,
+         winner, forfeited_by, score_alpha, score_bravo)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const insertPlayer = this.db.prepare(
+      `INSERT INTO match_players (match_id, username_key, username, team)
+       VALUES (?, ?, ?, ?)`
+    );
+    this.db.transaction(() => {
+      insertMatch.run(
+        match.id,
+        match.roomId,
+        match.mapId,
+        match.ranked ? 1 : 0,
+        match.startedAt,
+        match.endedAt,
+        match.winner,
+        match.forfeitedBy,
+        match.score.alpha,
+        match.score.bravo
+      );
+      match.players.forEach((p) =>
+        insertPlayer.run(match.id, key(p.username), p.username, p.team)
+      );
+    })();
+  }
+
+  getMatch(matchId: string) {
+    const row = this.db
+      .prepare("SELECT * FROM matches WHERE id = ?")
+      .get(matchId) as MatchRow | undefined;
+    return row ? this.toMatch(row) : null;
+  }
+
+  getRounds(matchId: string) {
+    const rows = this.db
+      .prepare("SELECT * FROM rounds WHERE match_id = ? ORDER BY round")
+      .all(matchId) as RoundRow[];
+    return rows.map((row) => ({
+      matchId: row.match_id,
+      round: row.round,
+      winner: row.winner,
+      reason: row.reason,
+      endedAt: row.ended_at,
+    }));
+  }
+
+  listMatches(username: string, limit: number) {
+    const rows = this.db
+      .prepare(
+        `SELECT m.* FROM matches m
+         JOIN match_players p ON p.match_id = m.id
+         WHERE p.username_key = ?
+         ORDER BY m.ended_at DESC
+         LIMIT ?`
+      )
+      .all(key(username), limit) as MatchRow[];
+    return rows.map((row) => this.toMatch(row));
+  }
+
+  saveChatMessage(message: ChatMessageRecord) {
+    const player = message.type === "player" ? message : null;
+    this.db
+      .prepare(
+        `INSERT INTO chat_messages
+           (room_instance_id, channel, username, team, dead, dead_only, message, timestamp, reader_ids)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        message.roomInstanceId,
+        player?.channel ?? "system",
+        player?.username ?? "",
+        player?.team ?? null,
+        player?.dead ? 1 : 0,
+        message.deadOnly ? 1 : 0,
+        message.message,
+        message.timestamp,
+        message.readerIds === null ? null : JSON.stringify(message.readerIds)
+      );
+  }
+
+  getChatHistory(roomInstanceId: string, readerId: string, limit: number) {
+    const rows = this.db
+      .prepare(
+        // Player lines from before migration 3 have no team. Rooms don't
+        // outlive a restart, so they are kept for the record but never
+        // replayed. No reader list means everyone in the room got the line.
+        `SELECT room_instance_id, channel, username, team, dead, dead_only, message, timestamp, reader_ids
+         FROM chat_messages
+         WHERE room_instance_id = ? AND (channel = 'system' OR team IS NOT NULL)
+           AND (reader_ids IS NULL
+             OR EXISTS (SELECT 1 FROM json_each(reader_ids) WHERE value = ?))
+         ORDER BY id DESC LIMIT ?`
+      )
+      .all(roomInstanceId, readerId, limit) as ChatRow[];
+    return rows.reverse().map(toChatMessage);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private toMatch(row: MatchRow): MatchRecord {
+    const players = this.db
+      .prepare("SELECT username, team FROM match_players WHERE match_id = ?")
+      .all(row.id) as MatchPlayerRecord[];
+    return {
+      id: row.id,
+      roomId: row.room_id,
+      mapId: row.map_id,
+      ranked: row.ranked === 1,
+      startedAt: row.started_at,
+      endedAt: row.ended_at,
+      winner: row.winner,
+      forfeitedBy: row.forfeited_by,
+      score: { alpha: row.score_alpha, bravo: row.score_bravo },
+      players,
+    };
+  }
+}
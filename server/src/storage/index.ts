@@ -0,0 +1,22 @@
+import fs from "fs";
+import path from "path";
+import { MemoryStorage } from "./MemoryStorage";
+import { SqliteStorage } from "./SqliteStorage";
+import { Storage } from "./types";
+
+export * from "./types";
+
+const DEFAULT_DB_PATH = path.join(__dirname, "..", "..", "data", "game.db");
+
+// STORAGE=memory keeps nothing across restarts; otherwise a SQLite file at
+// DB_PATH (default server/data/game.db) is created and migrated as needed
+export const createStorage = (): Storage => {
+  if (process.env.STORAGE === "memory") {
+    console.log("[Server Log] Using in-memory storage.");
+    return new MemoryStorage();
+  }
+  const filename = process.env.DB_PATH || DEFAULT_DB_PATH;
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+  console.log(`[Server Log] Using SQLite storage at ${filename}`);
+  return new SqliteStorage(filename);
+};
@@ -0,0 +1,79 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MIGRATIONS, migrate } from "./migrations";
+
+const schemaVersion = (db: Database.Database) =>
+  db.pragma("user_version", { simple: true });
+
+const columns = (db: Database.Database, table: string) =>
+  (db.pragma(`table_info(${table})`) as { name: string }[]).map(
+    (column) => column.name
+  );
+
+describe("migrate", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("brings a new database up to the latest version", () => {
+    migrate(db);
+    expect(schemaVersion(db)).toBe(MIGRATIONS.length);
+    expect(columns(db, "accounts")).toContain("password_hash");
+    expect(columns(db, "chat_messages")).toEqual(
+      expect.arrayContaining(["room_instance_id", "dead_only", "reader_ids"])
+    );
+  });
+
+  it("does nothing when the schema is up to date", () => {
+    migrate(db);
+    db.prepare(
+      "INSERT INTO profiles (username_key, username, created_at, last_seen_at) VALUES (?, ?, ?, ?)"
+    ).run("alice", "Alice", 1, 1);
+    migrate(db);
+    expect(schemaVersion(db)).toBe(MIGRATIONS.length);
+    expect(db.prepare("SELECT COUNT(*) AS count FROM profiles").get()).toEqual({
+      count: 1,
+    });
+  });
+
+  it("only runs the migrations an older database is missing", () => {
+    db.exec(MIGRATIONS[0].sql);
+    db.pragma("user_version = 1");
+    db.prepare(
+      "INSERT INTO chat_messages (room_id, username, message, timestamp) VALUES (?, ?, ?, ?)"
+    ).run("ABC123", "Alice", "hello", 1000);
+
+    migrate(db);
+    expect(schemaVersion(db)).toBe(MIGRATIONS.length);
+    // Existing rows get the new columns' defaults
+    expect(
+      db
+        .prepare(
+          "SELECT room_instance_id, username, channel, team, dead, dead_only, reader_ids FROM chat_messages"
+        )
+        .get()
+    ).toEqual({
+      room_instance_id: "ABC123",
+      username: "Alice",
+      channel: "all",
+      team: null,
+      dead: 0,
+      dead_only: 0,
+      reader_ids: null,
+    });
+  });
+
+  it("leaves the version alone when a migration fails", () => {
+    db.exec("CREATE TABLE accounts (id INTEGER)"); // Clashes with migration 2
+    db.exec(MIGRATIONS[0].sql);
+    db.pragma("user_version = 1");
+    expect(() => migrate(db)).toThrow();
+    expect(schemaVersion(db)).toBe(1);
+  });
+});
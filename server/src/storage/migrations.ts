@@ -0,0 +1,111 @@
+import Database from "better-sqlite3";
+
+// Schema changes, applied in order. The database's user_version records
+// how many have run. Never edit one that has shipped; add a new one.
+export const MIGRATIONS: { name: string; sql: string }[] = [
+  {
+    name: "initial schema",
+    sql: `
+      CREATE TABLE profiles (
+        username_key TEXT PRIMARY KEY, -- Lowercased
+        username TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_seen_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE ratings (
+        username_key TEXT PRIMARY KEY,
+        rating INTEGER NOT NULL,
+        matches INTEGER NOT NULL,
+        wins INTEGER NOT NULL,
+        losses INTEGER NOT NULL,
+        draws INTEGER NOT NULL
+      );
+
+      CREATE TABLE matches (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        map_id TEXT NOT NULL,
+        ranked INTEGER NOT NULL,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER NOT NULL,
+        winner TEXT NOT NULL,
+        forfeited_by TEXT,
+        score_alpha INTEGER NOT NULL,
+        score_bravo INTEGER NOT NULL
+      );
+
+      CREATE TABLE match_players (
+        match_id TEXT NOT NULL REFERENCES matches(id),
+        username_key TEXT NOT NULL,
+        username TEXT NOT NULL,
+        team TEXT NOT NULL,
+        PRIMARY KEY (match_id, username_key)
+      );
+      CREATE INDEX match_players_by_username ON match_players(username_key);
+
+      CREATE TABLE rounds (
+        match_id TEXT NOT NULL,
+        round INTEGER NOT NULL,
+        winner TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        ended_at INTEGER NOT NULL,
+        PRIMARY KEY (match_id, round)
+      );
+
+      CREATE TABLE chat_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        room_id TEXT NOT NULL,
+        username TEXT NOT NULL,
+        message TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX chat_messages_by_room ON chat_messages(room_id, id);
+    `,
+  },
+  {
+    name: "accounts",
+    sql: `
+      CREATE TABLE accounts (
+        username_key TEXT PRIMARY KEY, -- Lowercased
+        username TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `,
+  },
+  {
+    name: "chat channels",
+    sql: `
+      -- "all", "team" or "system"; older lines were all room-wide
+      ALTER TABLE chat_messages ADD COLUMN channel TEXT NOT NULL DEFAULT 'all';
+      ALTER TABLE chat_messages ADD COLUMN team TEXT; -- Null for system lines
+      ALTER TABLE chat_messages ADD COLUMN dead INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE chat_messages ADD COLUMN dead_only INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    name: "chat by room instance",
+    sql: `
+      -- Room codes get reused, so lines are kept by room instance instead.
+      -- Older lines keep their code and are never read back.
+      ALTER TABLE chat_messages RENAME COLUMN room_id TO room_instance_id;
+      -- JSON array of the user IDs that could read a team or dead-only line
+      -- when it was sent; null for lines anyone in the room may read
+      ALTER TABLE chat_messages ADD COLUMN reader_ids TEXT;
+    `,
+  },
+];
+
+// Bring the schema up to date. Each migration runs in its own transaction.
+export const migrate = (db: Database.Database) => {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  MIGRATIONS.slice(current).forEach((migration, i) => {
+    const version = current + i + 1;
+    db.transaction(() => {
+      db.exec(migration.sql);
+      db.pragma(`user_version = ${version}`);
+    })();
+    console.log(`[Server Log] Applied migration ${version}: ${migration.name}`);
+  });
+};
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { systemLine } from "../rooms/chat";
+import { MemoryStorage } from "./MemoryStorage";
+import { SqliteStorage } from "./SqliteStorage";
+import { ChatMessageRecord, MatchRecord, Storage } from "./types";
+
+const match = (overrides: Partial<MatchRecord> = {}): MatchRecord => ({
+  id: "match-1",
+  roomId: "ABC123",
+  mapId: "dust-lite",
+  ranked: true,
+  startedAt: 1000,
+  endedAt: 2000,
+  winner: "alpha",
+  forfeitedBy: null,
+  score: { alpha: 7, bravo: 3 },
+  players: [
+    { username: "Alice", team: "alpha" },
+    { username: "Bob", team: "bravo" },
+  ],
+  ...overrides,
+});
+
+// A player's line in room instance room-1
+const chatLine = (
+  overrides: Partial<Extract<ChatMessageRecord, { type: "player" }>> = {}
+): ChatMessageRecord => ({
+  roomInstanceId: "room-1",
+  readerIds: null,
+  type: "player",
+  channel: "all",
+  username: "Alice",
+  team: "alpha",
+  dead: false,
+  deadOnly: false,
+  message: "hello",
+  timestamp: 1000,
+  ...overrides,
+});
+
+// Both backends must behave the same, so they share one suite
+describe.each([
+  ["MemoryStorage", () => new MemoryStorage()],
+  ["SqliteStorage", () => new SqliteStorage(":memory:")],
+])("%s", (_, createStorage: () => Storage) => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = createStorage();
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it("creates accounts once per name in any letter case", () => {
+    const account = { username: "Alice", passwordHash: "s:k", createdAt: 1 };
+    expect(storage.createAccount(account)).toBe(true);
+    expect(storage.createAccount({ ...account, username: "ALICE" })).toBe(
+      false
+    );
+    expect(storage.getAccount("alice")).toEqual(account);
+    expect(storage.getAccount("Bob")).toBeNull();
+  });
+
+  it("creates profiles and refreshes when they were last seen", () => {
+    expect(storage.touchProfile("Alice", 1000)).toEqual({
+      username: "Alice",
+      createdAt: 1000,
+      lastSeenAt: 1000,
+    });
+    storage.touchProfile("alice", 5000);
+    expect(storage.getProfile("ALICE")).toEqual({
+      username: "Alice",
+      createdAt: 1000,
+      lastSeenAt: 5000,
+    });
+    expect(storage.getProfile("Bob")).toBeNull();
+  });
+
+  it("saves and replaces ratings", () => {
+    const rating = { rating: 1000, matches: 1, wins: 1, losses: 0, draws: 0 };
+    storage.saveRating("Alice", rating);
+    storage.saveRating("alice", { ...rating, rating: 1016, matches: 2 });
+    expect(storage.getRating("Alice")).toEqual({
+      ...rating,
+      rating: 1016,
+      matches: 2,
+    });
+    expect(storage.getRating("Bob")).toBeNull();
+  });
+
+  it("round-trips matches and their rounds", () => {
+    storage.saveRound({
+      matchId: "match-1",
+      round: 2,
+      winner: "bravo",
+      reason: "time",
+      endedAt: 1500,
+    });
+    storage.saveRound({
+      matchId: "match-1",
+      round: 1,
+      winner: "alpha",
+      reason: "elimination",
+      endedAt: 1200,
+    });
+    storage.saveMatch(match());
+
+    expect(storage.getMatch("match-1")).toEqual(match());
+    expect(storage.getMatch("missing")).toBeNull();
+    expect(storage.getRounds("match-1").map((r) => r.round)).toEqual([1, 2]);
+    expect(storage.getRounds("match-1")[1]).toEqual({
+      matchId: "match-1",
+      round: 2,
+      winner: "bravo",
+      reason: "time",
+      endedAt: 1500,
+    });
+  });
+
+  it("lists a player's matches newest first", () => {
+    storage.saveMatch(match({ id: "old", endedAt: 1000 }));
+    storage.saveMatch(
+      match({ id: "new", endedAt: 3000, ranked: false, forfeitedBy: "bravo" })
+    );
+    storage.saveMatch(
+      match({
+        id: "other",
+        endedAt: 2000,
+        players: [{ username: "Carol", team: "alpha" }],
+      })
+    );
+
+    expect(storage.listMatches("bob", 10).map((m) => m.id)).toEqual([
+      "new",
+      "old",
+    ]);
+    expect(storage.listMatches("Bob", 1)).toEqual([
+      match({ id: "new", endedAt: 3000, ranked: false, forfeitedBy: "bravo" }),
+    ]);
+  });
+
+  it("keeps the latest chat lines of a room, oldest first", () => {
+    const system: ChatMessageRecord = {
+      roomInstanceId: "room-1",
+      readerIds: null,
+      ...systemLine("Bob joined the room.", 500),
+    };
+    const teamLine = chatLine({
+      channel: "team",
+      dead: true,
+      deadOnly: true,
+      timestamp: 600,
+      readerIds: ["user-1", "user-2"],
+    });
+    storage.saveChatMessage(system);
+    storage.saveChatMessage(teamLine);
+    storage.saveChatMessage(chatLine({ message: "latest", timestamp: 700 }));
+    // A later room may reuse the code, but never the instance
+    storage.saveChatMessage(
+      chatLine({ roomInstanceId: "room-2", timestamp: 800 })
+    );
+
+    expect(storage.getChatHistory("room-1", "user-1", 10)).toEqual([
+      system,
+      teamLine,
+      chatLine({ message: "latest", timestamp: 700 }),
+    ]);
+    expect(
+      storage.getChatHistory("room-1", "user-1", 1).map((line) => line.message)
+    ).toEqual(["latest"]);
+  });
+
+  it("replays only the lines the reader got, then applies the limit", () => {
+    storage.saveChatMessage(chatLine({ message: "open", timestamp: 100 }));
+    storage.saveChatMessage(
+      chatLine({ message: "ours", timestamp: 200, readerIds: ["user-1"] })
+    );
+    // Newer than both, but the limit must not be spent on them
+    ["theirs 1", "theirs 2"].forEach((message, i) =>
+      storage.saveChatMessage(
+        chatLine({ message, timestamp: 300 + i, readerIds: ["user-2"] })
+      )
+    );
+
+    expect(
+      storage.getChatHistory("room-1", "user-1", 2).map((line) => line.message)
+    ).toEqual(["open", "ours"]);
+    expect(
+      storage.getChatHistory("room-1", "user-2", 2).map((line) => line.message)
+    ).toEqual(["theirs 1", "theirs 2"]);
+  });
+});
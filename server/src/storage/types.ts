@@ -0,0 +1,60 @@
+import type {
+  MatchRecord,
+  PlayerProfile,
+  PlayerRating,
+  RoundRecord,
+} from "shared";
+import { ChatLine } from "../rooms/chat";
+
+export type {
+  MatchPlayerRecord,
+  MatchRecord,
+  PlayerProfile,
+  RoundRecord,
+} from "shared";
+
+// A registered player. Guests never get one.
+export interface AccountRecord {
+  username: string; // As registered; lookups ignore case
+  passwordHash: string; // "salt:key" from hashPassword
+  createdAt: number; // Epoch ms
+}
+
+// A chat line kept for replaying to players who join or reconnect.
+// readerIds lists who could read it when it was sent; null means anyone.
+export type ChatMessageRecord = ChatLine & {
+  roomInstanceId: string; // Room.instanceId, not the reusable code
+  readerIds: string[] | null;
+};
+
+// Everything that outlives a server restart. Implementations are
+// synchronous, like the SQLite driver behind the main one.
+export interface Storage {
+  // False if the name is already registered, in any letter case
+  createAccount(account: AccountRecord): boolean;
+  getAccount(username: string): AccountRecord | null;
+
+  // Create or refresh a player's profile when they show up
+  touchProfile(username: string, seenAt: number): PlayerProfile;
+  getProfile(username: string): PlayerProfile | null;
+
+  getRating(username: string): PlayerRating | null;
+  saveRating(username: string, rating: PlayerRating): void;
+
+  // Rounds are saved as they finish; the match once it is over
+  saveRound(round: RoundRecord): void;
+  saveMatch(match: MatchRecord): void;
+  getMatch(matchId: string): MatchRecord | null;
+  getRounds(matchId: string): RoundRecord[];
+  listMatches(username: string, limit: number): MatchRecord[]; // Newest first
+
+  saveChatMessage(message: ChatMessageRecord): void;
+  // The latest lines the reader got, oldest first
+  getChatHistory(
+    roomInstanceId: string,
+    readerId: string,
+    limit: number
+  ): ChatMessageRecord[];
+
+  close(): void;
+}
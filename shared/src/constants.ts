@@ -0,0 +1,16 @@
+// Simulation numbers both ends must agree on: the client predicts and
+// renders with the same ones the server simulates with. Distances are in
+// world units, speeds in units per second and durations in milliseconds.
+
+export const TICK_RATE = 20; // Server simulation ticks per second
+export const TICK_MS = 1000 / TICK_RATE;
+
+export const PLAYER_RADIUS = 16;
+export const PLAYER_SPEED = 220;
+export const MAX_HEALTH = 100;
+export const MAX_ARMOR = 100;
+
+// Fog of war: players only receive enemies inside this shape
+export const VISION_RANGE = 1000;
+export const VISION_FOV = (Math.PI * 2) / 3; // Full cone angle in radians
+export const VISION_NEAR_RADIUS = 64; // Always visible around the player
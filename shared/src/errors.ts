@@ -0,0 +1,67 @@
+// Why the server turned a request down. Clients branch on the code; the
+// message is for showing to the player as it is.
+export type ErrorCode =
+  // The arguments don't match the event's schema
+  | "invalid-payload"
+  // Too many requests; see the server's rate limits
+  | "rate-limited"
+  | "muted"
+  // Well-formed, but a value is out of range
+  | "invalid-settings"
+  | "invalid-query"
+  | "invalid-password"
+  | "invalid-username"
+  // Getting into a room
+  | "room-not-found"
+  | "room-full"
+  | "room-locked"
+  | "match-in-progress"
+  | "password-required"
+  | "wrong-password"
+  | "invite-only"
+  | "invite-expired"
+  | "banned"
+  | "already-in-room"
+  | "session-expired"
+  | "session-taken"
+  // In a room
+  | "not-in-room"
+  | "not-host"
+  | "player-not-found"
+  | "teams-locked"
+  | "team-full"
+  | "swap-expired"
+  | "settings-locked"
+  | "ranked-room" // Made by matchmaking; no host and fixed teams
+  | "map-not-found"
+  // Matchmaking
+  | "guest-not-allowed"
+  | "already-searching"
+  | "not-searching"
+  | "no-pending-match"
+  // In a match
+  | "not-in-match"
+  | "side-pick-unavailable"
+  | "buy-unavailable"
+  | "already-owned"
+  | "insufficient-funds"
+  // Chat
+  | "message-too-long"
+  // Accounts
+  | "username-taken"
+  | "wrong-credentials"
+  // Profiles and match history
+  | "profile-not-found"
+  | "match-not-found";
+
+export interface ErrorResponse {
+  success: false;
+  code: ErrorCode;
+  message: string;
+}
+
+// What requests are answered with: success plus T's fields, or the reason
+// it failed
+export type Result<T extends object = object> =
+  | ({ success: true } & T)
+  | ErrorResponse;
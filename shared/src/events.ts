@@ -0,0 +1,212 @@
+import { ErrorResponse, Result } from "./errors";
+import {
+  BuyResult,
+  GameEvent,
+  ItemDefinition,
+  ItemId,
+  MapDefinition,
+  MapSummary,
+  PlayerInput,
+  Side,
+} from "./game";
+import {
+  MatchRecord,
+  PlayerProfile,
+  PlayerRating,
+  RatingChange,
+  RoundRecord,
+} from "./players";
+import {
+  ChatChannel,
+  ChatMessage,
+  JoinAccess,
+  LobbyPage,
+  LobbyQuery,
+  LobbySummary,
+  Room,
+  RoomSettingsInput,
+} from "./rooms";
+
+// The Socket.IO contract. Both ends pass these maps as the generics of
+// their Server/Socket, so a payload changed on one side fails to compile
+// on the other.
+
+// What most requests are answered with
+export type ActionResponse = Result;
+
+export type Ack<T = ActionResponse> = (response: T) => void;
+
+// Reply to create-room and join-room. Keep the session token to
+// resume-session after a reconnect.
+export type SessionResponse = Result<{
+  roomId: string;
+  userId: string;
+  sessionToken: string;
+}>;
+
+// Reply to resume-session; inMatch says to go straight back into the game
+export type ResumeResponse = Result<{
+  roomId: string;
+  userId: string;
+  inMatch: boolean;
+}>;
+
+export type LobbyPageResponse = Result<LobbyPage>;
+
+export type FindMatchResponse = Result<{ rating: number }>;
+
+export type RatingResponse = Result<{ rating: PlayerRating }>;
+
+// A player's page: who they are, their standing and latest matches
+export type ProfileResponse = Result<{
+  profile: PlayerProfile;
+  rating: PlayerRating;
+  matches: MatchRecord[]; // Newest first
+}>;
+
+export type MapListResponse = Result<{ maps: MapSummary[] }>;
+
+export type MapResponse = Result<{ map: MapDefinition }>;
+
+export type ItemCatalogResponse = Result<{ items: ItemDefinition[] }>;
+
+// One finished match, round by round
+export type MatchDetailsResponse = Result<{
+  match: MatchRecord;
+  rounds: RoundRecord[];
+}>;
+
+// Sent instead of a reply when a request without a result callback (e.g.
+// player-input) was turned down
+export interface RequestRejected extends ErrorResponse {
+  event: string;
+}
+
+export interface ChatMessageInput {
+  roomId: string;
+  channel: ChatChannel;
+  message: string;
+}
+
+// The room's latest chat lines we may read, oldest first
+export type ChatHistoryResponse = Result<{ messages: ChatMessage[] }>;
+
+// --- Matchmaking ---
+export interface MatchFound {
+  matchId: string;
+  players: number;
+  acceptTimeoutMs: number;
+}
+
+export interface MatchCancelled {
+  matchId: string;
+  requeued: boolean; // Still searching; someone else didn't accept
+}
+
+// A ranked room was made and we hold a seat in it
+export interface MatchReady {
+  roomId: string;
+  userId: string;
+  sessionToken: string;
+}
+
+export interface RatingUpdate extends RatingChange {
+  rating: PlayerRating;
+}
+
+export interface KickedNotice {
+  roomId: string;
+  banned: boolean;
+}
+
+// Every match event under its own name, e.g. "round-end"
+type GameEventHandlers = {
+  [E in GameEvent as E["type"]]: (event: E) => void;
+};
+
+export type ServerToClientEvents = GameEventHandlers & {
+  "room-update": (room: Room) => void;
+  "specific-room-update": (room: Room) => void; // Reply to get-room-state
+  "start-game": (room: Room) => void;
+  "lobby-added": (lobby: LobbySummary) => void;
+  "lobby-updated": (lobby: LobbySummary) => void;
+  "lobby-removed": (lobbyId: string) => void;
+  kicked: (notice: KickedNotice) => void;
+  "new-message": (message: ChatMessage) => void;
+  snapshot: (data: ArrayBuffer) => void; // Binary; arrives as an ArrayBuffer
+  "match-found": (match: MatchFound) => void;
+  "match-cancelled": (cancelled: MatchCancelled) => void;
+  "match-ready": (ready: MatchReady) => void;
+  "rating-updated": (update: RatingUpdate) => void;
+  "request-rejected": (rejection: RequestRejected) => void;
+};
+
+export interface ClientToServerEvents {
+  // Lobby browser
+  "get-lobbies": (
+    query: Partial<LobbyQuery>,
+    callback: Ack<LobbyPageResponse>
+  ) => void;
+  "unsubscribe-lobbies": () => void;
+
+  // Rooms
+  "create-room": (
+    settings: Partial<RoomSettingsInput>,
+    password: string | null,
+    callback: Ack<SessionResponse>
+  ) => void;
+  "join-room": (
+    roomId: string,
+    access: JoinAccess,
+    callback: Ack<SessionResponse>
+  ) => void;
+  "resume-session": (token: string, callback: Ack<ResumeResponse>) => void;
+  "get-room-state": (roomId: string) => void;
+  "toggle-ready": (callback: Ack) => void;
+  "leave-room": (callback: Ack) => void;
+
+  // Teams
+  "switch-team": (callback: Ack) => void;
+  "request-swap": (userId: string, callback: Ack) => void;
+  "accept-swap": (fromId: string, callback: Ack) => void;
+  "balance-teams": (callback: Ack) => void;
+
+  // Host controls
+  "kick-player": (userId: string, callback: Ack) => void;
+  "ban-player": (userId: string, callback: Ack) => void;
+  "transfer-host": (userId: string, callback: Ack) => void;
+  "set-room-locked": (locked: boolean, callback: Ack) => void;
+  "set-room-password": (password: string | null, callback: Ack) => void;
+  "regenerate-invite": (callback: Ack) => void;
+  "update-settings": (
+    settings: Partial<RoomSettingsInput>,
+    callback: Ack
+  ) => void;
+
+  // Matchmaking
+  "find-match": (teamSize: number, callback: Ack<FindMatchResponse>) => void;
+  "cancel-matchmaking": (callback: Ack) => void;
+  "respond-to-match": (accept: boolean, callback: Ack) => void;
+  "get-rating": (username: string, callback: Ack<RatingResponse>) => void;
+
+  // Profiles and match history
+  "get-profile": (username: string, callback: Ack<ProfileResponse>) => void;
+  "get-match": (matchId: string, callback: Ack<MatchDetailsResponse>) => void;
+
+  // Maps and items
+  "get-maps": (callback: Ack<MapListResponse>) => void;
+  "get-map": (mapId: string, callback: Ack<MapResponse>) => void;
+  "get-items": (callback: Ack<ItemCatalogResponse>) => void;
+
+  // In a match
+  "player-input": (input: PlayerInput) => void;
+  "snapshot-ack": (tick: number) => void;
+  "snapshot-resync": () => void; // Missing delta baseline; send a full one
+  "choose-side": (side: Side, callback: Ack) => void;
+  "buy-item": (itemId: ItemId, callback: (result: BuyResult) => void) => void;
+  "latency-ping": (callback: Ack) => void;
+
+  // Chat
+  "send-message": (message: ChatMessageInput) => void;
+  "get-chat-history": (callback: Ack<ChatHistoryResponse>) => void;
+}
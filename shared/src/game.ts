@@ -0,0 +1,226 @@
+// Match and map types that cross the wire. The simulation's internal state
+// and tuning (e.g. MatchConfig) stay in server/src/game.
+
+import { Result } from "./errors";
+
+export interface Vector2 {
+  x: number;
+  y: number;
+}
+
+export type TeamId = "alpha" | "bravo";
+
+export type Side = "attack" | "defend";
+
+// One frame of input as sent by a client with "player-input"
+export interface PlayerInput {
+  seq: number; // Client-side sequence number, echoed back in snapshots
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  aim: number; // Aim angle in radians (0 = facing +x)
+  shoot: boolean;
+  use: boolean; // Plant or defuse; roots the player while held
+  viewTime: number | null; // Server time the client was rendering, if known
+}
+
+export type RoundEndReason = "elimination" | "time" | "detonated" | "defused";
+
+// Broadcast to the room as they happen, each under its own type as the
+// event name
+export type GameEvent =
+  | { type: "player-killed"; killerId: string; victimId: string; tick: number }
+  | {
+      type: "round-start";
+      round: number;
+      overtime: number;
+      sides: Record<TeamId, Side>;
+    }
+  | {
+      type: "round-end";
+      round: number;
+      winner: TeamId;
+      reason: RoundEndReason;
+      score: Record<TeamId, number>;
+    }
+  | { type: "halftime"; round: number; sides: Record<TeamId, Side> }
+  | { type: "knife-round-start" }
+  | { type: "knife-round-end"; winner: TeamId | null }
+  | {
+      type: "bomb-planted";
+      planterId: string;
+      siteId: string;
+      position: Vector2;
+      detonatesIn: number;
+    }
+  | { type: "bomb-defused"; defuserId: string }
+  | { type: "bomb-exploded"; siteId: string }
+  | {
+      type: "match-end";
+      winner: TeamId | "draw";
+      score: Record<TeamId, number>;
+      rounds: number;
+      forfeitedBy: TeamId | null;
+    };
+
+export type WeaponId =
+  | "knife"
+  | "pistol"
+  | "smg"
+  | "shotgun"
+  | "rifle"
+  | "sniper";
+export type ItemId = Exclude<WeaponId, "knife"> | "armor" | "defuse-kit";
+export type ItemCategory = "weapon" | "armor" | "utility";
+
+export interface WeaponStats {
+  damage: number;
+  cooldownMs: number; // Minimum time between shots
+  range: number;
+  armorPenetration: number; // Share of damage that ignores armor (0-1)
+  killReward: number;
+}
+
+// One entry of the buy menu catalog sent with "get-items"
+export interface ItemDefinition {
+  id: ItemId;
+  name: string;
+  category: ItemCategory;
+  price: number;
+  side?: Side; // Only buyable by this side
+  weapon?: WeaponStats;
+}
+
+export type BuyResult = Result<{ item: ItemId; money: number }>;
+
+// --- Snapshots ---
+// What the server's simulation sends every tick, filtered per player
+
+export interface PlayerState {
+  id: string;
+  username: string;
+  team: TeamId;
+  position: Vector2;
+  aim: number;
+  health: number;
+  alive: boolean;
+  kills: number;
+  deaths: number;
+  money: number;
+  weapon: WeaponId;
+  armor: number;
+  hasDefuseKit: boolean;
+  canBuy: boolean; // Freeze time and standing in the team's buy zone
+  lastProcessedInput: number; // Highest input seq applied by the server
+}
+
+// Short-lived visual of a hitscan shot, kept around so clients can draw it
+export interface Tracer {
+  id: number;
+  shooterId: string;
+  from: Vector2;
+  to: Vector2;
+  tick: number; // Tick the shot was fired on
+}
+
+export type MatchPhase =
+  | "warmup" // Players move around, weapons hold fire
+  | "freeze" // Round is set up, players cannot move
+  | "live"
+  | "round-end" // Short pause showing the round result
+  | "halftime" // Sides are about to swap
+  | "match-end"
+  | "knife-round" // Optional, decides who picks starting sides
+  | "side-pick"; // The knife round winners choose attack or defense
+
+// Phases in which players may move. Client-side prediction has to agree
+// with the server exactly, or players rubber-band on every reconcile.
+export const MOVEMENT_PHASES: readonly MatchPhase[] = [
+  "warmup",
+  "live",
+  "round-end",
+  "knife-round",
+  "side-pick",
+];
+
+export type BombStatus =
+  | "idle" // Not planted yet
+  | "planting"
+  | "planted"
+  | "defusing"
+  | "defused"
+  | "detonated";
+
+export interface BombState {
+  status: BombStatus;
+  siteId: string | null;
+  position: Vector2 | null; // Set once planted
+  channelerId: string | null; // Player planting or defusing
+  progress: number; // 0-1 progress of the current plant or defuse
+  timeLeft: number; // Milliseconds until detonation while planted
+}
+
+export interface MatchState {
+  phase: MatchPhase;
+  round: number; // 0 during warmup
+  overtime: number; // Current overtime period, 0 in regulation
+  timeLeft: number; // Milliseconds until the phase changes
+  score: Record<TeamId, number>;
+  sides: Record<TeamId, Side>;
+  roundWinner: TeamId | null; // Set during round-end
+  roundEndReason: RoundEndReason | null;
+  matchWinner: TeamId | "draw" | null; // Set once the match has ended
+  forfeitedBy: TeamId | null; // Team that left before the match was decided
+  sidePicker: TeamId | null; // Knife round winner, set during side-pick
+}
+
+export interface GameSnapshot {
+  roomId: string;
+  mapId: string;
+  tick: number;
+  time: number; // Simulation time in ms (tick * tick duration)
+  match: MatchState;
+  bomb: BombState;
+  players: PlayerState[];
+  tracers: Tracer[];
+}
+
+// Rectangle measured in tiles
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MapSite {
+  id: string; // Short label shown in game, e.g. "A"
+  area: TileRect;
+}
+
+export interface MapChokepoint {
+  name: string;
+  area: TileRect;
+}
+
+// Versioned JSON map format shared by the simulation and the renderer
+export interface MapDefinition {
+  version: number;
+  id: string;
+  name: string;
+  tileSize: number; // World units per tile
+  tiles: string[]; // One string per row, one tile character per column
+  spawns: Record<Side, TileRect[]>;
+  sites: MapSite[];
+  chokepoints: MapChokepoint[];
+}
+
+// Lightweight entry for listing maps without sending tile data
+export interface MapSummary {
+  id: string;
+  name: string;
+  width: number; // In tiles
+  height: number;
+  sites: string[];
+}
@@ -0,0 +1,15 @@
+// The contract between the client and the server: wire types, plus the few
+// constants and helpers both sides must agree on exactly. The client bundles
+// these sources; the server runs the CommonJS build in dist, made by its
+// build and dev scripts.
+
+export * from "./errors";
+export * from "./constants";
+export * from "./game";
+export * from "./maps";
+export * from "./movement";
+export * from "./players";
+export * from "./rooms";
+export * from "./events";
+export * from "./lobbies";
+export * from "./snapshotFormat";
@@ -0,0 +1,13 @@
+import type { LobbySort, LobbySummary } from "./rooms";
+
+// Lobby browser order. The client sorts live updates with it too, so they
+// land where a refetch would put them. Ties fall back to newest first, then
+// room ID, so pages are stable.
+export const compareLobbies =
+  (sort: LobbySort) => (a: LobbySummary, b: LobbySummary) => {
+    let order = 0;
+    if (sort === "oldest") order = a.createdAt - b.createdAt;
+    if (sort === "most-players") order = b.playerCount - a.playerCount;
+    if (sort === "fewest-players") order = a.playerCount - b.playerCount;
+    return order || b.createdAt - a.createdAt || a.id.localeCompare(b.id);
+  };
@@ -0,0 +1,122 @@
+import type { MapDefinition, Vector2 } from "./game";
+
+// Tile queries for the simulation and for client prediction and rendering.
+// Both sides collide and cast rays with this code, so they can't disagree.
+
+// Characters allowed in MapDefinition.tiles
+export const TILE = {
+  floor: ".",
+  wall: "#", // Blocks movement, shots and vision
+  cover: "=", // Blocks movement and shots, can be seen over
+} as const;
+
+export type TileChar = (typeof TILE)[keyof typeof TILE];
+
+// Tile kinds that stop each kind of query
+const BLOCKS_MOVEMENT = new Set<string>([TILE.wall, TILE.cover]);
+const BLOCKS_SHOTS = new Set<string>([TILE.wall, TILE.cover]);
+const BLOCKS_VISION = new Set<string>([TILE.wall]);
+
+export type BlockKind = "movement" | "shots" | "vision";
+
+const BLOCKERS: Record<BlockKind, Set<string>> = {
+  movement: BLOCKS_MOVEMENT,
+  shots: BLOCKS_SHOTS,
+  vision: BLOCKS_VISION,
+};
+
+export const mapWorldSize = (map: MapDefinition) => ({
+  width: map.tiles[0].length * map.tileSize,
+  height: map.tiles.length * map.tileSize,
+});
+
+// Anything outside the grid behaves like a wall
+export const tileAt = (
+  map: MapDefinition,
+  tx: number,
+  ty: number
+): TileChar => {
+  const row = map.tiles[ty];
+  if (!row || tx < 0 || tx >= row.length) return TILE.wall;
+  return row[tx] as TileChar;
+};
+
+export const blocks = (
+  map: MapDefinition,
+  tx: number,
+  ty: number,
+  kind: BlockKind
+) => BLOCKERS[kind].has(tileAt(map, tx, ty));
+
+// Whether a circle overlaps any tile that blocks movement
+export const circleCollides = (
+  map: MapDefinition,
+  center: Vector2,
+  radius: number
+): boolean => {
+  const size = map.tileSize;
+  const minX = Math.floor((center.x - radius) / size);
+  const maxX = Math.floor((center.x + radius) / size);
+  const minY = Math.floor((center.y - radius) / size);
+  const maxY = Math.floor((center.y + radius) / size);
+  for (let ty = minY; ty <= maxY; ty++) {
+    for (let tx = minX; tx <= maxX; tx++) {
+      if (!blocks(map, tx, ty, "movement")) continue;
+      // Closest point of the tile to the circle center
+      const nearestX = Math.max(tx * size, Math.min(center.x, (tx + 1) * size));
+      const nearestY = Math.max(ty * size, Math.min(center.y, (ty + 1) * size));
+      const dx = center.x - nearestX;
+      const dy = center.y - nearestY;
+      if (dx * dx + dy * dy < radius * radius) return true;
+    }
+  }
+  return false;
+};
+
+// Distance along a normalized ray to the first blocking tile, capped at
+// maxDistance. Walks the grid cell by cell (DDA) so thin walls are never
+// skipped.
+export const raycastTiles = (
+  map: MapDefinition,
+  origin: Vector2,
+  dir: Vector2,
+  maxDistance: number,
+  kind: BlockKind
+): number => {
+  const size = map.tileSize;
+  let tx = Math.floor(origin.x / size);
+  let ty = Math.floor(origin.y / size);
+  if (blocks(map, tx, ty, kind)) return 0;
+
+  const stepX = dir.x > 0 ? 1 : -1;
+  const stepY = dir.y > 0 ? 1 : -1;
+  // Ray distance needed to cross one full tile on each axis
+  const deltaX = dir.x !== 0 ? Math.abs(size / dir.x) : Infinity;
+  const deltaY = dir.y !== 0 ? Math.abs(size / dir.y) : Infinity;
+  // Ray distance to the first tile boundary on each axis
+  let nextX =
+    dir.x !== 0
+      ? (dir.x > 0 ? (tx + 1) * size - origin.x : origin.x - tx * size) /
+        Math.abs(dir.x)
+      : Infinity;
+  let nextY =
+    dir.y !== 0
+      ? (dir.y > 0 ? (ty + 1) * size - origin.y : origin.y - ty * size) /
+        Math.abs(dir.y)
+      : Infinity;
+
+  for (;;) {
+    let travelled: number;
+    if (nextX < nextY) {
+      travelled = nextX;
+      nextX += deltaX;
+      tx += stepX;
+    } else {
+      travelled = nextY;
+      nextY += deltaY;
+      ty += stepY;
+    }
+    if (travelled >= maxDistance) return maxDistance;
+    if (blocks(map, tx, ty, kind)) return travelled;
+  }
+};
@@ -0,0 +1,40 @@
+import { PLAYER_RADIUS, PLAYER_SPEED, TICK_MS } from "./constants";
+import type { MapDefinition, PlayerInput, Vector2 } from "./game";
+import { circleCollides } from "./maps";
+
+// Movement is split into sub-steps no longer than this so players slide
+// up against walls instead of stopping a full tick short of them
+const MAX_MOVE_SUBSTEP = 4;
+
+// Where one tick of an input moves a player. The server simulates with it
+// and the client predicts with it, so a prediction only misses when the
+// server saw different inputs. Holding use (plant or defuse) roots the
+// player.
+export const moveStep = (
+  map: MapDefinition,
+  position: Vector2,
+  input: PlayerInput
+): Vector2 => {
+  if (input.use) return position;
+  let dx = (input.right ? 1 : 0) - (input.left ? 1 : 0);
+  let dy = (input.down ? 1 : 0) - (input.up ? 1 : 0);
+  if (dx === 0 && dy === 0) return position;
+
+  // Normalize so diagonal movement is not faster
+  const length = Math.hypot(dx, dy);
+  dx /= length;
+  dy /= length;
+  const distance = (PLAYER_SPEED * TICK_MS) / 1000;
+  const substeps = Math.ceil(distance / MAX_MOVE_SUBSTEP);
+  const stepX = (dx * distance) / substeps;
+  const stepY = (dy * distance) / substeps;
+  // Resolve each axis separately so players slide along walls
+  let current = position;
+  for (let i = 0; i < substeps; i++) {
+    const movedX = { x: current.x + stepX, y: current.y };
+    if (!circleCollides(map, movedX, PLAYER_RADIUS)) current = movedX;
+    const movedY = { x: current.x, y: current.y + stepY };
+    if (!circleCollides(map, movedY, PLAYER_RADIUS)) current = movedY;
+  }
+  return current;
+};
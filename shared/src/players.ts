@@ -0,0 +1,49 @@
+import { RoundEndReason, TeamId } from "./game";
+
+// Elo standing of an account
+export interface PlayerRating {
+  rating: number;
+  matches: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface RatingChange {
+  username: string;
+  before: number;
+  after: number;
+}
+
+export interface PlayerProfile {
+  username: string; // As first seen; lookups ignore case
+  createdAt: number; // Epoch ms
+  lastSeenAt: number;
+}
+
+export interface MatchPlayerRecord {
+  username: string;
+  team: TeamId;
+}
+
+// A finished match as kept in the history
+export interface MatchRecord {
+  id: string;
+  roomId: string;
+  mapId: string;
+  ranked: boolean;
+  startedAt: number; // Epoch ms
+  endedAt: number;
+  winner: TeamId | "draw";
+  forfeitedBy: TeamId | null;
+  score: Record<TeamId, number>;
+  players: MatchPlayerRecord[];
+}
+
+export interface RoundRecord {
+  matchId: string;
+  round: number;
+  winner: TeamId;
+  reason: RoundEndReason;
+  endedAt: number; // Epoch ms
+}
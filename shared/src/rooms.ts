@@ -0,0 +1,137 @@
+import { TeamId } from "./game";
+
+// How starting sides are decided: at random, or by a knife round whose
+// winners choose
+export type SidePick = "coin-flip" | "knife-round";
+
+// Where the players are, so the lobby browser can match people up
+export type Region = "na" | "sa" | "eu" | "asia" | "oce";
+
+// Chosen when a room is created
+export interface RoomSettings {
+  teamSize: number; // Players per team: 1 for 1v1 up to 5 for 5v5
+  mapId: string;
+  maxRounds: number; // Regulation rounds, must be even
+  roundTimeMs: number;
+  friendlyFire: boolean;
+  private: boolean; // Left out of the lobby list; joined by invite or password
+  sidePick: SidePick;
+  region: Region;
+  restrictDeadChat: boolean; // Dead players' messages only reach the dead
+}
+
+// What a client asks for. A missing map means a random one; anything else
+// left out gets its default.
+export type RoomSettingsInput = Omit<RoomSettings, "mapId"> & {
+  mapId: string | null;
+};
+
+// Seats in a room: both teams full
+export const roomCapacity = (settings: RoomSettings) => settings.teamSize * 2;
+
+// Lifecycle of a room:
+//
+//   open <-> full -> starting -> in-game -> finished -> open/full ...
+//
+// "starting" falls back to open/full if someone unreadies or leaves during
+// the countdown, and a room is "closed" once its last player is gone.
+export type RoomStatus =
+  | "open"
+  | "full"
+  | "starting"
+  | "in-game"
+  | "finished"
+  | "closed";
+
+export interface User {
+  id: string; // Stable player ID, survives reconnects (unlike the socket ID)
+  username: string;
+  ready: boolean;
+  connected: boolean; // False while the seat is held for a reconnect
+  team: TeamId;
+  slot: number; // Position within the team, for a stable lobby layout
+}
+
+// Asking another player to trade teams (and slots) with you
+export interface SwapRequest {
+  fromId: string;
+  toId: string;
+}
+
+// Sent whole to everyone in the room on every change
+export interface Room {
+  id: string; // Six-character code; reused once the room is gone
+  instanceId: string; // Never reused, e.g. for keeping the room's chat
+  status: RoomStatus;
+  users: User[];
+  settings: RoomSettings; // Team size, map and match rules
+  swapRequests: SwapRequest[]; // Pending, shown to both players
+  hostId: string; // User who may kick, ban, lock and change settings
+  locked: boolean; // Set by the host: nobody new may join
+  bannedUsernames: string[]; // Lowercased account (or guest) names
+  hasPassword: boolean; // The hash itself never leaves the server
+  inviteToken: string; // Joins without the password; shared as a link
+  createdAt: number; // Epoch ms, for sorting the lobby browser
+  ranked: boolean; // Made by matchmaking; its first match counts toward ratings
+}
+
+// How a player gets into a room that isn't open to everyone
+export interface JoinAccess {
+  password?: string;
+  inviteToken?: string;
+}
+
+// One row of the lobby browser
+export interface LobbySummary {
+  id: string;
+  status: RoomStatus;
+  playerCount: number;
+  maxPlayers: number;
+  mapId: string;
+  teamSize: number;
+  sidePick: SidePick; // The room's mode: coin flip or knife round
+  hasPassword: boolean;
+  region: Region;
+  hostName: string;
+  createdAt: number; // Epoch ms
+}
+
+export type LobbySort = "newest" | "oldest" | "most-players" | "fewest-players";
+
+// What a client is browsing. Filters left out match every room.
+export interface LobbyQuery {
+  page: number; // 0-based
+  pageSize: number;
+  sort: LobbySort;
+  search?: string; // Room code or host name, case-insensitive
+  mapId?: string;
+  teamSize?: number;
+  sidePick?: SidePick;
+  hasPassword?: boolean;
+  region?: Region;
+}
+
+export interface LobbyPage {
+  lobbies: LobbySummary[];
+  total: number; // Matching rooms across all pages
+  page: number;
+  pageSize: number;
+}
+
+export const MAX_CHAT_LENGTH = 200; // Characters per message
+
+// "all" reaches the whole room, "team" only the sender's team
+export type ChatChannel = "all" | "team";
+
+export type ChatMessage =
+  | {
+      type: "player";
+      channel: ChatChannel;
+      username: string; // Always the sender's signed-in name
+      team: TeamId;
+      dead: boolean; // Sent while dead in a running match
+      message: string;
+      timestamp: number; // Epoch ms
+    }
+  // Written by the server: joins, leaves, kills and round results
+  | { type: "system"; message: string; timestamp: number };
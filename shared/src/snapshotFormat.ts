@@ -0,0 +1,54 @@
+import type {
+  BombStatus,
+  MatchPhase,
+  RoundEndReason,
+  Side,
+  TeamId,
+  WeaponId,
+} from "./game";
+
+// Constants of the binary snapshot format, encoded by
+// server/src/net/snapshotCodec.ts (which documents the layout) and decoded
+// by client/src/net/snapshotCodec.ts
+
+export const SNAPSHOT_PROTOCOL_VERSION = 3;
+
+export const SNAPSHOT_FLAG_FULL = 1 << 0;
+export const SNAPSHOT_FLAG_MATCH = 1 << 1;
+export const SNAPSHOT_FLAG_BOMB = 1 << 2;
+
+// Enum tables: the wire carries indexes into these, so only ever append
+export const SNAPSHOT_PHASES: MatchPhase[] = [
+  "warmup",
+  "freeze",
+  "live",
+  "round-end",
+  "halftime",
+  "match-end",
+  "knife-round",
+  "side-pick",
+];
+export const SNAPSHOT_TEAM_IDS: TeamId[] = ["alpha", "bravo"];
+export const SNAPSHOT_SIDES: Side[] = ["attack", "defend"];
+export const SNAPSHOT_REASONS: RoundEndReason[] = [
+  "elimination",
+  "time",
+  "detonated",
+  "defused",
+];
+export const SNAPSHOT_BOMB_STATUSES: BombStatus[] = [
+  "idle",
+  "planting",
+  "planted",
+  "defusing",
+  "defused",
+  "detonated",
+];
+export const SNAPSHOT_WEAPONS: WeaponId[] = [
+  "pistol",
+  "smg",
+  "shotgun",
+  "rifle",
+  "sniper",
+  "knife",
+];